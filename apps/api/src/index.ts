@@ -14,6 +14,12 @@ import { chatRouter } from './routes/chat.js'
 import { mindmapRouter } from './routes/mindmap.js'
 import { compileRouter } from './routes/compile.js'
 import { testRouter } from './routes/test.js'
+import { usageRouter } from './routes/usage.js'
+import { ragRouter } from './routes/rag.js'
+import { versionsRouter } from './routes/versions.js'
+import { featuresRouter } from './routes/features.js'
+import { getAvailableModels } from './services/llm/index.js'
+import { buildDiffSearchIndex } from './services/diff/index.js'
 
 const app = new Hono()
 
@@ -31,13 +37,17 @@ app.get('/', (c) => {
 })
 
 // API routes
-app.get('/api/versions', (c) => {
+app.get('/api/models', (c) => {
   return c.json({
-    versions: ['cpp11', 'cpp14', 'cpp17', 'cpp20', 'cpp23'],
+    success: true,
+    data: {
+      models: getAvailableModels(),
+    },
   })
 })
 
 // Mount routers
+app.route('/api/versions', versionsRouter)
 app.route('/api/ingest', ingestRouter)
 app.route('/api/diff', diffRouter)
 app.route('/api/generate', generateRouter)
@@ -48,6 +58,9 @@ app.route('/api/chat', chatRouter)
 app.route('/api/mindmap', mindmapRouter)
 app.route('/api/compile', compileRouter)
 app.route('/api/test', testRouter)
+app.route('/api/usage', usageRouter)
+app.route('/api/rag', ragRouter)
+app.route('/api/features', featuresRouter)
 
 const port = parseInt(process.env.PORT || '3001')
 const hostname = '0.0.0.0'
@@ -59,3 +72,8 @@ serve({
 }, (info) => {
   console.log(`Server running on http://${hostname}:${info.port}`)
 })
+
+// data/diffs 검색 인덱스 (실패해도 서버는 계속, 첫 검색 요청에서 재시도)
+buildDiffSearchIndex()
+  .then((count) => console.log(`Diff search index ready (${count} items)`))
+  .catch((error) => console.error('Failed to build diff search index:', error))
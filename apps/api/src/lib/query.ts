@@ -0,0 +1,11 @@
+import { z } from 'zod'
+
+/**
+ * 쉼표 구분 쿼리 목록 (?category=language,library → ['language', 'library'])
+ * 라우트 쿼리 스키마 공용
+ */
+export const csvList = <T extends z.ZodTypeAny>(item: T) =>
+  z.preprocess(
+    (value) => (typeof value === 'string' ? value.split(',').map((v) => v.trim()).filter(Boolean) : value),
+    z.array(item).optional()
+  )
@@ -0,0 +1,10 @@
+// 단어 = 문자/숫자/_ 연속 구간 (std::vector → std, vector / unique_ptr은 한 단어)
+export const WORD_PATTERN = /[\p{L}\p{N}_]+/gu
+
+/**
+ * 식별자(std::vector, unique_ptr 등)와 한글을 유지하는 토크나이저
+ * 로컬 임베딩, diff 검색(BM25), 재순위화, MMR 유사도가 같은 규칙을 사용
+ */
+export function tokenize(text: string): string[] {
+  return text.toLowerCase().match(WORD_PATTERN) ?? []
+}
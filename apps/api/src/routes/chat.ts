@@ -1,10 +1,24 @@
 import { Hono } from 'hono'
 import { streamSSE } from 'hono/streaming'
 import { z } from 'zod'
-import { getSupabaseClient } from '../db/supabase.js'
-import { ClaudeProvider, type ChatMessage } from '../services/llm/claude.js'
-import { createEmbeddingProvider } from '../services/embedding/index.js'
-import { DocumentRetriever } from '../services/rag/index.js'
+import { supportedVersionIdSchema } from '@shuguridan/shared/schemas'
+import { getSupabaseClient, supabase } from '../db/supabase.js'
+import {
+  getDefaultLLMProvider,
+  type ChatMessage,
+  type LLMProvider,
+  type LLMResponse,
+} from '../services/llm/index.js'
+import { getDefaultEmbeddingProvider } from '../services/embedding/index.js'
+import {
+  DocumentRetriever,
+  QueryRewriter,
+  toCitedSources,
+  linkCitations,
+  type CitedSource,
+  type RewrittenQuery,
+} from '../services/rag/index.js'
+import { UsageTracker, type UsageContext } from '../services/usage/index.js'
 
 const chatRouter = new Hono()
 
@@ -16,11 +30,17 @@ const chatRequestSchema = z.object({
       content: z.string().min(1),
     })
   ),
-  sourceVersion: z.enum(['cpp11', 'cpp14', 'cpp17', 'cpp20', 'cpp23', 'cpp26']),
-  targetVersion: z.enum(['cpp11', 'cpp14', 'cpp17', 'cpp20', 'cpp23', 'cpp26']),
+  sourceVersion: supportedVersionIdSchema,
+  targetVersion: supportedVersionIdSchema,
   useRag: z.boolean().optional().default(true),
   ragLimit: z.number().min(1).max(10).optional().default(5),
+  // 대화 히스토리로 검색 질의 재작성 (후속 질문 대응) / 버전별 하위 질의 확장
+  rewriteQuery: z.boolean().optional().default(true),
+  expandQuery: z.boolean().optional().default(false),
   responseMode: z.enum(['short', 'detailed']).optional().default('detailed'),
+  model: z.string().min(1).optional(),
+  temperature: z.number().min(0).max(2).optional(),
+  projectId: z.string().uuid().optional(),
 })
 
 /**
@@ -38,45 +58,80 @@ chatRouter.post('/', async (c) => {
     )
   }
 
-  const { messages, sourceVersion, targetVersion, useRag, ragLimit, responseMode } = parsed.data
-
-  // API 키 확인
-  const anthropicKey = process.env.ANTHROPIC_API_KEY
-  const openaiKey = process.env.OPENAI_API_KEY
+  const {
+    messages,
+    sourceVersion,
+    targetVersion,
+    useRag,
+    ragLimit,
+    rewriteQuery,
+    expandQuery,
+    responseMode,
+    model,
+    temperature,
+    projectId,
+  } = parsed.data
+
+  // LLM 프로바이더 확인 (Anthropic → OpenAI → Local)
+  let configuredProvider: LLMProvider | null
+  try {
+    configuredProvider = getDefaultLLMProvider({ model, temperature })
+  } catch (err) {
+    return c.json({ error: err instanceof Error ? err.message : 'Invalid model' }, 400)
+  }
 
-  if (!anthropicKey) {
-    return c.json({ error: 'ANTHROPIC_API_KEY is not configured' }, 500)
+  if (!configuredProvider) {
+    return c.json(
+      { error: 'No LLM provider configured. Set ANTHROPIC_API_KEY, OPENAI_API_KEY or LOCAL_LLM_BASE_URL' },
+      500
+    )
   }
 
+  const llmProvider = configuredProvider
+
+  // 사용량 기록 (Supabase 미설정 시 생략)
+  const usageTracker = supabase ? new UsageTracker(supabase) : null
+  const usageContext: UsageContext = { route: 'chat', projectId }
+
   // RAG 컨텍스트 가져오기
   let ragContext: string[] = []
+  let sources: CitedSource[] = []
+  let retrievalQuery: RewrittenQuery | null = null
 
-  if (useRag && openaiKey) {
+  if (useRag) {
     try {
       const supabase = await getSupabaseClient()
-      const embeddingProvider = createEmbeddingProvider({
-        provider: 'openai',
-        apiKey: openaiKey,
-      })
+      const embeddingProvider = getDefaultEmbeddingProvider()
       const retriever = new DocumentRetriever(supabase, embeddingProvider)
+      const versions = [...new Set([sourceVersion, targetVersion])]
 
-      // 마지막 사용자 메시지로 RAG 검색
+      // 후속 질문("두 번째 건?")도 검색되도록 대화 맥락을 반영한 단독 질의로 재작성
       const lastUserMessage = [...messages].reverse().find((m) => m.role === 'user')
       if (lastUserMessage) {
-        const resultsMap = await retriever.retrieveMultiVersion(
-          lastUserMessage.content,
-          [sourceVersion, targetVersion],
+        const rewriter = new QueryRewriter(llmProvider)
+        retrievalQuery = rewriteQuery || expandQuery
+          ? await rewriter.rewrite(messages as ChatMessage[], { versions, expand: expandQuery })
+          : { standalone: lastUserMessage.content, subQueries: [], rewritten: false }
+
+        const rewriteUsage = rewriter.getUsage()
+        if (rewriteUsage) {
+          await usageTracker?.recordCompletion({ ...usageContext, route: `${usageContext.route}/rewrite` }, rewriteUsage)
+        }
+
+        // 단독 질의 + 확장 질의의 결과를 합치고 원본 문서 단위로 다양화
+        const results = await retriever.retrieveQueries(
+          [{ query: retrievalQuery.standalone }, ...retrievalQuery.subQueries],
+          versions,
           { limit: ragLimit }
         )
-        // 모든 버전의 결과를 합치고 유니크하게 처리
-        const allResults = [...resultsMap.values()].flat()
-        const uniqueResults = allResults.filter((r, idx, arr) =>
-          arr.findIndex(x => x.id === r.id) === idx
-        ).slice(0, ragLimit)
-        ragContext = uniqueResults.map(
-          (r) => `[${r.title}] (관련도: ${Math.round(r.similarity * 100)}%)\n${r.content}`
+        sources = toCitedSources(results)
+        ragContext = results.map(
+          (r, i) =>
+            `[${sources[i].index}] ${r.title} (관련도: ${Math.round(r.similarity * 100)}%)\n출처: ${sources[i].url}\n${r.content}`
         )
       }
+
+      await usageTracker?.recordEmbedding(usageContext, embeddingProvider)
     } catch (err) {
       console.error('RAG retrieval error:', err)
       // RAG 실패해도 계속 진행
@@ -96,28 +151,44 @@ chatRouter.post('/', async (c) => {
 2. ${responseModeInstruction}
 3. 마이그레이션 시 주의사항이나 잠재적 문제점을 언급하세요.
 4. 한글로 답변하세요.
-5. 불확실한 경우 명확히 밝히세요.`
+5. 불확실한 경우 명확히 밝히세요.
+6. 참고 문서를 근거로 한 문장에는 해당 문서 번호를 [1], [2]처럼 표기하세요.`
 
   // SSE 스트리밍 응답
   return streamSSE(c, async (stream) => {
     try {
-      const claude = new ClaudeProvider(anthropicKey)
+      let completion = null as Omit<LLMResponse, 'content'> | null
+      let content = ''
 
-      for await (const chunk of claude.generateStream(
+      for await (const chunk of llmProvider.generateStream(
         messages as ChatMessage[],
         ragContext,
-        systemPrompt
+        systemPrompt,
+        (response) => {
+          completion = response
+        }
       )) {
+        content += chunk
         await stream.writeSSE({
           data: JSON.stringify({ type: 'content', content: chunk }),
         })
       }
 
+      if (completion) {
+        await usageTracker?.recordCompletion(usageContext, completion)
+      }
+
       // 완료 이벤트
       await stream.writeSSE({
         data: JSON.stringify({
           type: 'done',
-          ragSourcesUsed: ragContext.length,
+          ragSourcesUsed: sources.length,
+          sources,
+          retrievalQuery,
+          // 스트리밍된 본문의 [n] 표기를 출처 링크로 변환한 최종 본문
+          content: linkCitations(content, sources),
+          model: completion?.model ?? llmProvider.model,
+          usage: completion?.usage,
         }),
       })
     } catch (err) {
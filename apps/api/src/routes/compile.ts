@@ -1,5 +1,6 @@
 import { Hono } from 'hono'
 import { z } from 'zod'
+import { supportedVersionIdSchema } from '@shuguridan/shared/schemas'
 import {
   getDefaultCompilerProvider,
   prepareCode,
@@ -14,7 +15,7 @@ const compileRouter = new Hono()
 // Request schemas
 const compileRequestSchema = z.object({
   code: z.string().min(1, 'Code is required'),
-  cppStandard: z.enum(['cpp11', 'cpp14', 'cpp17', 'cpp20', 'cpp23', 'cpp26']),
+  cppStandard: supportedVersionIdSchema,
   filename: z.string().optional(),
   compilerFlags: z.array(z.string()).optional(),
   timeout: z.number().min(1000).max(60000).optional().default(30000),
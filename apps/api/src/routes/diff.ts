@@ -1,26 +1,170 @@
 import { Hono } from 'hono'
 import { z } from 'zod'
-import { analyzeDiff, getAvailableDiffPairs } from '../services/diff/index.js'
-import type { CppVersionId } from '@shuguridan/shared'
+import { isCppVersionId } from '@shuguridan/shared'
+import { cppVersionIdSchema } from '@shuguridan/shared/schemas'
+import { csvList } from '../lib/query.js'
+import {
+  DIFF_RELATION_TYPES,
+  DiffPathError,
+  analyzeDiff,
+  getAvailableDiffPairs,
+  getDiffGraph,
+  queryDiffGraph,
+  searchDiffItems,
+} from '../services/diff/index.js'
 
 const diffRouter = new Hono()
 
 // Validation schema
 const diffRequestSchema = z.object({
-  sourceVersion: z.enum(['cpp98', 'cpp03', 'cpp11', 'cpp14', 'cpp17', 'cpp20', 'cpp23']),
-  targetVersion: z.enum(['cpp98', 'cpp03', 'cpp11', 'cpp14', 'cpp17', 'cpp20', 'cpp23']),
+  sourceVersion: cppVersionIdSchema,
+  targetVersion: cppVersionIdSchema,
   categories: z
     .array(z.enum(['newFeatures', 'behaviorChanges', 'deprecated', 'libraryChanges']))
     .optional(),
 })
 
-// GET /api/diff/pairs - Get available diff pairs
-diffRouter.get('/pairs', (c) => {
-  const pairs = getAvailableDiffPairs()
-  return c.json({
-    success: true,
-    data: pairs,
+const searchQuerySchema = z
+  .object({
+    q: z.string().trim().optional(),
+    category: csvList(z.enum(['language', 'library', 'compiler'])),
+    impact: csvList(z.enum(['compile-time', 'runtime', 'ub', 'memory-model'])),
+    version: csvList(cppVersionIdSchema), // 변경이 도입된 버전
+    limit: z.coerce.number().int().min(1).max(100).default(20),
+    offset: z.coerce.number().int().min(0).default(0),
+  })
+  .refine((query) => query.q || query.category?.length || query.impact?.length || query.version?.length, {
+    message: 'Provide a query (q) or at least one facet filter',
   })
+
+const graphQuerySchema = z.object({
+  version: csvList(cppVersionIdSchema), // 도입 버전
+  type: csvList(z.enum(DIFF_RELATION_TYPES)),
+})
+
+const graphTraversalSchema = z.object({
+  type: csvList(z.enum(DIFF_RELATION_TYPES)),
+  direction: z.enum(['outgoing', 'incoming', 'both']).default('outgoing'),
+  depth: z.coerce.number().int().min(1).max(10).default(1),
+})
+
+// GET /api/diff/pairs - Get available diff pairs
+diffRouter.get('/pairs', async (c) => {
+  try {
+    const pairs = await getAvailableDiffPairs()
+    return c.json({
+      success: true,
+      data: pairs,
+    })
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return c.json({ error: message }, 500)
+  }
+})
+
+// GET /api/diff/search - Search diff items across all pairs
+diffRouter.get('/search', async (c) => {
+  try {
+    const parsed = searchQuerySchema.safeParse(c.req.query())
+
+    if (!parsed.success) {
+      return c.json(
+        { error: 'Validation failed', details: parsed.error.errors },
+        400
+      )
+    }
+
+    const { q, category, impact, version, limit, offset } = parsed.data
+    const startTime = Date.now()
+
+    const { hits, total, facets } = await searchDiffItems({
+      query: q,
+      categories: category,
+      impacts: impact,
+      versions: version,
+      limit,
+      offset,
+    })
+
+    return c.json({
+      success: true,
+      data: { hits, facets },
+      pagination: { total, limit, offset },
+      meta: {
+        durationMs: Date.now() - startTime,
+      },
+    })
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return c.json({ error: message }, 500)
+  }
+})
+
+// GET /api/diff/graph - Relation graph between diff items
+diffRouter.get('/graph', async (c) => {
+  try {
+    const parsed = graphQuerySchema.safeParse(c.req.query())
+
+    if (!parsed.success) {
+      return c.json(
+        { error: 'Validation failed', details: parsed.error.errors },
+        400
+      )
+    }
+
+    const graph = await getDiffGraph({
+      versions: parsed.data.version,
+      types: parsed.data.type,
+    })
+
+    return c.json({
+      success: true,
+      data: graph,
+    })
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return c.json({ error: message }, 500)
+  }
+})
+
+// GET /api/diff/graph/:version/:id - Items reachable from one item
+// 예: /graph/cpp23/std-generator?type=requires&depth=10 → 의존하는 모든 항목
+diffRouter.get('/graph/:version/:id', async (c) => {
+  try {
+    const version = c.req.param('version')
+    const id = c.req.param('id')
+
+    if (!isCppVersionId(version)) {
+      return c.json({ error: 'Invalid version' }, 400)
+    }
+
+    const parsed = graphTraversalSchema.safeParse(c.req.query())
+
+    if (!parsed.success) {
+      return c.json(
+        { error: 'Validation failed', details: parsed.error.errors },
+        400
+      )
+    }
+
+    const result = await queryDiffGraph(version, id, {
+      types: parsed.data.type,
+      direction: parsed.data.direction,
+      depth: parsed.data.depth,
+    })
+
+    if (!result) {
+      return c.json({ error: 'Diff item not found' }, 404)
+    }
+
+    return c.json({
+      success: true,
+      data: result,
+    })
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return c.json({ error: message }, 500)
+  }
 })
 
 // POST /api/diff - Analyze diff between versions
@@ -38,14 +182,10 @@ diffRouter.post('/', async (c) => {
 
     const { sourceVersion, targetVersion, categories } = parsed.data
 
-    // Validate version order
-    const versionOrder = ['cpp98', 'cpp03', 'cpp11', 'cpp14', 'cpp17', 'cpp20', 'cpp23']
-    const sourceIndex = versionOrder.indexOf(sourceVersion)
-    const targetIndex = versionOrder.indexOf(targetVersion)
-
-    if (sourceIndex >= targetIndex) {
+    // 타겟이 더 이전 버전이면 다운그레이드(백포트) 분석
+    if (sourceVersion === targetVersion) {
       return c.json(
-        { error: 'Target version must be newer than source version' },
+        { error: 'Source and target versions must differ' },
         400
       )
     }
@@ -53,8 +193,8 @@ diffRouter.post('/', async (c) => {
     const startTime = Date.now()
 
     const result = await analyzeDiff({
-      sourceVersion: sourceVersion as CppVersionId,
-      targetVersion: targetVersion as CppVersionId,
+      sourceVersion,
+      targetVersion,
       categories: categories as Array<'newFeatures' | 'behaviorChanges' | 'deprecated' | 'libraryChanges'>,
     })
 
@@ -68,6 +208,9 @@ diffRouter.post('/', async (c) => {
       },
     })
   } catch (error) {
+    if (error instanceof DiffPathError) {
+      return c.json({ error: error.message, missingPairs: error.missingPairs }, 404)
+    }
     const message = error instanceof Error ? error.message : 'Unknown error'
     return c.json({ error: message }, 500)
   }
@@ -76,14 +219,15 @@ diffRouter.post('/', async (c) => {
 // GET /api/diff/:source/:target - Quick diff lookup
 diffRouter.get('/:source/:target', async (c) => {
   try {
-    const source = c.req.param('source') as CppVersionId
-    const target = c.req.param('target') as CppVersionId
-
-    const validVersions = ['cpp98', 'cpp03', 'cpp11', 'cpp14', 'cpp17', 'cpp20', 'cpp23']
+    const source = c.req.param('source')
+    const target = c.req.param('target')
 
-    if (!validVersions.includes(source) || !validVersions.includes(target)) {
+    if (!isCppVersionId(source) || !isCppVersionId(target)) {
       return c.json({ error: 'Invalid version' }, 400)
     }
+    if (source === target) {
+      return c.json({ error: 'Source and target versions must differ' }, 400)
+    }
 
     const result = await analyzeDiff({
       sourceVersion: source,
@@ -95,6 +239,9 @@ diffRouter.get('/:source/:target', async (c) => {
       data: result,
     })
   } catch (error) {
+    if (error instanceof DiffPathError) {
+      return c.json({ error: error.message, missingPairs: error.missingPairs }, 404)
+    }
     const message = error instanceof Error ? error.message : 'Unknown error'
     return c.json({ error: message }, 500)
   }
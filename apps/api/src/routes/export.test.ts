@@ -0,0 +1,76 @@
+import { describe, expect, it, vi } from 'vitest'
+import { linkCitations } from '../services/rag/citations.js'
+import type { CitedSource } from '../services/rag/types.js'
+import { exportRouter } from './export.js'
+
+const DOCUMENT_ID = '3f1c2a4e-8b7d-4c1a-9e2f-5a6b7c8d9e0f'
+
+// 생성 결과 (GenerationResult의 content/sources)
+const sources: CitedSource[] = [
+  { index: 1, id: 'a', title: 'std::optional', versionId: 'cpp17', url: 'https://en.cppreference.com/w/cpp/utility/optional.html', similarity: 0.9 },
+  { index: 2, id: 'b', title: 'std::variant', versionId: 'cpp17', url: 'https://en.cppreference.com/w/cpp/utility/variant.html', similarity: 0.8 },
+]
+const content = linkCitations('# Guide\n\nUse std::optional for nullable values [1] and std::variant for sums [2].', sources)
+
+vi.mock('../lib/supabase.js', () => ({
+  supabase: {
+    from: () => ({
+      select: () => ({
+        eq: () => ({
+          single: async () => ({
+            data: {
+              id: DOCUMENT_ID,
+              doc_type: 'migration_guide',
+              source_version: 'cpp14',
+              target_version: 'cpp17',
+              content,
+              created_at: '2026-01-01T00:00:00Z',
+            },
+            error: null,
+          }),
+        }),
+      }),
+    }),
+  },
+}))
+
+async function exportWithSources(format: 'markdown' | 'html'): Promise<string> {
+  const res = await exportRouter.request('/document', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ documentId: DOCUMENT_ID, format, references: sources }),
+  })
+  expect(res.status).toBe(200)
+  const body = (await res.json()) as { data: { content: string } }
+  return body.data.content
+}
+
+describe('POST /api/export/document', () => {
+  it('prints numbered references in markdown', async () => {
+    const markdown = await exportWithSources('markdown')
+
+    expect(markdown).toContain('[[1]](https://en.cppreference.com/w/cpp/utility/optional.html)')
+    expect(markdown).toContain('## 참고 문헌')
+    expect(markdown).toContain('1. [std::optional](https://en.cppreference.com/w/cpp/utility/optional.html) (C++17)')
+    expect(markdown).toContain('2. [std::variant](https://en.cppreference.com/w/cpp/utility/variant.html) (C++17)')
+  })
+
+  it('prints numbered references in html', async () => {
+    const html = await exportWithSources('html')
+
+    expect(html).toContain('<section class="references">')
+    expect(html).toContain('<li value="1"><a href="https://en.cppreference.com/w/cpp/utility/optional.html">std::optional</a> (C++17)</li>')
+    expect(html).toContain('<li value="2"><a href="https://en.cppreference.com/w/cpp/utility/variant.html">std::variant</a> (C++17)</li>')
+  })
+
+  it('omits the references section without sources', async () => {
+    const res = await exportRouter.request('/document', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ documentId: DOCUMENT_ID, format: 'markdown' }),
+    })
+    const body = (await res.json()) as { data: { content: string } }
+
+    expect(body.data.content).not.toContain('참고 문헌')
+  })
+})
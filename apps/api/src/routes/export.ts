@@ -9,15 +9,24 @@ import {
   type DocumentToExport,
   type DiffToExport,
 } from '../services/export/index.js'
-import { analyzeDiff } from '../services/diff/index.js'
+import { analyzeDiff, DiffPathError } from '../services/diff/index.js'
 import type { CppVersionId } from '@shuguridan/shared'
 
 const exportRouter = new Hono()
 
 // Schemas
+// 본문의 [n] 인용 출처 (생성 응답의 sources를 그대로 전달, generated_docs에는 저장되지 않음)
+const exportReferenceSchema = z.object({
+  index: z.number().int().positive(),
+  title: z.string(),
+  versionId: z.string(),
+  url: z.string().url(),
+})
+
 const exportDocumentSchema = z.object({
   documentId: z.string().uuid(),
   format: z.enum(['markdown', 'html', 'json']),
+  references: z.array(exportReferenceSchema).optional(),
   includeMetadata: z.boolean().optional().default(true),
   includeTableOfContents: z.boolean().optional().default(true),
   theme: z.enum(['light', 'dark']).optional().default('light'),
@@ -64,6 +73,7 @@ exportRouter.post(
         content: docData.content,
         createdAt: docData.created_at,
         metadata: docData.metadata,
+        references: body.references,
       }
 
       // Export options
@@ -169,6 +179,9 @@ exportRouter.post(
         },
       })
     } catch (err) {
+      if (err instanceof DiffPathError) {
+        return c.json({ success: false, error: err.message, missingPairs: err.missingPairs }, 404)
+      }
       console.error('Failed to export diff:', err)
       return c.json(
         { success: false, error: 'Failed to export diff' },
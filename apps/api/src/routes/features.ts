@@ -0,0 +1,58 @@
+import { Hono } from 'hono'
+import { z } from 'zod'
+import { cppVersionIdSchema } from '@shuguridan/shared/schemas'
+import { csvList } from '../lib/query.js'
+import { compilerIdSchema, compilerVersionSchema, getFeatureMatrix } from '../services/features/index.js'
+
+const featuresRouter = new Hono()
+
+const matrixQuerySchema = z
+  .object({
+    standard: csvList(cppVersionIdSchema),
+    category: csvList(z.enum(['language', 'library'])),
+    q: z.string().trim().min(1).optional(),
+    // toolchain 기준 가용성 (?compiler=gcc&compilerVersion=9)
+    compiler: compilerIdSchema.optional(),
+    compilerVersion: compilerVersionSchema.optional(),
+    available: z.enum(['true', 'false']).transform((value) => value === 'true').optional(),
+  })
+  .refine((query) => !query.compiler === !query.compilerVersion, {
+    message: 'compiler and compilerVersion must be given together',
+  })
+  .refine((query) => query.available === undefined || query.compiler, {
+    message: 'available filter requires compiler and compilerVersion',
+  })
+
+// GET /api/features/matrix - Feature × standard × compiler availability
+featuresRouter.get('/matrix', async (c) => {
+  try {
+    const parsed = matrixQuerySchema.safeParse(c.req.query())
+
+    if (!parsed.success) {
+      return c.json(
+        { error: 'Validation failed', details: parsed.error.errors },
+        400
+      )
+    }
+
+    const { standard, category, q, compiler, compilerVersion, available } = parsed.data
+
+    const matrix = await getFeatureMatrix({
+      standards: standard,
+      categories: category,
+      query: q,
+      toolchain: compiler && compilerVersion ? { compiler, version: compilerVersion } : undefined,
+      available,
+    })
+
+    return c.json({
+      success: true,
+      data: matrix,
+    })
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return c.json({ error: message }, 500)
+  }
+})
+
+export { featuresRouter }
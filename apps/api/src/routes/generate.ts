@@ -1,18 +1,32 @@
 import { Hono } from 'hono'
 import { z } from 'zod'
 import { getSupabaseClient } from '../db/supabase.js'
-import { createLLMProvider } from '../services/llm/index.js'
-import { createEmbeddingProvider } from '../services/embedding/index.js'
+import {
+  getDefaultLLMProvider,
+  StructuredOutputError,
+  type LLMOverrides,
+  type LLMProvider,
+} from '../services/llm/index.js'
+import { getDefaultEmbeddingProvider } from '../services/embedding/index.js'
 import { DocumentRetriever } from '../services/rag/index.js'
-import { DocumentGenerator } from '../services/generation/index.js'
-import type { CppVersionId, DocType, TargetLevel, OutputLanguage } from '@shuguridan/shared'
+import {
+  DocumentGenerator,
+  type ChangeListResult,
+  type GenerationResult,
+} from '../services/generation/index.js'
+import { getDefaultResponseCache } from '../services/cache/index.js'
+import { getDefaultReranker } from '../services/rerank/index.js'
+import { DiffPathError } from '../services/diff/index.js'
+import { UsageTracker, type UsageContext } from '../services/usage/index.js'
+import { compareVersions, type DocType, type TargetLevel, type OutputLanguage } from '@shuguridan/shared'
+import { cppVersionIdSchema, supportedVersionIdSchema } from '@shuguridan/shared/schemas'
 
 const generateRouter = new Hono()
 
 // Validation schema
 const generateRequestSchema = z.object({
-  sourceVersion: z.enum(['cpp11', 'cpp14', 'cpp17', 'cpp20', 'cpp23', 'cpp26']),
-  targetVersion: z.enum(['cpp11', 'cpp14', 'cpp17', 'cpp20', 'cpp23', 'cpp26']),
+  sourceVersion: supportedVersionIdSchema,
+  targetVersion: supportedVersionIdSchema,
   docType: z.enum(['migration_guide', 'release_notes', 'test_points']),
   options: z.object({
     targetLevel: z.enum(['beginner', 'intermediate', 'senior', 'compiler-engineer']),
@@ -20,47 +34,71 @@ const generateRequestSchema = z.object({
     outputFormat: z.enum(['bullet', 'table', 'prose', 'mixed']).optional().default('mixed'),
     useRag: z.boolean().optional().default(true),
     ragLimit: z.number().min(1).max(20).optional().default(5),
+    cacheMode: z.enum(['use', 'bypass', 'invalidate']).optional().default('use'),
+    rerank: z.boolean().optional().default(true),
   }),
   code: z.string().optional(),
   filename: z.string().optional(),
+  model: z.string().min(1).optional(),
+  temperature: z.number().min(0).max(2).optional(),
+  projectId: z.string().uuid().optional(),
 })
 
+// Helper to resolve the LLM provider (Claude as default, LLM_PROVIDER=local for self-hosted servers)
+// 알 수 없는/미설정 모델, 허용 범위를 넘는 temperature는 400
+function resolveLLMProvider(
+  overrides: LLMOverrides
+): { provider: LLMProvider } | { error: string; status: 400 | 500 } {
+  let provider: LLMProvider | null
+  try {
+    provider = getDefaultLLMProvider(overrides)
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : 'Invalid model', status: 400 }
+  }
+
+  if (!provider) {
+    return {
+      error: 'Either ANTHROPIC_API_KEY, OPENAI_API_KEY or LOCAL_LLM_BASE_URL must be configured',
+      status: 500,
+    }
+  }
+  return { provider }
+}
+
 // Helper to create generator instance
-async function createGenerator() {
+async function createGenerator(llmProvider: LLMProvider) {
   const supabase = await getSupabaseClient()
 
-  // LLM Provider (Claude as default)
-  const anthropicKey = process.env.ANTHROPIC_API_KEY
-  const openaiKey = process.env.OPENAI_API_KEY
+  // RAG Retriever (OpenAI embeddings if configured, otherwise local hashed embeddings)
+  const embeddingProvider = getDefaultEmbeddingProvider()
+  const retriever = new DocumentRetriever(supabase, embeddingProvider)
 
-  if (!anthropicKey && !openaiKey) {
-    throw new Error('Either ANTHROPIC_API_KEY or OPENAI_API_KEY must be configured')
-  }
+  // Optional reranking stage (RERANKER=heuristic|llm)
+  const reranker = getDefaultReranker(llmProvider)
 
-  const llmProvider = anthropicKey
-    ? createLLMProvider({
-        provider: 'anthropic',
-        apiKey: anthropicKey,
-        model: 'claude-sonnet-4-5-20250929',
-      })
-    : createLLMProvider({
-        provider: 'openai',
-        apiKey: openaiKey!,
-        model: 'gpt-4-turbo-preview',
-      })
-
-  // RAG Retriever (optional - depends on OpenAI key for embeddings)
-  let retriever: DocumentRetriever | undefined
-
-  if (openaiKey) {
-    const embeddingProvider = createEmbeddingProvider({
-      provider: 'openai',
-      apiKey: openaiKey,
-    })
-    retriever = new DocumentRetriever(supabase, embeddingProvider)
+  return {
+    generator: new DocumentGenerator(getDefaultResponseCache(), llmProvider, retriever, reranker),
+    embeddingProvider,
+    reranker,
+    usageTracker: new UsageTracker(supabase),
   }
+}
 
-  return new DocumentGenerator(supabase, llmProvider, retriever)
+// Helper to record LLM + RAG embedding usage for a generation
+async function recordGenerationUsage(
+  { embeddingProvider, reranker, usageTracker }: Awaited<ReturnType<typeof createGenerator>>,
+  context: UsageContext,
+  result: GenerationResult
+) {
+  const rerankUsage = reranker?.getUsage()
+
+  await Promise.all([
+    usageTracker.recordCompletion(context, result, result.cached),
+    usageTracker.recordEmbedding(context, embeddingProvider),
+    rerankUsage
+      ? usageTracker.recordCompletion({ ...context, route: `${context.route}/rerank` }, rerankUsage)
+      : undefined,
+  ])
 }
 
 // POST /api/generate - Generate document
@@ -76,25 +114,36 @@ generateRouter.post('/', async (c) => {
       )
     }
 
-    const { sourceVersion, targetVersion, docType, options, code, filename } = parsed.data
+    const {
+      sourceVersion,
+      targetVersion,
+      docType,
+      options,
+      code,
+      filename,
+      model,
+      temperature,
+      projectId,
+    } = parsed.data
 
     // Validate version order
-    const versionOrder = ['cpp11', 'cpp14', 'cpp17', 'cpp20', 'cpp23', 'cpp26']
-    const sourceIndex = versionOrder.indexOf(sourceVersion)
-    const targetIndex = versionOrder.indexOf(targetVersion)
-
-    if (sourceIndex >= targetIndex) {
+    if (compareVersions(sourceVersion, targetVersion) >= 0) {
       return c.json(
         { error: 'Target version must be newer than source version' },
         400
       )
     }
 
-    const generator = await createGenerator()
+    const resolved = resolveLLMProvider({ model, temperature })
+    if ('error' in resolved) {
+      return c.json({ error: resolved.error }, resolved.status)
+    }
+
+    const services = await createGenerator(resolved.provider)
 
-    const result = await generator.generate({
-      sourceVersion: sourceVersion as CppVersionId,
-      targetVersion: targetVersion as CppVersionId,
+    const result = await services.generator.generate({
+      sourceVersion,
+      targetVersion,
       docType: docType as DocType,
       options: {
         targetLevel: options.targetLevel as TargetLevel,
@@ -102,16 +151,23 @@ generateRouter.post('/', async (c) => {
         outputFormat: options.outputFormat as 'bullet' | 'table' | 'prose' | 'mixed',
         useRag: options.useRag,
         ragLimit: options.ragLimit,
+        cacheMode: options.cacheMode,
+        rerank: options.rerank,
       },
       code,
       filename,
     })
 
+    await recordGenerationUsage(services, { route: 'generate', projectId }, result)
+
     return c.json({
       success: true,
       data: result,
     })
   } catch (error) {
+    if (error instanceof DiffPathError) {
+      return c.json({ error: error.message, missingPairs: error.missingPairs }, 404)
+    }
     const message = error instanceof Error ? error.message : 'Unknown error'
     return c.json({ error: message }, 500)
   }
@@ -123,11 +179,17 @@ generateRouter.post('/modernize', async (c) => {
     const body = await c.req.json()
 
     const modernizeSchema = z.object({
-      sourceVersion: z.enum(['cpp11', 'cpp14', 'cpp17', 'cpp20', 'cpp23', 'cpp26']),
-      targetVersion: z.enum(['cpp14', 'cpp17', 'cpp20', 'cpp23', 'cpp26']),
+      // C++98/03 코드 현대화도 허용
+      sourceVersion: cppVersionIdSchema,
+      targetVersion: cppVersionIdSchema,
       code: z.string().min(1),
       filename: z.string().optional(),
       outputLanguage: z.enum(['ko', 'en']).optional().default('ko'),
+      cacheMode: z.enum(['use', 'bypass', 'invalidate']).optional().default('use'),
+      includeChanges: z.boolean().optional().default(false),
+      model: z.string().min(1).optional(),
+      temperature: z.number().min(0).max(2).optional(),
+      projectId: z.string().uuid().optional(),
     })
 
     const parsed = modernizeSchema.safeParse(body)
@@ -139,13 +201,36 @@ generateRouter.post('/modernize', async (c) => {
       )
     }
 
-    const { sourceVersion, targetVersion, code, filename, outputLanguage } = parsed.data
+    const {
+      sourceVersion,
+      targetVersion,
+      code,
+      filename,
+      outputLanguage,
+      cacheMode,
+      includeChanges,
+      model,
+      temperature,
+      projectId,
+    } = parsed.data
+
+    if (compareVersions(sourceVersion, targetVersion) >= 0) {
+      return c.json(
+        { error: 'Target version must be newer than source version' },
+        400
+      )
+    }
+
+    const resolved = resolveLLMProvider({ model, temperature })
+    if ('error' in resolved) {
+      return c.json({ error: resolved.error }, resolved.status)
+    }
 
-    const generator = await createGenerator()
+    const services = await createGenerator(resolved.provider)
 
-    const result = await generator.generate({
-      sourceVersion: sourceVersion as CppVersionId,
-      targetVersion: targetVersion as CppVersionId,
+    const result = await services.generator.generate({
+      sourceVersion,
+      targetVersion,
       docType: 'migration_guide',
       options: {
         targetLevel: 'intermediate',
@@ -153,11 +238,35 @@ generateRouter.post('/modernize', async (c) => {
         outputFormat: 'mixed',
         useRag: true,
         ragLimit: 5,
+        cacheMode,
       },
       code,
       filename,
     })
 
+    const usageContext: UsageContext = { route: 'generate/modernize', projectId }
+    await recordGenerationUsage(services, usageContext, result)
+
+    // 변경 목록은 부가 정보이므로 실패해도 현대화 결과는 반환
+    let changeList: ChangeListResult | null = null
+    if (includeChanges) {
+      try {
+        changeList = await services.generator.explainChanges({
+          sourceVersion,
+          targetVersion,
+          outputLanguage: outputLanguage as OutputLanguage,
+          originalCode: code,
+          modernizedContent: result.content,
+        })
+        await services.usageTracker.recordCompletion(usageContext, changeList)
+      } catch (error) {
+        console.error('Failed to generate change list:', error)
+        if (error instanceof StructuredOutputError) {
+          await services.usageTracker.recordCompletion(usageContext, error.response)
+        }
+      }
+    }
+
     return c.json({
       success: true,
       data: {
@@ -165,12 +274,19 @@ generateRouter.post('/modernize', async (c) => {
         sourceVersion: result.sourceVersion,
         targetVersion: result.targetVersion,
         modernizedCode: result.content,
+        changes: changeList?.changes ?? null,
+        model: result.model,
+        usage: result.usage,
         ragSourcesUsed: result.ragSourcesUsed,
+        sources: result.sources,
         generationTimeMs: result.generationTimeMs,
         cached: result.cached,
       },
     })
   } catch (error) {
+    if (error instanceof DiffPathError) {
+      return c.json({ error: error.message, missingPairs: error.missingPairs }, 404)
+    }
     const message = error instanceof Error ? error.message : 'Unknown error'
     return c.json({ error: message }, 500)
   }
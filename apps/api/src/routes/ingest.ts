@@ -1,9 +1,17 @@
 import { Hono } from 'hono'
 import { z } from 'zod'
 import { getSupabaseClient } from '../db/supabase.js'
-import { createEmbeddingProvider } from '../services/embedding/index.js'
-import { DocumentProcessor } from '../services/rag/index.js'
-import type { CppVersionId } from '@shuguridan/shared'
+import { getDefaultEmbeddingProvider } from '../services/embedding/index.js'
+import {
+  DocumentProcessor,
+  startReembedJob,
+  getReembedJob,
+  getReembedProgress,
+  type ReembedJob,
+} from '../services/rag/index.js'
+import { UsageTracker } from '../services/usage/index.js'
+import { isCppVersionId, type CppVersionId } from '@shuguridan/shared'
+import { cppVersionIdSchema } from '@shuguridan/shared/schemas'
 
 const ingestRouter = new Hono()
 
@@ -13,12 +21,18 @@ const metadataSchema = z.object({
   section: z.string().optional(),
   feature: z.string().optional(),
   url: z.string().url().optional(),
+  // 원본 HTML의 개정 표기 (t-since-cxx17 등), 청크 본문의 표기와 합쳐 저장
+  versionMarkers: z
+    .array(z.object({ version: cppVersionIdSchema, type: z.enum(['since', 'until', 'deprecated']) }))
+    .optional(),
 })
 
 const ingestDocumentSchema = z.object({
-  versionId: z.enum(['cpp98', 'cpp03', 'cpp11', 'cpp14', 'cpp17', 'cpp20', 'cpp23', 'cpp26']),
+  versionId: cppVersionIdSchema,
   title: z.string().min(1),
   content: z.string().min(1),
+  sourceType: z.enum(['markdown', 'html', 'text', 'pdf']).optional(),
+  sourceKey: z.string().min(1).optional(),
   metadata: metadataSchema.optional(),
 })
 
@@ -26,18 +40,45 @@ const batchIngestSchema = z.object({
   documents: z.array(ingestDocumentSchema).min(1).max(100),
 })
 
+const reembedSchema = z.object({
+  versionId: cppVersionIdSchema.optional(),
+})
+
+const listDocumentsSchema = z.object({
+  versionId: cppVersionIdSchema.optional(),
+  category: z.enum(['language', 'library', 'compiler']).optional(),
+  url: z.string().min(1).optional(),
+  search: z.string().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+})
+
+// null = 키 삭제
+const patchMetadataSchema = z
+  .object({
+    category: z.enum(['language', 'library', 'compiler']).nullable().optional(),
+    section: z.string().nullable().optional(),
+    feature: z.string().nullable().optional(),
+    url: z.string().url().nullable().optional(),
+  })
+  .strict()
+  .refine((patch) => Object.keys(patch).length > 0, { message: 'No metadata fields to update' })
+
+const documentIdSchema = z.string().uuid()
+
+function formatReembedJob(job: ReembedJob) {
+  return { ...job, progress: getReembedProgress(job) }
+}
+
 // Helper to get processor instance
 async function getProcessor() {
   const supabase = await getSupabaseClient()
-  const openaiKey = process.env.OPENAI_API_KEY
-  if (!openaiKey) {
-    throw new Error('OPENAI_API_KEY not configured')
+  const embeddingProvider = getDefaultEmbeddingProvider()
+  return {
+    processor: new DocumentProcessor(supabase, embeddingProvider),
+    embeddingProvider,
+    usageTracker: new UsageTracker(supabase),
   }
-  const embeddingProvider = createEmbeddingProvider({
-    provider: 'openai',
-    apiKey: openaiKey,
-  })
-  return new DocumentProcessor(supabase, embeddingProvider)
 }
 
 // POST /api/ingest - Ingest single document
@@ -53,14 +94,18 @@ ingestRouter.post('/', async (c) => {
       )
     }
 
-    const processor = await getProcessor()
+    const { processor, embeddingProvider, usageTracker } = await getProcessor()
     const result = await processor.ingestDocument({
-      versionId: parsed.data.versionId as CppVersionId,
+      versionId: parsed.data.versionId,
       title: parsed.data.title,
       content: parsed.data.content,
+      sourceType: parsed.data.sourceType,
+      sourceKey: parsed.data.sourceKey,
       metadata: parsed.data.metadata,
     })
 
+    await usageTracker.recordEmbedding({ route: 'ingest' }, embeddingProvider)
+
     return c.json({
       success: true,
       data: result,
@@ -84,22 +129,29 @@ ingestRouter.post('/batch', async (c) => {
       )
     }
 
-    const processor = await getProcessor()
+    const { processor, embeddingProvider, usageTracker } = await getProcessor()
     const result = await processor.ingestBatch(
       parsed.data.documents.map((doc) => ({
-        versionId: doc.versionId as CppVersionId,
+        versionId: doc.versionId,
         title: doc.title,
         content: doc.content,
+        sourceType: doc.sourceType,
+        sourceKey: doc.sourceKey,
         metadata: doc.metadata,
       }))
     )
 
+    await usageTracker.recordEmbedding({ route: 'ingest/batch' }, embeddingProvider)
+
     return c.json({
       success: true,
       data: {
         totalProcessed: parsed.data.documents.length,
         successful: result.successful.length,
         failed: result.failed.length,
+        created: result.created,
+        updated: result.updated,
+        unchanged: result.unchanged,
         results: result,
       },
     })
@@ -112,16 +164,21 @@ ingestRouter.post('/batch', async (c) => {
 // GET /api/ingest/stats - Get document statistics
 ingestRouter.get('/stats', async (c) => {
   try {
-    const processor = await getProcessor()
+    const { processor, embeddingProvider } = await getProcessor()
     const versionId = c.req.query('versionId') as CppVersionId | undefined
 
-    const count = await processor.getDocumentCount(versionId)
+    const [count, embeddingModels] = await Promise.all([
+      processor.getDocumentCount(versionId),
+      processor.getEmbeddingModelStats(),
+    ])
 
     return c.json({
       success: true,
       data: {
         versionId: versionId || 'all',
         documentCount: count,
+        activeEmbeddingModel: embeddingProvider.model,
+        embeddingModels,
       },
     })
   } catch (error) {
@@ -165,17 +222,211 @@ ingestRouter.get('/urls', async (c) => {
   }
 })
 
+// POST /api/ingest/reembed - Re-embed documents with the active embedding model (background)
+ingestRouter.post('/reembed', async (c) => {
+  try {
+    const body = await c.req.json().catch(() => ({}))
+    const parsed = reembedSchema.safeParse(body)
+
+    if (!parsed.success) {
+      return c.json(
+        { error: 'Validation failed', details: parsed.error.errors },
+        400
+      )
+    }
+
+    const supabase = await getSupabaseClient()
+    const embeddingProvider = getDefaultEmbeddingProvider()
+
+    let job: ReembedJob
+    try {
+      job = startReembedJob(supabase, embeddingProvider, {
+        versionId: parsed.data.versionId,
+      })
+    } catch (error) {
+      return c.json({ error: error instanceof Error ? error.message : 'Failed to start job' }, 409)
+    }
+
+    return c.json(
+      {
+        success: true,
+        data: formatReembedJob(job),
+      },
+      202
+    )
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return c.json({ error: message }, 500)
+  }
+})
+
+// GET /api/ingest/reembed/:jobId - Get re-embed job progress
+ingestRouter.get('/reembed/:jobId', (c) => {
+  const job = getReembedJob(c.req.param('jobId'))
+
+  if (!job) {
+    return c.json({ error: 'Job not found' }, 404)
+  }
+
+  return c.json({
+    success: true,
+    data: formatReembedJob(job),
+  })
+})
+
+// GET /api/ingest/documents - Page through source documents (grouped chunks)
+ingestRouter.get('/documents', async (c) => {
+  try {
+    const parsed = listDocumentsSchema.safeParse(c.req.query())
+
+    if (!parsed.success) {
+      return c.json(
+        { error: 'Validation failed', details: parsed.error.errors },
+        400
+      )
+    }
+
+    const { limit, offset, ...filters } = parsed.data
+    const { processor } = await getProcessor()
+    const { documents, total } = await processor.listDocuments(
+      filters,
+      limit,
+      offset
+    )
+
+    return c.json({
+      success: true,
+      data: documents,
+      pagination: { total, limit, offset },
+    })
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return c.json({ error: message }, 500)
+  }
+})
+
+// GET /api/ingest/documents/:id - Get a source document with all of its chunks
+ingestRouter.get('/documents/:id', async (c) => {
+  try {
+    const id = documentIdSchema.safeParse(c.req.param('id'))
+    if (!id.success) {
+      return c.json({ error: 'Invalid document ID' }, 400)
+    }
+
+    const { processor } = await getProcessor()
+    const document = await processor.getDocument(id.data)
+
+    if (!document) {
+      return c.json({ error: 'Document not found' }, 404)
+    }
+
+    return c.json({
+      success: true,
+      data: document,
+    })
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return c.json({ error: message }, 500)
+  }
+})
+
+// PATCH /api/ingest/documents/:id - Update metadata on all chunks of a source document
+ingestRouter.patch('/documents/:id', async (c) => {
+  try {
+    const id = documentIdSchema.safeParse(c.req.param('id'))
+    if (!id.success) {
+      return c.json({ error: 'Invalid document ID' }, 400)
+    }
+
+    const body = await c.req.json()
+    const parsed = patchMetadataSchema.safeParse(body)
+
+    if (!parsed.success) {
+      return c.json(
+        { error: 'Validation failed', details: parsed.error.errors },
+        400
+      )
+    }
+
+    const { processor } = await getProcessor()
+    const document = await processor.updateDocumentMetadata(id.data, parsed.data)
+
+    if (!document) {
+      return c.json({ error: 'Document not found' }, 404)
+    }
+
+    return c.json({
+      success: true,
+      data: document,
+    })
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return c.json({ error: message }, 500)
+  }
+})
+
+// DELETE /api/ingest/documents/:id - Delete a source document and all of its chunks
+ingestRouter.delete('/documents/:id', async (c) => {
+  try {
+    const id = documentIdSchema.safeParse(c.req.param('id'))
+    if (!id.success) {
+      return c.json({ error: 'Invalid document ID' }, 400)
+    }
+
+    const { processor } = await getProcessor()
+    const deletedCount = await processor.deleteDocument(id.data)
+
+    if (deletedCount === null) {
+      return c.json({ error: 'Document not found' }, 404)
+    }
+
+    return c.json({
+      success: true,
+      data: { deletedCount },
+    })
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return c.json({ error: message }, 500)
+  }
+})
+
+// POST /api/ingest/documents/:id/reembed - Re-embed one source document with the active model
+ingestRouter.post('/documents/:id/reembed', async (c) => {
+  try {
+    const id = documentIdSchema.safeParse(c.req.param('id'))
+    if (!id.success) {
+      return c.json({ error: 'Invalid document ID' }, 400)
+    }
+
+    const { processor, embeddingProvider, usageTracker } = await getProcessor()
+    const result = await processor.reembedDocument(id.data)
+
+    if (!result) {
+      return c.json({ error: 'Document not found' }, 404)
+    }
+
+    await usageTracker.recordEmbedding({ route: 'ingest/documents/reembed' }, embeddingProvider)
+
+    return c.json({
+      success: true,
+      data: result,
+    })
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return c.json({ error: message }, 500)
+  }
+})
+
 // DELETE /api/ingest/:versionId - Delete all documents for a version
 ingestRouter.delete('/:versionId', async (c) => {
   try {
-    const versionId = c.req.param('versionId') as CppVersionId
-    const validVersions = ['cpp98', 'cpp03', 'cpp11', 'cpp14', 'cpp17', 'cpp20', 'cpp23', 'cpp26']
+    const versionId = c.req.param('versionId')
 
-    if (!validVersions.includes(versionId)) {
+    if (!isCppVersionId(versionId)) {
       return c.json({ error: 'Invalid version ID' }, 400)
     }
 
-    const processor = await getProcessor()
+    const { processor } = await getProcessor()
     const deletedCount = await processor.deleteByVersion(versionId)
 
     return c.json({
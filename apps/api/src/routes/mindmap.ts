@@ -1,8 +1,8 @@
 import { Hono } from 'hono'
 import { z } from 'zod'
-import { readFile } from 'fs/promises'
-import { join, dirname } from 'path'
-import { fileURLToPath } from 'url'
+import { SUPPORTED_VERSIONS, compareVersions, type CppVersionId } from '@shuguridan/shared'
+import { supportedVersionIdSchema } from '@shuguridan/shared/schemas'
+import { analyzeDiff, getAvailableDiffPairs, getRelationsBetween, getUpgradePath } from '../services/diff/index.js'
 
 const mindmapRouter = new Hono()
 
@@ -25,6 +25,7 @@ interface MindmapEdge {
   source: string
   target: string
   type?: string
+  label?: string // 관계 엣지: 관계 종류
 }
 
 interface DiffItem {
@@ -38,11 +39,20 @@ interface DiffItem {
 interface DiffData {
   sourceVersion: string
   targetVersion: string
+  backport?: boolean
   newFeatures?: DiffItem[]
   behaviorChanges?: DiffItem[]
   deprecated?: DiffItem[]
   removed?: DiffItem[]
   libraryChanges?: DiffItem[]
+  // 다운그레이드(백포트) 카테고리
+  unavailable?: DiffItem[]
+  unavailableLibrary?: DiffItem[]
+  revertedBehavior?: DiffItem[]
+  undeprecated?: DiffItem[]
+  restored?: DiffItem[]
+  // 항목 간 관계 (항목 id 기준, 트리 엣지와 별도로 교차 엣지로 표시)
+  relations?: Array<{ from: string; to: string; type: string }>
 }
 
 // 카테고리별 색상
@@ -52,6 +62,11 @@ const CATEGORY_COLORS: Record<string, string> = {
   deprecated: '#f97316', // orange
   removed: '#ef4444', // red
   libraryChanges: '#3b82f6', // blue
+  unavailable: '#ef4444', // red
+  unavailableLibrary: '#3b82f6', // blue
+  revertedBehavior: '#eab308', // yellow
+  undeprecated: '#f97316', // orange
+  restored: '#22c55e', // green
 }
 
 // 카테고리 한글명
@@ -61,12 +76,17 @@ const CATEGORY_LABELS: Record<string, string> = {
   deprecated: '지원 중단 예정',
   removed: '제거됨',
   libraryChanges: '라이브러리 변경',
+  unavailable: '사용 불가 기능',
+  unavailableLibrary: '사용 불가 라이브러리',
+  revertedBehavior: '동작 복귀',
+  undeprecated: '비권장 해제',
+  restored: '복원됨',
 }
 
 // 마인드맵 요청 스키마
 const mindmapRequestSchema = z.object({
-  sourceVersion: z.enum(['cpp11', 'cpp14', 'cpp17', 'cpp20', 'cpp23', 'cpp26']),
-  targetVersion: z.enum(['cpp11', 'cpp14', 'cpp17', 'cpp20', 'cpp23', 'cpp26']),
+  sourceVersion: supportedVersionIdSchema,
+  targetVersion: supportedVersionIdSchema,
   expandLevel: z.number().min(1).max(3).optional().default(2),
 })
 
@@ -87,7 +107,7 @@ function convertDiffToMindmap(
     type: 'root',
     data: {
       label: `${diff.sourceVersion.toUpperCase()} → ${diff.targetVersion.toUpperCase()}`,
-      description: 'C++ 버전 변경사항',
+      description: diff.backport ? 'C++ 백포트 변경사항' : 'C++ 버전 변경사항',
     },
     position: { x: 0, y: 0 },
   })
@@ -99,6 +119,11 @@ function convertDiffToMindmap(
     ['deprecated', diff.deprecated],
     ['removed', diff.removed],
     ['libraryChanges', diff.libraryChanges],
+    ['unavailable', diff.unavailable],
+    ['unavailableLibrary', diff.unavailableLibrary],
+    ['revertedBehavior', diff.revertedBehavior],
+    ['undeprecated', diff.undeprecated],
+    ['restored', diff.restored],
   ]
 
   let categoryIndex = 0
@@ -153,9 +178,56 @@ function convertDiffToMindmap(
     categoryIndex++
   }
 
+  // 관계 교차 엣지 (양쪽 항목 노드가 있을 때만, 같은 id가 여러 번 나오면 모호하므로 제외)
+  if (expandLevel >= 2 && diff.relations?.length) {
+    const nodeIdsByItemId = new Map<string, string | null>()
+    for (const [categoryKey, items] of categories) {
+      items?.forEach((item, index) => {
+        const itemId = `item-${categoryKey}-${index}`
+        nodeIdsByItemId.set(item.id, nodeIdsByItemId.has(item.id) ? null : itemId)
+      })
+    }
+
+    for (const relation of diff.relations) {
+      const source = nodeIdsByItemId.get(relation.from)
+      const target = nodeIdsByItemId.get(relation.to)
+      if (!source || !target) continue
+
+      edges.push({
+        id: `relation-${relation.type}-${source}-${target}`,
+        source,
+        target,
+        type: 'relation',
+        label: relation.type,
+      })
+    }
+  }
+
   return { nodes, edges }
 }
 
+/**
+ * 버전 쌍의 diff 로드 (여러 단계 경로는 합쳐서, 타겟이 이전 버전이면 백포트 카테고리)
+ * 경로가 없으면 null, 데이터 파일이 잘못된 경우는 에러
+ */
+async function loadMindmapDiff(source: CppVersionId, target: CppVersionId): Promise<DiffData | null> {
+  const [older, newer] = compareVersions(source, target) <= 0 ? [source, target] : [target, source]
+  const path = await getUpgradePath(older, newer)
+  if (path.length === 0) return null
+
+  const result = await analyzeDiff({ sourceVersion: source, targetVersion: target })
+  const graph = await getRelationsBetween(older, newer)
+  const ids = new Map(graph.nodes.map((node) => [node.key, node.id]))
+
+  return {
+    sourceVersion: source,
+    targetVersion: target,
+    backport: result.direction === 'downgrade',
+    ...(result.backport ?? result.diff),
+    relations: graph.edges.map((edge) => ({ from: ids.get(edge.from)!, to: ids.get(edge.to)!, type: edge.type })),
+  }
+}
+
 /**
  * POST /api/mindmap/data - 마인드맵 데이터 생성
  */
@@ -173,38 +245,22 @@ mindmapRouter.post('/data', async (c) => {
 
     const { sourceVersion, targetVersion, expandLevel } = parsed.data
 
-    // Diff 파일 로드
-    const __dirname = dirname(fileURLToPath(import.meta.url))
-    const dataDir = join(__dirname, '..', '..', '..', '..', 'data', 'diffs')
-    const diffFileName = `${sourceVersion}-${targetVersion}.json`
-    const diffFilePath = join(dataDir, diffFileName)
-
-    let diffData: DiffData
-
-    try {
-      const fileContent = await readFile(diffFilePath, 'utf-8')
-      diffData = JSON.parse(fileContent)
-    } catch (err) {
-      // 역방향이나 다른 조합 시도
-      const reverseDiffFileName = `${targetVersion}-${sourceVersion}.json`
-      try {
-        const reverseContent = await readFile(
-          join(dataDir, reverseDiffFileName),
-          'utf-8'
-        )
-        diffData = JSON.parse(reverseContent)
-      } catch {
-        // diff 파일이 없는 경우, 빈 데이터로 안내 메시지 표시
-        diffData = {
-          sourceVersion,
-          targetVersion,
-          newFeatures: [{
-            id: 'no-data',
-            title: '데이터 준비 중',
-            description: `${sourceVersion.replace('cpp', 'C++')} → ${targetVersion.replace('cpp', 'C++')} 버전 비교 데이터가 아직 준비되지 않았습니다. 현재 cpp11→cpp14, cpp14→cpp17 데이터만 제공됩니다.`,
-            category: 'newFeatures',
-          }],
-        }
+    // Diff 데이터 로드
+    let diffData = await loadMindmapDiff(sourceVersion, targetVersion)
+
+    if (!diffData) {
+      // diff 파일이 없는 경우, 빈 데이터로 안내 메시지 표시
+      const pairs = await getAvailableDiffPairs()
+      const available = pairs.map((pair) => `${pair.source}→${pair.target}`).join(', ')
+      diffData = {
+        sourceVersion,
+        targetVersion,
+        newFeatures: [{
+          id: 'no-data',
+          title: '데이터 준비 중',
+          description: `${sourceVersion.replace('cpp', 'C++')} → ${targetVersion.replace('cpp', 'C++')} 버전 비교 데이터가 아직 준비되지 않았습니다. 현재 제공되는 데이터: ${available || '없음'}`,
+          category: 'newFeatures',
+        }],
       }
     }
 
@@ -232,22 +288,22 @@ mindmapRouter.post('/data', async (c) => {
  * GET /api/mindmap/pairs - 사용 가능한 버전 쌍 목록
  */
 mindmapRouter.get('/pairs', async (c) => {
-  // 사용 가능한 모든 버전
-  const versions = ['cpp11', 'cpp14', 'cpp17', 'cpp20', 'cpp23', 'cpp26']
-
-  // 현재 사용 가능한 diff 파일 기반 쌍
-  const availablePairs = [
-    { source: 'cpp11', target: 'cpp14', available: true },
-    { source: 'cpp14', target: 'cpp17', available: true },
-  ]
+  try {
+    // data/diffs에 있는 diff 파일 기반 쌍
+    const pairs = await getAvailableDiffPairs()
+    const availablePairs = pairs.map((pair) => ({ ...pair, available: true }))
 
-  return c.json({
-    success: true,
-    data: {
-      versions,
-      pairs: availablePairs,
-    },
-  })
+    return c.json({
+      success: true,
+      data: {
+        versions: SUPPORTED_VERSIONS,
+        pairs: availablePairs,
+      },
+    })
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return c.json({ error: message }, 500)
+  }
 })
 
 export { mindmapRouter }
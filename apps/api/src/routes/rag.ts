@@ -0,0 +1,175 @@
+import { Hono } from 'hono'
+import { z } from 'zod'
+import { cppVersionIdSchema } from '@shuguridan/shared/schemas'
+import { getSupabaseClient } from '../db/supabase.js'
+import {
+  getDefaultEmbeddingProvider,
+  LocalEmbeddingProvider,
+  type EmbeddingProvider,
+} from '../services/embedding/index.js'
+import { DocumentRetriever } from '../services/rag/index.js'
+import {
+  InMemoryRetriever,
+  RetrievalEvaluator,
+  goldenQuerySetSchema,
+  listGoldenQuerySets,
+  loadFixtureCorpus,
+  loadGoldenQuerySet,
+  type GoldenQuerySet,
+} from '../services/evaluation/index.js'
+import { UsageTracker } from '../services/usage/index.js'
+
+const ragRouter = new Hono()
+
+// Validation schemas
+const evalRequestSchema = z
+  .object({
+    set: z.string().min(1).optional(), // data/eval/<set>.json
+    goldenSet: goldenQuerySetSchema.optional(), // 인라인 골든 세트
+    // data/eval/corpus/<fixture>.json을 메모리에 인덱싱해 DB 없이 평가 (항상 local 임베딩)
+    fixture: z.string().min(1).optional(),
+    // local: 네트워크 없이 재현 가능한 해시 임베딩 (CI 비교용), 기본: default (fixture는 local)
+    embeddingProvider: z.enum(['default', 'local']).optional(),
+    k: z.array(z.number().int().min(1).max(50)).min(1).max(10).optional(),
+    threshold: z.number().min(0).max(1).optional(),
+    mode: z.enum(['vector', 'lexical', 'hybrid']).optional(),
+    diversify: z.boolean().optional(),
+    mmrLambda: z.number().min(0).max(1).optional(),
+    maxChunksPerDocument: z.number().int().min(1).max(10).optional(),
+  })
+  .refine((body) => (body.set === undefined) !== (body.goldenSet === undefined), {
+    message: 'Provide either set or goldenSet',
+  })
+  .refine((body) => body.fixture === undefined || body.embeddingProvider !== 'default', {
+    message: 'Fixture evaluation uses local embeddings',
+  })
+
+const searchRequestSchema = z.object({
+  query: z.string().min(1),
+  filterVersion: cppVersionIdSchema.optional(),
+  // 청크 버전 표기 필터 (예: { validIn: 'cpp17', removedBy: 'cpp20' })
+  lifecycle: z
+    .object({
+      validIn: cppVersionIdSchema.optional(),
+      removedBy: cppVersionIdSchema.optional(),
+      deprecatedBy: cppVersionIdSchema.optional(),
+    })
+    .strict()
+    .optional(),
+  mode: z.enum(['vector', 'lexical', 'hybrid']).optional(),
+  limit: z.number().int().min(1).max(50).optional().default(10),
+  threshold: z.number().min(0).max(1).optional(),
+})
+
+// POST /api/rag/search - Retrieve documents (version_id + lifecycle filters)
+ragRouter.post('/search', async (c) => {
+  try {
+    const body = await c.req.json()
+    const parsed = searchRequestSchema.safeParse(body)
+
+    if (!parsed.success) {
+      return c.json(
+        { error: 'Validation failed', details: parsed.error.errors },
+        400
+      )
+    }
+
+    const { query, ...options } = parsed.data
+    const supabase = await getSupabaseClient()
+    const embeddingProvider = getDefaultEmbeddingProvider()
+    const retriever = new DocumentRetriever(supabase, embeddingProvider)
+
+    const documents = await retriever.retrieve(query, options)
+
+    await new UsageTracker(supabase).recordEmbedding({ route: 'rag/search' }, embeddingProvider)
+
+    return c.json({
+      success: true,
+      data: documents,
+    })
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return c.json({ error: message }, 500)
+  }
+})
+
+// GET /api/rag/eval/sets - List bundled golden query sets
+ragRouter.get('/eval/sets', async (c) => {
+  try {
+    const sets = await listGoldenQuerySets()
+    return c.json({
+      success: true,
+      data: { sets },
+    })
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return c.json({ error: message }, 500)
+  }
+})
+
+// POST /api/rag/eval - Run a golden query set against the retriever
+ragRouter.post('/eval', async (c) => {
+  try {
+    const body = await c.req.json()
+    const parsed = evalRequestSchema.safeParse(body)
+
+    if (!parsed.success) {
+      return c.json(
+        { error: 'Validation failed', details: parsed.error.errors },
+        400
+      )
+    }
+
+    const { set, goldenSet, fixture, embeddingProvider: providerName, ...options } = parsed.data
+
+    let querySet: GoldenQuerySet
+    if (goldenSet) {
+      querySet = goldenSet
+    } else {
+      const loaded = await loadGoldenQuerySet(set!)
+      if (!loaded) {
+        return c.json({ error: 'Golden set not found' }, 404)
+      }
+      querySet = loaded
+    }
+
+    if (fixture) {
+      const corpus = await loadFixtureCorpus(fixture)
+      if (!corpus) {
+        return c.json({ error: 'Fixture corpus not found' }, 404)
+      }
+
+      const embeddingProvider = new LocalEmbeddingProvider()
+      const retriever = await InMemoryRetriever.fromCorpus(corpus, embeddingProvider)
+      const report = await new RetrievalEvaluator(retriever, embeddingProvider.model).evaluate(querySet, options)
+
+      return c.json({
+        success: true,
+        data: report,
+      })
+    }
+
+    const supabase = await getSupabaseClient()
+    const embeddingProvider: EmbeddingProvider = providerName === 'local'
+      ? new LocalEmbeddingProvider()
+      : getDefaultEmbeddingProvider()
+    const evaluator = new RetrievalEvaluator(
+      new DocumentRetriever(supabase, embeddingProvider),
+      embeddingProvider.model
+    )
+
+    const report = await evaluator.evaluate(querySet, options)
+
+    await new UsageTracker(supabase).recordEmbedding({ route: 'rag/eval' }, embeddingProvider)
+
+    return c.json({
+      success: true,
+      data: report,
+    })
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return c.json({ error: message }, 500)
+  }
+})
+
+export { ragRouter }
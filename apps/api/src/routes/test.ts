@@ -2,10 +2,11 @@ import { Hono } from 'hono'
 import { z } from 'zod'
 import { zValidator } from '@hono/zod-validator'
 import type { CppVersionId } from '@shuguridan/shared'
+import { cppVersionIdSchema } from '@shuguridan/shared/schemas'
 import { getTestGenerator } from '../services/test-generator/index.js'
-
-// CppVersionId 값 배열 (zod 스키마용)
-const CPP_VERSION_IDS = ['cpp98', 'cpp03', 'cpp11', 'cpp14', 'cpp17', 'cpp20', 'cpp23', 'cpp26'] as const
+import { getDefaultLLMConfig } from '../services/llm/index.js'
+import { supabase } from '../db/supabase.js'
+import { UsageTracker } from '../services/usage/index.js'
 
 export const testRouter = new Hono()
 
@@ -13,11 +14,14 @@ export const testRouter = new Hono()
 const generateTestsSchema = z.object({
   originalCode: z.string().min(1, 'Original code is required'),
   modernizedCode: z.string().min(1, 'Modernized code is required'),
-  sourceVersion: z.enum(CPP_VERSION_IDS),
-  targetVersion: z.enum(CPP_VERSION_IDS),
+  sourceVersion: cppVersionIdSchema,
+  targetVersion: cppVersionIdSchema,
   testType: z.enum(['unit', 'io', 'both']).default('io'),
   outputLanguage: z.enum(['ko', 'en']).default('ko'),
   maxTestCases: z.number().min(1).max(10).default(5),
+  model: z.string().min(1).optional(),
+  temperature: z.number().min(0).max(2).optional(),
+  projectId: z.string().uuid().optional(),
 })
 
 const runTestsSchema = z.object({
@@ -33,7 +37,7 @@ const runTestsSchema = z.object({
       assertions: z.array(z.string()),
     })
   ),
-  cppStandard: z.enum(CPP_VERSION_IDS),
+  cppStandard: cppVersionIdSchema,
   timeout: z.number().min(1000).max(60000).default(10000),
 })
 
@@ -51,8 +55,8 @@ const compareTestsSchema = z.object({
       assertions: z.array(z.string()),
     })
   ),
-  sourceVersion: z.enum(CPP_VERSION_IDS),
-  targetVersion: z.enum(CPP_VERSION_IDS),
+  sourceVersion: cppVersionIdSchema,
+  targetVersion: cppVersionIdSchema,
   timeout: z.number().min(1000).max(60000).default(10000),
 })
 
@@ -61,17 +65,25 @@ const compareTestsSchema = z.object({
  * LLM을 사용하여 테스트 케이스 생성
  */
 testRouter.post('/generate', zValidator('json', generateTestsSchema), async (c) => {
-  const generator = getTestGenerator()
+  const body = c.req.valid('json')
+
+  let generator: ReturnType<typeof getTestGenerator>
+  try {
+    generator = getTestGenerator({ model: body.model, temperature: body.temperature })
+  } catch (error) {
+    return c.json(
+      { error: error instanceof Error ? error.message : 'Invalid model' },
+      400
+    )
+  }
 
   if (!generator) {
     return c.json(
-      { error: 'Test generator not available. Check ANTHROPIC_API_KEY.' },
+      { error: 'Test generator not available. Check LLM provider configuration.' },
       503
     )
   }
 
-  const body = c.req.valid('json')
-
   try {
     const result = await generator.generateTests({
       originalCode: body.originalCode,
@@ -83,6 +95,13 @@ testRouter.post('/generate', zValidator('json', generateTestsSchema), async (c)
       maxTestCases: body.maxTestCases,
     })
 
+    if (result.llm && supabase) {
+      await new UsageTracker(supabase).recordCompletion(
+        { route: 'test/generate', projectId: body.projectId },
+        result.llm
+      )
+    }
+
     if (!result.success) {
       return c.json(
         {
@@ -116,7 +135,7 @@ testRouter.post('/run', zValidator('json', runTestsSchema), async (c) => {
 
   if (!generator) {
     return c.json(
-      { error: 'Test runner not available. Check ANTHROPIC_API_KEY and JUDGE0_API_KEY.' },
+      { error: 'Test runner not available. Check LLM provider and compiler configuration.' },
       503
     )
   }
@@ -155,7 +174,7 @@ testRouter.post('/compare', zValidator('json', compareTestsSchema), async (c) =>
 
   if (!generator) {
     return c.json(
-      { error: 'Test runner not available. Check ANTHROPIC_API_KEY and JUDGE0_API_KEY.' },
+      { error: 'Test runner not available. Check LLM provider and compiler configuration.' },
       503
     )
   }
@@ -194,13 +213,14 @@ testRouter.post('/compare', zValidator('json', compareTestsSchema), async (c) =>
  */
 testRouter.get('/status', (c) => {
   const generator = getTestGenerator()
-  const hasAnthropicKey = !!process.env.ANTHROPIC_API_KEY
+  const llmConfig = getDefaultLLMConfig()
   const compilerProvider = process.env.COMPILER_PROVIDER || 'wandbox'
 
   return c.json({
     available: !!generator,
     services: {
-      testGenerator: hasAnthropicKey,
+      testGenerator: !!llmConfig,
+      llmProvider: llmConfig?.provider ?? null,
       compiler: true, // Wandbox is always available (no API key required)
       compilerProvider,
     },
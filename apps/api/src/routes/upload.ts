@@ -1,7 +1,8 @@
 import { Hono } from 'hono'
 import { getSupabaseClient } from '../db/supabase.js'
-import { createEmbeddingProvider } from '../services/embedding/index.js'
+import { getDefaultEmbeddingProvider } from '../services/embedding/index.js'
 import { DocumentProcessor } from '../services/rag/index.js'
+import { UsageTracker } from '../services/usage/index.js'
 import {
   parseFile,
   isSupportedFile,
@@ -11,30 +12,23 @@ import {
   updateFileStatus,
   updateJobStatus,
 } from '../services/upload/index.js'
-import type { CppVersionId } from '@shuguridan/shared'
+import { SUPPORTED_VERSIONS, type CppVersionId } from '@shuguridan/shared'
 
 const uploadRouter = new Hono()
 
-// Supported versions for all C++ standards
-const SUPPORTED_VERSIONS = ['cpp11', 'cpp14', 'cpp17', 'cpp20', 'cpp23', 'cpp26'] as const
-type SupportedVersion = (typeof SUPPORTED_VERSIONS)[number]
-
-function isValidVersion(version: string): version is SupportedVersion {
-  return SUPPORTED_VERSIONS.includes(version as SupportedVersion)
+function isValidVersion(version: string): version is CppVersionId {
+  return (SUPPORTED_VERSIONS as string[]).includes(version)
 }
 
 // Helper to get processor instance
 async function getProcessor() {
   const supabase = await getSupabaseClient()
-  const openaiKey = process.env.OPENAI_API_KEY
-  if (!openaiKey) {
-    throw new Error('OPENAI_API_KEY not configured')
+  const embeddingProvider = getDefaultEmbeddingProvider()
+  return {
+    processor: new DocumentProcessor(supabase, embeddingProvider),
+    embeddingProvider,
+    usageTracker: new UsageTracker(supabase),
   }
-  const embeddingProvider = createEmbeddingProvider({
-    provider: 'openai',
-    apiKey: openaiKey,
-  })
-  return new DocumentProcessor(supabase, embeddingProvider)
 }
 
 // POST /api/upload - Upload and process files
@@ -81,7 +75,7 @@ uploadRouter.post('/', async (c) => {
 
     if (supportedFiles.length === 0) {
       return c.json(
-        { error: 'No supported files. Supported formats: .md, .txt, .pdf' },
+        { error: 'No supported files. Supported formats: .md, .txt, .html, .pdf' },
         400
       )
     }
@@ -133,13 +127,13 @@ uploadRouter.get('/status/:jobId', async (c) => {
 // GET /api/upload/stats - Get embedding statistics by version
 uploadRouter.get('/stats', async (c) => {
   try {
-    const processor = await getProcessor()
+    const { processor } = await getProcessor()
 
     const stats: Record<string, number> = {}
     let total = 0
 
     for (const version of SUPPORTED_VERSIONS) {
-      const count = await processor.getDocumentCount(version as CppVersionId)
+      const count = await processor.getDocumentCount(version)
       stats[version] = count
       total += count
     }
@@ -168,9 +162,9 @@ async function processFilesInBackground(
 
   updateJobStatus(jobId, 'processing')
 
-  let processor: DocumentProcessor
+  let services: Awaited<ReturnType<typeof getProcessor>>
   try {
-    processor = await getProcessor()
+    services = await getProcessor()
   } catch (error) {
     // Mark all files as failed
     for (const file of files) {
@@ -183,6 +177,8 @@ async function processFilesInBackground(
     return
   }
 
+  const { processor, embeddingProvider, usageTracker } = services
+
   // Process files sequentially to avoid overwhelming the API
   for (const file of files) {
     updateFileStatus(jobId, file.name, { status: 'processing' })
@@ -199,6 +195,7 @@ async function processFilesInBackground(
         versionId,
         title,
         content: parsed.content,
+        sourceType: parsed.sourceType,
         metadata: {
           category: 'language',
           section: 'Uploaded Document',
@@ -208,6 +205,7 @@ async function processFilesInBackground(
       updateFileStatus(jobId, file.name, {
         status: 'completed',
         documentId: result.documentId,
+        ingestStatus: result.status,
         chunksCreated: result.chunksCreated,
         totalTokens: result.totalTokens,
       })
@@ -219,6 +217,8 @@ async function processFilesInBackground(
     }
   }
 
+  await usageTracker.recordEmbedding({ route: 'upload' }, embeddingProvider)
+
   updateJobStatus(jobId, 'completed')
 }
 
@@ -0,0 +1,74 @@
+import { Hono } from 'hono'
+import { z } from 'zod'
+import { zValidator } from '@hono/zod-validator'
+import { getSupabaseClient } from '../db/supabase.js'
+import { UsageTracker } from '../services/usage/index.js'
+
+const usageRouter = new Hono()
+
+// Schemas
+const usageFilterSchema = z.object({
+  from: z.string().datetime({ offset: true }).or(z.string().date()).optional(),
+  to: z.string().datetime({ offset: true }).or(z.string().date()).optional(),
+  projectId: z.string().uuid().optional(),
+  route: z.string().min(1).optional(),
+})
+
+const listUsageSchema = usageFilterSchema.extend({
+  limit: z.coerce.number().int().min(1).max(500).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+})
+
+const summaryUsageSchema = usageFilterSchema.extend({
+  groupBy: z.enum(['day', 'project', 'model']).default('day'),
+})
+
+async function getUsageTracker() {
+  const supabase = await getSupabaseClient()
+  return new UsageTracker(supabase)
+}
+
+// GET /api/usage - List usage records (newest first)
+usageRouter.get('/', zValidator('query', listUsageSchema), async (c) => {
+  const { limit, offset, ...query } = c.req.valid('query')
+
+  try {
+    const tracker = await getUsageTracker()
+    const { records, total } = await tracker.list(query, limit, offset)
+
+    return c.json({
+      success: true,
+      data: records,
+      pagination: { total, limit, offset },
+    })
+  } catch (err) {
+    console.error('Failed to list usage:', err)
+    return c.json(
+      { success: false, error: 'Failed to list usage' },
+      500
+    )
+  }
+})
+
+// GET /api/usage/summary?groupBy=day|project|model - Aggregated tokens and cost
+usageRouter.get('/summary', zValidator('query', summaryUsageSchema), async (c) => {
+  const { groupBy, ...query } = c.req.valid('query')
+
+  try {
+    const tracker = await getUsageTracker()
+    const summary = await tracker.summarize(groupBy, query)
+
+    return c.json({
+      success: true,
+      data: summary,
+    })
+  } catch (err) {
+    console.error('Failed to summarize usage:', err)
+    return c.json(
+      { success: false, error: 'Failed to summarize usage' },
+      500
+    )
+  }
+})
+
+export { usageRouter }
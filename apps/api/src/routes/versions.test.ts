@@ -0,0 +1,24 @@
+import { describe, expect, it, vi } from 'vitest'
+import { CPP_VERSION_IDS, type CppVersionInfo } from '@shuguridan/shared'
+import { versionsRouter } from './versions.js'
+
+// 환경 변수와 관계없이 DB가 없는 상태로 실행
+vi.mock('../db/supabase.js', () => ({
+  getSupabaseClient: () => Promise.reject(new Error('Supabase not configured')),
+}))
+
+describe('GET /api/versions', () => {
+  it('serves the registry without a database', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+
+    const res = await versionsRouter.request('/')
+    const body = (await res.json()) as { data: { versions: CppVersionInfo[] } }
+
+    expect(res.status).toBe(200)
+    expect(body.data.versions.map((v) => v.id)).toEqual([...CPP_VERSION_IDS])
+
+    const cpp20 = body.data.versions.find((v) => v.id === 'cpp20')!
+    expect(cpp20.capabilities.ragDocuments).toBeNull()
+    expect(cpp20.capabilities.diffData).toEqual({ asSource: ['cpp23'], asTarget: ['cpp17'] })
+  })
+})
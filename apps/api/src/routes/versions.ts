@@ -0,0 +1,59 @@
+import { Hono } from 'hono'
+import { listVersions, type CppVersionId, type CppVersionInfo } from '@shuguridan/shared'
+import { getSupabaseClient } from '../db/supabase.js'
+import { getDefaultEmbeddingProvider } from '../services/embedding/index.js'
+import { DocumentProcessor } from '../services/rag/index.js'
+import { getAvailableDiffPairs } from '../services/diff/index.js'
+import { getDefaultCompilerProvider } from '../services/compiler/index.js'
+
+const versionsRouter = new Hono()
+
+/**
+ * 버전별 임베딩 청크 수 (DB가 없거나 조회에 실패하면 null, 레지스트리는 DB 없이도 제공)
+ */
+async function getDocumentCounts(): Promise<Partial<Record<CppVersionId, number>> | null> {
+  try {
+    const supabase = await getSupabaseClient()
+    return await new DocumentProcessor(supabase, getDefaultEmbeddingProvider()).getVersionDocumentCounts()
+  } catch (error) {
+    console.warn('Failed to count RAG documents per version:', error instanceof Error ? error.message : error)
+    return null
+  }
+}
+
+// GET /api/versions - Version registry with per-version capabilities
+versionsRouter.get('/', async (c) => {
+  try {
+    const compiler = getDefaultCompilerProvider()
+
+    const [pairs, documentCounts] = await Promise.all([
+      getAvailableDiffPairs(),
+      getDocumentCounts(),
+    ])
+
+    const versions: CppVersionInfo[] = listVersions().map((version) => ({
+      ...version,
+      capabilities: {
+        diffData: {
+          asSource: pairs.filter((pair) => pair.source === version.id).map((pair) => pair.target),
+          asTarget: pairs.filter((pair) => pair.target === version.id).map((pair) => pair.source),
+        },
+        compiler: compiler?.supportedStandards.includes(version.id) ?? false,
+        ragDocuments: documentCounts ? documentCounts[version.id] ?? 0 : null,
+      },
+    }))
+
+    return c.json({
+      success: true,
+      data: {
+        versions,
+        compiler: compiler?.name ?? null,
+      },
+    })
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return c.json({ error: message }, 500)
+  }
+})
+
+export { versionsRouter }
@@ -0,0 +1,36 @@
+import { mkdtemp, rm, writeFile } from 'fs/promises'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { FileResponseCache } from './file.js'
+
+describe('FileResponseCache', () => {
+  let directory: string
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'response-cache-'))
+  })
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true })
+  })
+
+  it('round-trips an entry', async () => {
+    const cache = new FileResponseCache(join(directory, 'cache'))
+    await cache.set('key', 'response', 'model', 60_000)
+
+    expect(await cache.get('key')).toMatchObject({ key: 'key', response: 'response', model: 'model' })
+  })
+
+  it('logs instead of throwing when the cache cannot be written', async () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {})
+    // 캐시 디렉터리 위치에 파일이 있어 mkdir 실패
+    const blocked = join(directory, 'blocked')
+    await writeFile(blocked, '')
+    const cache = new FileResponseCache(blocked)
+
+    await expect(cache.set('key', 'response', 'model', 60_000)).resolves.toBeUndefined()
+    expect(error).toHaveBeenCalledWith('Failed to save LLM cache:', expect.any(String))
+    error.mockRestore()
+  })
+})
@@ -0,0 +1,94 @@
+import { mkdir, readFile, readdir, unlink, writeFile } from 'fs/promises'
+import { join } from 'path'
+import type { CacheEntry, ResponseCache } from './types.js'
+
+interface StoredEntry {
+  key: string
+  response: string
+  model: string
+  createdAt: string
+  expiresAt: string
+}
+
+/**
+ * Local file-system cache (항목당 JSON 파일 1개)
+ * 캐시 디렉터리를 커밋/복사하면 LLM 없이도 동일한 응답을 재현할 수 있음
+ */
+export class FileResponseCache implements ResponseCache {
+  name = 'file'
+  private directory: string
+
+  constructor(directory: string) {
+    this.directory = directory
+  }
+
+  private getPath(key: string): string {
+    // 키는 sha256 hex이지만 경로 탈출을 막기 위해 한 번 더 정리
+    return join(this.directory, `${key.replace(/[^a-zA-Z0-9_-]/g, '_')}.json`)
+  }
+
+  async get(key: string): Promise<CacheEntry | null> {
+    let stored: StoredEntry
+    try {
+      stored = JSON.parse(await readFile(this.getPath(key), 'utf-8'))
+    } catch {
+      return null
+    }
+
+    const expiresAt = new Date(stored.expiresAt)
+    if (expiresAt.getTime() <= Date.now()) {
+      await this.delete(key)
+      return null
+    }
+
+    return {
+      key: stored.key,
+      response: stored.response,
+      model: stored.model,
+      createdAt: new Date(stored.createdAt),
+      expiresAt,
+    }
+  }
+
+  async set(key: string, response: string, model: string, ttlMs: number): Promise<void> {
+    const now = new Date()
+    const stored: StoredEntry = {
+      key,
+      response,
+      model,
+      createdAt: now.toISOString(),
+      expiresAt: new Date(now.getTime() + ttlMs).toISOString(),
+    }
+
+    // 저장 실패로 이미 받은 LLM 응답을 버리지 않도록 에러를 던지지 않음 (SupabaseResponseCache와 동일)
+    try {
+      await mkdir(this.directory, { recursive: true })
+      await writeFile(this.getPath(key), JSON.stringify(stored, null, 2), 'utf-8')
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error'
+      console.error('Failed to save LLM cache:', message)
+    }
+  }
+
+  async delete(key: string): Promise<boolean> {
+    try {
+      await unlink(this.getPath(key))
+      return true
+    } catch {
+      return false
+    }
+  }
+
+  async clear(): Promise<number> {
+    let files: string[]
+    try {
+      files = await readdir(this.directory)
+    } catch {
+      return 0
+    }
+
+    const jsonFiles = files.filter((f) => f.endsWith('.json'))
+    await Promise.all(jsonFiles.map((f) => unlink(join(this.directory, f))))
+    return jsonFiles.length
+  }
+}
@@ -0,0 +1,101 @@
+import { resolve } from 'path'
+import { supabase } from '../../db/supabase.js'
+import { MemoryResponseCache } from './memory.js'
+import { FileResponseCache } from './file.js'
+import { SupabaseResponseCache } from './supabase.js'
+import type { CacheDocType, ResponseCache, ResponseCacheConfig } from './types.js'
+
+const DEFAULT_CACHE_DIRECTORY = '.cache/llm-responses'
+const HOUR_MS = 60 * 60 * 1000
+
+// 문서 타입별 기본 TTL (시간)
+// 릴리즈 노트/테스트 포인트는 diff 데이터에만 의존하므로 더 오래 유지
+export const DEFAULT_CACHE_TTL_HOURS: Record<CacheDocType, number> = {
+  migration_guide: 24,
+  release_notes: 72,
+  test_points: 72,
+  code_modernization: 24,
+}
+
+/**
+ * Create a response cache based on configuration
+ * 'none'이면 null (캐시 비활성화)
+ */
+export function createResponseCache(config: ResponseCacheConfig): ResponseCache | null {
+  switch (config.provider) {
+    case 'supabase':
+      if (!supabase) throw new Error('Supabase not configured for response cache')
+      return new SupabaseResponseCache(supabase)
+
+    case 'memory':
+      return new MemoryResponseCache(config.maxEntries)
+
+    case 'file':
+      return new FileResponseCache(resolve(config.directory || DEFAULT_CACHE_DIRECTORY))
+
+    case 'none':
+      return null
+
+    default:
+      throw new Error(`Unknown response cache provider: ${config.provider}`)
+  }
+}
+
+// 메모리 캐시는 요청 간에 유지되어야 하므로 인스턴스를 모듈 단위로 보관
+let defaultCache: ResponseCache | null | undefined
+
+/**
+ * Get default response cache from environment
+ * RESPONSE_CACHE가 지정되지 않으면 Supabase → memory 순으로 선택
+ */
+export function getDefaultResponseCache(): ResponseCache | null {
+  if (defaultCache !== undefined) return defaultCache
+
+  const provider = process.env.RESPONSE_CACHE as ResponseCacheConfig['provider'] | undefined
+
+  if (provider === 'supabase' && !supabase) {
+    console.warn('Supabase response cache selected but Supabase not configured, falling back to memory')
+    defaultCache = new MemoryResponseCache()
+  } else {
+    defaultCache = createResponseCache({
+      provider: provider || (supabase ? 'supabase' : 'memory'),
+      maxEntries: process.env.RESPONSE_CACHE_MAX_ENTRIES
+        ? parseInt(process.env.RESPONSE_CACHE_MAX_ENTRIES)
+        : undefined,
+      directory: process.env.RESPONSE_CACHE_DIR,
+    })
+  }
+
+  return defaultCache
+}
+
+/**
+ * 문서 타입별 캐시 TTL (ms)
+ * RESPONSE_CACHE_TTL_HOURS로 재정의 가능
+ * 예: "48" (전체) 또는 "migration_guide=12,release_notes=168"
+ */
+export function getCacheTtlMs(docType: CacheDocType): number {
+  const ttlHours = { ...DEFAULT_CACHE_TTL_HOURS }
+  const override = process.env.RESPONSE_CACHE_TTL_HOURS?.trim()
+
+  if (override) {
+    for (const part of override.split(',')) {
+      const [name, value] = part.includes('=') ? part.split('=') : [undefined, part]
+      const hours = parseFloat(value)
+      if (isNaN(hours) || hours < 0) continue
+
+      if (name === undefined) {
+        for (const key of Object.keys(ttlHours) as CacheDocType[]) ttlHours[key] = hours
+      } else if (name.trim() in ttlHours) {
+        ttlHours[name.trim() as CacheDocType] = hours
+      }
+    }
+  }
+
+  return ttlHours[docType] * HOUR_MS
+}
+
+export * from './types.js'
+export { MemoryResponseCache } from './memory.js'
+export { FileResponseCache } from './file.js'
+export { SupabaseResponseCache } from './supabase.js'
@@ -0,0 +1,59 @@
+import type { CacheEntry, ResponseCache } from './types.js'
+
+const DEFAULT_MAX_ENTRIES = 500
+
+/**
+ * In-memory LRU cache
+ * 프로세스 재시작 시 비워지므로 개발/테스트 환경용
+ */
+export class MemoryResponseCache implements ResponseCache {
+  name = 'memory'
+  private entries = new Map<string, CacheEntry>()
+  private maxEntries: number
+
+  constructor(maxEntries = DEFAULT_MAX_ENTRIES) {
+    this.maxEntries = maxEntries
+  }
+
+  async get(key: string): Promise<CacheEntry | null> {
+    const entry = this.entries.get(key)
+    if (!entry) return null
+
+    if (entry.expiresAt.getTime() <= Date.now()) {
+      this.entries.delete(key)
+      return null
+    }
+
+    // Map은 삽입 순서를 유지하므로 다시 넣어 최근 사용으로 갱신
+    this.entries.delete(key)
+    this.entries.set(key, entry)
+    return entry
+  }
+
+  async set(key: string, response: string, model: string, ttlMs: number): Promise<void> {
+    const now = new Date()
+    this.entries.delete(key)
+    this.entries.set(key, {
+      key,
+      response,
+      model,
+      createdAt: now,
+      expiresAt: new Date(now.getTime() + ttlMs),
+    })
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string
+      this.entries.delete(oldest)
+    }
+  }
+
+  async delete(key: string): Promise<boolean> {
+    return this.entries.delete(key)
+  }
+
+  async clear(): Promise<number> {
+    const count = this.entries.size
+    this.entries.clear()
+    return count
+  }
+}
@@ -0,0 +1,80 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { CacheEntry, ResponseCache } from './types.js'
+
+/**
+ * Supabase llm_cache 테이블 기반 캐시 (여러 API 인스턴스가 공유)
+ */
+export class SupabaseResponseCache implements ResponseCache {
+  name = 'supabase'
+  private supabase: SupabaseClient
+
+  constructor(supabase: SupabaseClient) {
+    this.supabase = supabase
+  }
+
+  async get(key: string): Promise<CacheEntry | null> {
+    const { data, error } = await this.supabase
+      .from('llm_cache')
+      .select('prompt_hash, response, model, created_at, expires_at')
+      .eq('prompt_hash', key)
+      .gt('expires_at', new Date().toISOString())
+      .single()
+
+    if (error || !data) {
+      return null
+    }
+
+    return {
+      key: data.prompt_hash,
+      response: data.response,
+      model: data.model,
+      createdAt: new Date(data.created_at),
+      expiresAt: new Date(data.expires_at),
+    }
+  }
+
+  async set(key: string, response: string, model: string, ttlMs: number): Promise<void> {
+    const now = new Date()
+
+    const { error } = await this.supabase.from('llm_cache').upsert(
+      {
+        prompt_hash: key,
+        response,
+        model,
+        created_at: now.toISOString(),
+        expires_at: new Date(now.getTime() + ttlMs).toISOString(),
+      },
+      { onConflict: 'prompt_hash' }
+    )
+
+    if (error) {
+      console.error('Failed to save LLM cache:', error.message)
+    }
+  }
+
+  async delete(key: string): Promise<boolean> {
+    const { count, error } = await this.supabase
+      .from('llm_cache')
+      .delete({ count: 'exact' })
+      .eq('prompt_hash', key)
+
+    if (error) {
+      throw new Error(`Failed to delete cache entry: ${error.message}`)
+    }
+
+    return (count || 0) > 0
+  }
+
+  async clear(): Promise<number> {
+    const { count, error } = await this.supabase
+      .from('llm_cache')
+      .delete({ count: 'exact' })
+      .not('prompt_hash', 'is', null)
+
+    if (error) {
+      throw new Error(`Failed to clear cache: ${error.message}`)
+    }
+
+    return count || 0
+  }
+}
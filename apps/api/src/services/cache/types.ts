@@ -0,0 +1,38 @@
+import type { DocType } from '@shuguridan/shared'
+
+export interface CacheEntry {
+  key: string // 프롬프트 해시
+  response: string
+  model: string
+  createdAt: Date
+  expiresAt: Date
+}
+
+/**
+ * LLM 응답 캐시 인터페이스
+ * 만료된 항목은 get에서 null로 취급
+ */
+export interface ResponseCache {
+  name: string
+  get(key: string): Promise<CacheEntry | null>
+  set(key: string, response: string, model: string, ttlMs: number): Promise<void>
+  delete(key: string): Promise<boolean>
+  clear(): Promise<number> // 삭제된 항목 수
+}
+
+export interface ResponseCacheConfig {
+  provider: 'supabase' | 'memory' | 'file' | 'none'
+  maxEntries?: number // memory
+  directory?: string // file
+}
+
+/**
+ * 캐시 사용 방식
+ * - use: 캐시 조회 후 없으면 생성하여 저장 (기본)
+ * - bypass: 캐시를 읽지도 쓰지도 않음
+ * - invalidate: 기존 항목을 삭제하고 새로 생성하여 저장 (프롬프트 변경 후 강제 재생성)
+ */
+export type CacheMode = 'use' | 'bypass' | 'invalidate'
+
+// 코드 현대화 요청은 문서 타입과 별도로 TTL을 관리
+export type CacheDocType = DocType | 'code_modernization'
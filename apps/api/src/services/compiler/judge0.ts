@@ -1,4 +1,4 @@
-import type { CppVersionId } from '@shuguridan/shared'
+import { SUPPORTED_VERSIONS, compareVersions, type CppVersionId } from '@shuguridan/shared'
 import {
   type CompilerProvider,
   type CompileRequest,
@@ -54,9 +54,14 @@ const STATUS = {
   EXEC_FORMAT_ERROR: 14,
 } as const
 
+// Judge0 GCC에서 사용할 수 있는 가장 최신 표준 (이후 버전은 -std 플래그를 인식하지 못함)
+const JUDGE0_NEWEST_STANDARD: CppVersionId = 'cpp23'
+
 export class Judge0Provider implements CompilerProvider {
   name = 'judge0'
-  supportedStandards: CppVersionId[] = ['cpp11', 'cpp14', 'cpp17', 'cpp20', 'cpp23']
+  supportedStandards: CppVersionId[] = SUPPORTED_VERSIONS.filter(
+    (id) => compareVersions(id, JUDGE0_NEWEST_STANDARD) <= 0
+  )
 
   private apiKey: string
   private baseUrl: string
@@ -1,16 +1,9 @@
-import type { CppVersionId } from '@shuguridan/shared'
+import { CPP_VERSION_IDS, CPP_VERSIONS, type CppVersionId } from '@shuguridan/shared'
 
-// C++ Standard to compiler flag mapping
-export const CPP_STANDARD_FLAGS: Record<CppVersionId, string> = {
-  cpp98: '-std=c++98',
-  cpp03: '-std=c++03',
-  cpp11: '-std=c++11',
-  cpp14: '-std=c++14',
-  cpp17: '-std=c++17',
-  cpp20: '-std=c++20',
-  cpp23: '-std=c++23',
-  cpp26: '-std=c++2c', // c++26 uses c++2c in older compilers
-}
+// C++ Standard to compiler flag mapping (레지스트리의 stdFlag)
+export const CPP_STANDARD_FLAGS = Object.fromEntries(
+  CPP_VERSION_IDS.map((id) => [id, CPP_VERSIONS[id].stdFlag])
+) as Record<CppVersionId, string>
 
 // Judge0 Language IDs for C++
 export const JUDGE0_LANGUAGE_IDS = {
@@ -1,4 +1,4 @@
-import type { CppVersionId } from '@shuguridan/shared'
+import { CPP_VERSION_IDS, type CppVersionId } from '@shuguridan/shared'
 import type {
   CompilerProvider,
   CompileRequest,
@@ -63,16 +63,7 @@ const WANDBOX_API_URL = 'https://wandbox.org/api/compile.json'
  */
 export class WandboxProvider implements CompilerProvider {
   name = 'wandbox'
-  supportedStandards: CppVersionId[] = [
-    'cpp98',
-    'cpp03',
-    'cpp11',
-    'cpp14',
-    'cpp17',
-    'cpp20',
-    'cpp23',
-    'cpp26',
-  ]
+  supportedStandards: CppVersionId[] = [...CPP_VERSION_IDS]
 
   private timeout: number
 
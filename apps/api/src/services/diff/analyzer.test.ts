@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest'
+import { analyzeDiff, DiffPathError, getUpgradePath } from './analyzer.js'
+
+// data/diffs 기준: cpp17-cpp20, cpp20-cpp23, cpp23-cpp26
+describe('getUpgradePath', () => {
+  it('chains adjacent pairs up to the target', async () => {
+    expect(await getUpgradePath('cpp17', 'cpp23')).toEqual([
+      ['cpp17', 'cpp20'],
+      ['cpp20', 'cpp23'],
+    ])
+  })
+
+  it('returns an empty path when a pair is missing or the order is wrong', async () => {
+    expect(await getUpgradePath('cpp11', 'cpp20')).toEqual([])
+    expect(await getUpgradePath('cpp20', 'cpp17')).toEqual([])
+  })
+})
+
+describe('analyzeDiff', () => {
+  it('reports the pairs without diff data', async () => {
+    const error = await analyzeDiff({ sourceVersion: 'cpp11', targetVersion: 'cpp20' }).catch((e) => e)
+
+    expect(error).toBeInstanceOf(DiffPathError)
+    expect(error.missingPairs).toEqual([
+      ['cpp11', 'cpp14'],
+      ['cpp14', 'cpp17'],
+    ])
+    expect(error.message).toContain('missing diff data: cpp11-cpp14, cpp14-cpp17')
+  })
+
+  it('reports missing pairs for downgrades too', async () => {
+    const error = await analyzeDiff({ sourceVersion: 'cpp17', targetVersion: 'cpp14' }).catch((e) => e)
+
+    expect(error).toBeInstanceOf(DiffPathError)
+    expect(error.message).toMatch(/^No downgrade path found from cpp17 to cpp14/)
+    expect(error.missingPairs).toEqual([['cpp14', 'cpp17']])
+  })
+})
+
+describe('analyzeDiff (downgrade)', () => {
+  it('inverts the upgrade categories into backport categories', async () => {
+    const upgrade = await analyzeDiff({ sourceVersion: 'cpp17', targetVersion: 'cpp20' })
+    const downgrade = await analyzeDiff({ sourceVersion: 'cpp20', targetVersion: 'cpp17' })
+
+    expect(downgrade.direction).toBe('downgrade')
+    expect(downgrade.diff).toEqual(upgrade.diff)
+    expect(downgrade.backport).toEqual({
+      unavailable: upgrade.diff.newFeatures,
+      unavailableLibrary: upgrade.diff.libraryChanges,
+      revertedBehavior: upgrade.diff.behaviorChanges,
+      undeprecated: upgrade.diff.deprecated,
+      restored: upgrade.diff.removed,
+    })
+    expect(downgrade.totalChanges).toBe(upgrade.totalChanges)
+  })
+
+  it('summarizes items that must be replaced first', async () => {
+    const { backport, summary, totalChanges } = await analyzeDiff({ sourceVersion: 'cpp20', targetVersion: 'cpp17' })
+    const { unavailable, unavailableLibrary } = backport!
+
+    expect(summary).toMatch(
+      new RegExp(
+        `^Backporting from C\\+\\+20 to C\\+\\+17: ${totalChanges} total changes including ` +
+          `${unavailable.length + unavailableLibrary.length} features unavailable and must be replaced ` +
+          `\\(${unavailable.length} language, ${unavailableLibrary.length} library\\)`
+      )
+    )
+    expect(summary).not.toContain('Upgrading')
+  })
+
+  it('applies the category filter before inverting', async () => {
+    const result = await analyzeDiff({ sourceVersion: 'cpp20', targetVersion: 'cpp17', categories: ['deprecated'] })
+    const { unavailable, undeprecated } = result.backport!
+
+    expect(unavailable).toEqual([])
+    expect(result.totalChanges).toBe(undeprecated.length)
+    expect(result.summary).toBe(
+      `Backporting from C++20 to C++17: ${undeprecated.length} total changes including ` +
+        `${undeprecated.length} deprecated items usable without warnings.`
+    )
+  })
+})
@@ -1,12 +1,26 @@
-import { readFile } from 'fs/promises'
+import { readFile, readdir } from 'fs/promises'
 import { join, dirname } from 'path'
 import { fileURLToPath } from 'url'
-import type { CppVersionId, DiffCategory, DiffItem } from '@shuguridan/shared'
+import {
+  CPP_VERSION_IDS,
+  compareVersions,
+  getVersionName,
+  isCppVersionId,
+  type BackportCategory,
+  type CppVersionId,
+  type DiffCategory,
+  type DiffDirection,
+} from '@shuguridan/shared'
+import { validateDiffData } from './schema.js'
 import type { DiffAnalysisRequest, DiffAnalysisResult, StoredDiffData } from './types.js'
 
 const __filename = fileURLToPath(import.meta.url)
 const __dirname = dirname(__filename)
 
+const DIFF_DATA_DIR = join(__dirname, '..', '..', '..', '..', '..', 'data', 'diffs')
+// data/diffs/<source>-<target>.json (초안 *.draft.json, 스키마 파일은 제외)
+const DIFF_FILE_PATTERN = /^(cpp\d{2})-(cpp\d{2})\.json$/
+
 // Cache for loaded diff data
 const diffDataCache = new Map<string, StoredDiffData>()
 
@@ -14,57 +28,105 @@ function getDiffKey(source: CppVersionId, target: CppVersionId): string {
   return `${source}-${target}`
 }
 
-async function loadDiffData(source: CppVersionId, target: CppVersionId): Promise<StoredDiffData | null> {
+/**
+ * Diff 데이터 로드 + 스키마 검증
+ * 파일이 없으면 null, 파일이 있는데 형식이 잘못되었으면 에러 (조용히 빈 결과를 내지 않도록)
+ */
+export async function loadDiffData(source: CppVersionId, target: CppVersionId): Promise<StoredDiffData | null> {
   const key = getDiffKey(source, target)
 
   if (diffDataCache.has(key)) {
     return diffDataCache.get(key)!
   }
 
-  const filePath = join(__dirname, '..', '..', '..', '..', '..', 'data', 'diffs', `${key}.json`)
-
+  let content: string
   try {
-    const content = await readFile(filePath, 'utf-8')
-    const data = JSON.parse(content) as StoredDiffData
-    diffDataCache.set(key, data)
-    return data
+    content = await readFile(join(DIFF_DATA_DIR, `${key}.json`), 'utf-8')
   } catch {
     return null
   }
+
+  let json: unknown
+  try {
+    json = JSON.parse(content)
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    throw new Error(`Invalid diff data in ${key}.json: ${message}`)
+  }
+
+  const data = validateDiffData(json, `${key}.json`, key)
+  diffDataCache.set(key, data)
+  return data
 }
 
-// Get all supported version pairs
-function getVersionPairs(): Array<[CppVersionId, CppVersionId]> {
-  return [
-    ['cpp11', 'cpp14'],
-    ['cpp14', 'cpp17'],
-    // Future: ['cpp17', 'cpp20'], ['cpp20', 'cpp23']
-  ]
+// Get all supported version pairs (data/diffs에 있는 파일 기준)
+async function getVersionPairs(): Promise<Array<[CppVersionId, CppVersionId]>> {
+  let files: string[]
+  try {
+    files = await readdir(DIFF_DATA_DIR)
+  } catch {
+    return []
+  }
+
+  return files
+    .map((file) => file.match(DIFF_FILE_PATTERN))
+    .filter((match): match is RegExpMatchArray => match !== null)
+    .filter((match) => isCppVersionId(match[1]) && isCppVersionId(match[2]))
+    .map((match) => [match[1], match[2]] as [CppVersionId, CppVersionId])
+    .sort(([a], [b]) => compareVersions(a, b))
 }
 
-// Build a path of upgrades between versions
-function getUpgradePath(source: CppVersionId, target: CppVersionId): Array<[CppVersionId, CppVersionId]> {
-  const versionOrder: CppVersionId[] = ['cpp98', 'cpp03', 'cpp11', 'cpp14', 'cpp17', 'cpp20', 'cpp23']
+/**
+ * 두 버전 사이에 diff 데이터가 없어 경로를 만들 수 없는 경우
+ * missingPairs: 데이터 파일이 없는 인접 버전 쌍 (예: [['cpp11', 'cpp14']])
+ */
+export class DiffPathError extends Error {
+  constructor(
+    message: string,
+    public missingPairs: Array<[CppVersionId, CppVersionId]>
+  ) {
+    super(message)
+    this.name = 'DiffPathError'
+  }
+}
 
-  const sourceIndex = versionOrder.indexOf(source)
-  const targetIndex = versionOrder.indexOf(target)
+/**
+ * older → newer 구간에서 data/diffs에 파일이 없는 인접 버전 쌍
+ * (여러 버전을 건너뛰는 파일이 덮는 구간은 제외)
+ */
+async function getMissingPairs(older: CppVersionId, newer: CppVersionId): Promise<Array<[CppVersionId, CppVersionId]>> {
+  const pairs = await getVersionPairs()
+  const chain = CPP_VERSION_IDS.filter((id) => compareVersions(id, older) >= 0 && compareVersions(id, newer) <= 0)
+
+  const missing: Array<[CppVersionId, CppVersionId]> = []
+  for (let i = 0; i + 1 < chain.length; i++) {
+    const [from, to] = [chain[i], chain[i + 1]]
+    const covered = pairs.some(([s, t]) =>
+      compareVersions(s, from) <= 0 && compareVersions(t, to) >= 0 &&
+      compareVersions(s, older) >= 0 && compareVersions(t, newer) <= 0
+    )
+    if (!covered) missing.push([from, to])
+  }
+  return missing
+}
 
-  if (sourceIndex === -1 || targetIndex === -1 || sourceIndex >= targetIndex) {
+// Build a path of upgrades between versions (끝까지 연결되지 않으면 빈 배열)
+export async function getUpgradePath(source: CppVersionId, target: CppVersionId): Promise<Array<[CppVersionId, CppVersionId]>> {
+  if (compareVersions(source, target) >= 0) {
     return []
   }
 
-  const pairs = getVersionPairs()
+  const pairs = await getVersionPairs()
   const path: Array<[CppVersionId, CppVersionId]> = []
 
   let current = source
   while (current !== target) {
-    const nextPair = pairs.find(([s]) => s === current)
-    if (!nextPair) break
+    // 타겟을 넘어가는 쌍은 사용하지 않음
+    const nextPair = pairs.find(([s, t]) => s === current && compareVersions(t, target) <= 0)
+    if (!nextPair) return []
 
     path.push(nextPair)
     current = nextPair[1]
-
-    if (current === target) break
   }
 
   return path
@@ -133,20 +195,71 @@ function generateSummary(source: CppVersionId, target: CppVersionId, diff: DiffC
     parts.push(`${diff.libraryChanges.length} library changes`)
   }
 
-  const sourceLabel = source.replace('cpp', 'C++')
-  const targetLabel = target.replace('cpp', 'C++')
+  return `Upgrading from ${getVersionName(source)} to ${getVersionName(target)}: ${total} total changes including ${parts.join(', ')}.`
+}
+
+/**
+ * 업그레이드 diff를 백포트 관점으로 뒤집기
+ * 새 기능은 "사용 불가", 제거된 항목은 "복원", 비권장은 "비권장 아님"이 됨
+ */
+function invertDiff(diff: DiffCategory): BackportCategory {
+  return {
+    unavailable: diff.newFeatures,
+    unavailableLibrary: diff.libraryChanges,
+    revertedBehavior: diff.behaviorChanges,
+    undeprecated: diff.deprecated,
+    restored: diff.removed,
+  }
+}
+
+function generateBackportSummary(source: CppVersionId, target: CppVersionId, backport: BackportCategory): string {
+  const total =
+    backport.unavailable.length +
+    backport.unavailableLibrary.length +
+    backport.revertedBehavior.length +
+    backport.undeprecated.length +
+    backport.restored.length
+
+  const parts: string[] = []
 
-  return `Upgrading from ${sourceLabel} to ${targetLabel}: ${total} total changes including ${parts.join(', ')}.`
+  // 코드를 고쳐야 하는 항목이 먼저
+  const mustReplace = backport.unavailable.length + backport.unavailableLibrary.length
+  if (mustReplace > 0) {
+    parts.push(`${mustReplace} features unavailable and must be replaced (${backport.unavailable.length} language, ${backport.unavailableLibrary.length} library)`)
+  }
+  if (backport.revertedBehavior.length > 0) {
+    // 컴파일은 되지만 실행 결과가 달라질 수 있는 항목
+    const silent = backport.revertedBehavior.filter((item) => item.impact !== 'compile-time').length
+    parts.push(`${backport.revertedBehavior.length} behavior changes revert${silent > 0 ? ` (${silent} affect runtime semantics)` : ''}`)
+  }
+  if (backport.restored.length > 0) {
+    parts.push(`${backport.restored.length} removed items available again`)
+  }
+  if (backport.undeprecated.length > 0) {
+    parts.push(`${backport.undeprecated.length} deprecated items usable without warnings`)
+  }
+
+  return `Backporting from ${getVersionName(source)} to ${getVersionName(target)}: ${total} total changes including ${parts.join(', ')}.`
 }
 
 export async function analyzeDiff(request: DiffAnalysisRequest): Promise<DiffAnalysisResult> {
   const { sourceVersion, targetVersion, categories: filterCats } = request
 
+  // 다운그레이드는 반대 방향의 업그레이드 경로를 사용
+  const direction: DiffDirection = compareVersions(sourceVersion, targetVersion) <= 0 ? 'upgrade' : 'downgrade'
+  const [older, newer] = direction === 'upgrade' ? [sourceVersion, targetVersion] : [targetVersion, sourceVersion]
+
   // Get the upgrade path
-  const path = getUpgradePath(sourceVersion, targetVersion)
+  const path = await getUpgradePath(older, newer)
 
   if (path.length === 0) {
-    throw new Error(`No upgrade path found from ${sourceVersion} to ${targetVersion}`)
+    const missingPairs = await getMissingPairs(older, newer)
+    const missing = missingPairs.map(([s, t]) => `${s}-${t}`).join(', ')
+    throw new DiffPathError(
+      `No ${direction} path found from ${sourceVersion} to ${targetVersion}` +
+        (missing ? ` (missing diff data: ${missing})` : ''),
+      missingPairs
+    )
   }
 
   // Load and merge all diff data along the path
@@ -178,15 +291,30 @@ export async function analyzeDiff(request: DiffAnalysisRequest): Promise<DiffAna
     (mergedDiff.removed?.length || 0) +
     mergedDiff.libraryChanges.length
 
+  if (direction === 'downgrade') {
+    const backport = invertDiff(mergedDiff)
+    return {
+      source: sourceVersion,
+      target: targetVersion,
+      direction,
+      diff: mergedDiff,
+      backport,
+      summary: generateBackportSummary(sourceVersion, targetVersion, backport),
+      totalChanges,
+    }
+  }
+
   return {
     source: sourceVersion,
     target: targetVersion,
+    direction,
     diff: mergedDiff,
     summary: generateSummary(sourceVersion, targetVersion, mergedDiff),
     totalChanges,
   }
 }
 
-export function getAvailableDiffPairs(): Array<{ source: CppVersionId; target: CppVersionId }> {
-  return getVersionPairs().map(([source, target]) => ({ source, target }))
+export async function getAvailableDiffPairs(): Promise<Array<{ source: CppVersionId; target: CppVersionId }>> {
+  const pairs = await getVersionPairs()
+  return pairs.map(([source, target]) => ({ source, target }))
 }
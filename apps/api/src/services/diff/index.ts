@@ -1,2 +1,5 @@
 export * from './types.js'
-export { analyzeDiff, getAvailableDiffPairs } from './analyzer.js'
+export { analyzeDiff, getAvailableDiffPairs, getUpgradePath, loadDiffData, DiffPathError } from './analyzer.js'
+export { validateDiffData, diffItemSchema, storedDiffDataSchema, DIFF_CHANGE_TYPES, DIFF_RELATION_TYPES } from './schema.js'
+export { buildDiffSearchIndex, searchDiffItems } from './search.js'
+export { getDiffGraph, getRelationsBetween, queryDiffGraph } from './relations.js'
@@ -0,0 +1,107 @@
+import { describe, expect, it, vi } from 'vitest'
+import type { CppVersionId } from '@shuguridan/shared'
+import { getDiffGraph, queryDiffGraph } from './relations.js'
+
+const files = vi.hoisted(() => new Map<string, unknown>())
+
+// data/diffs 대신 작은 관계 그래프 사용
+// ranges → concepts → cpp17:if-constexpr (requires), ranges — span (related)
+vi.mock('./analyzer.js', () => ({
+  getAvailableDiffPairs: async () =>
+    [...files.keys()].map((pair) => {
+      const [source, target] = pair.split('-') as [CppVersionId, CppVersionId]
+      return { source, target }
+    }),
+  loadDiffData: async (source: CppVersionId, target: CppVersionId) => files.get(`${source}-${target}`) ?? null,
+}))
+
+function item(id: string, relations: Array<{ type: string; target: string }> = []) {
+  return { id, title: id, description: `${id} description`, category: 'language', impact: 'compile-time', relations }
+}
+
+function diff(sourceVersion: string, targetVersion: string, newFeatures: unknown[]) {
+  return { sourceVersion, targetVersion, newFeatures, behaviorChanges: [], deprecated: [], removed: [], libraryChanges: [] }
+}
+
+files.set('cpp14-cpp17', diff('cpp14', 'cpp17', [item('if-constexpr')]))
+files.set('cpp17-cpp20', diff('cpp17', 'cpp20', [
+  item('concepts', [{ type: 'requires', target: 'cpp17:if-constexpr' }]),
+  item('ranges', [
+    { type: 'requires', target: 'concepts' },
+    { type: 'related', target: 'span' },
+  ]),
+  item('span'),
+]))
+
+describe('getDiffGraph', () => {
+  it('resolves local and cross-file relation targets', async () => {
+    const graph = await getDiffGraph()
+
+    expect(graph.nodes).toHaveLength(4)
+    expect(graph.edges).toEqual(expect.arrayContaining([
+      { from: 'cpp20:concepts', to: 'cpp17:if-constexpr', type: 'requires' },
+      { from: 'cpp20:ranges', to: 'cpp20:concepts', type: 'requires' },
+    ]))
+  })
+
+  it('keeps only edges between nodes of the selected versions', async () => {
+    const graph = await getDiffGraph({ versions: ['cpp20'], types: ['requires'] })
+
+    expect(graph.nodes.map((node) => node.key)).not.toContain('cpp17:if-constexpr')
+    expect(graph.edges).toEqual([{ from: 'cpp20:ranges', to: 'cpp20:concepts', type: 'requires' }])
+  })
+
+  it('rejects relations to unknown items in other files', async () => {
+    vi.resetModules()
+    const previous = files.get('cpp17-cpp20')
+    files.set('cpp17-cpp20', diff('cpp17', 'cpp20', [item('concepts', [{ type: 'requires', target: 'cpp17:modules' }])]))
+
+    try {
+      const { getDiffGraph: getFreshGraph } = await import('./relations.js')
+      await expect(getFreshGraph()).rejects.toThrow(
+        'cpp17-cpp20.json newFeatures.0.relations.0.target: unknown item "cpp17:modules" (resolved to cpp17:modules)'
+      )
+    } finally {
+      files.set('cpp17-cpp20', previous)
+    }
+  })
+})
+
+describe('queryDiffGraph', () => {
+  it('returns direct relations by default', async () => {
+    const result = await queryDiffGraph('cpp20', 'ranges')
+
+    expect(result?.nodes.map((node) => [node.key, node.distance])).toEqual([
+      ['cpp20:concepts', 1],
+      ['cpp20:span', 1],
+    ])
+  })
+
+  it('follows relations up to the requested depth', async () => {
+    const result = await queryDiffGraph('cpp20', 'ranges', { types: ['requires'], depth: 2 })
+
+    expect(result?.nodes.map((node) => [node.key, node.distance])).toEqual([
+      ['cpp20:concepts', 1],
+      ['cpp17:if-constexpr', 2],
+    ])
+    expect(result?.edges).toHaveLength(2)
+  })
+
+  it('walks incoming relations for dependents', async () => {
+    const incoming = await queryDiffGraph('cpp17', 'if-constexpr', { direction: 'incoming', depth: 5 })
+    const outgoing = await queryDiffGraph('cpp17', 'if-constexpr', { direction: 'outgoing', depth: 5 })
+
+    expect(incoming?.nodes.map((node) => node.key)).toEqual(['cpp20:concepts', 'cpp20:ranges'])
+    expect(outgoing?.nodes).toEqual([])
+  })
+
+  it('follows both directions', async () => {
+    const result = await queryDiffGraph('cpp20', 'concepts', { direction: 'both' })
+
+    expect(result?.nodes.map((node) => node.key).sort()).toEqual(['cpp17:if-constexpr', 'cpp20:ranges'])
+  })
+
+  it('returns null for an unknown item', async () => {
+    expect(await queryDiffGraph('cpp20', 'modules')).toBeNull()
+  })
+})
@@ -0,0 +1,172 @@
+import { compareVersions, type CppVersionId, type DiffRelationType } from '@shuguridan/shared'
+import { getAvailableDiffPairs, loadDiffData } from './analyzer.js'
+import { DIFF_CHANGE_TYPES, DIFF_RELATION_TARGET_PATTERN } from './schema.js'
+import type {
+  DiffGraph,
+  DiffGraphEdge,
+  DiffGraphNode,
+  DiffGraphQuery,
+  DiffGraphQueryResult,
+} from './types.js'
+
+const DEFAULT_DEPTH = 1
+
+interface IndexedGraph extends DiffGraph {
+  nodesByKey: Map<string, DiffGraphNode>
+}
+
+let graphPromise: Promise<IndexedGraph> | null = null
+
+export function getNodeKey(version: CppVersionId, id: string): string {
+  return `${version}:${id}`
+}
+
+/**
+ * 모든 diff 파일의 관계로 그래프 생성
+ * 다른 파일을 가리키는 관계까지 여기서 검증 (대상이 없으면 에러)
+ */
+async function buildGraph(): Promise<IndexedGraph> {
+  const pairs = await getAvailableDiffPairs()
+  const nodesByKey = new Map<string, DiffGraphNode>()
+  const pending: Array<{ from: DiffGraphNode; type: DiffRelationType; target: string; path: string }> = []
+  const issues: string[] = []
+
+  for (const { source, target } of pairs) {
+    const data = await loadDiffData(source, target)
+    if (!data) continue
+
+    for (const changeType of DIFF_CHANGE_TYPES) {
+      data[changeType].forEach((item, index) => {
+        const key = getNodeKey(target, item.id)
+        const path = `${source}-${target}.json ${changeType}.${index}`
+
+        if (nodesByKey.has(key)) {
+          issues.push(`  - ${path}: item key "${key}" is defined by more than one diff file`)
+          return
+        }
+
+        const node: DiffGraphNode = {
+          key,
+          id: item.id,
+          title: item.title,
+          category: item.category,
+          impact: item.impact,
+          changeType,
+          sourceVersion: source,
+          introducedIn: target,
+        }
+        nodesByKey.set(key, node)
+
+        item.relations?.forEach((relation, relIndex) => {
+          pending.push({ from: node, type: relation.type, target: relation.target, path: `${path}.relations.${relIndex}` })
+        })
+      })
+    }
+  }
+
+  const edges: DiffGraphEdge[] = []
+  for (const { from, type, target, path } of pending) {
+    const [, version, id] = target.match(DIFF_RELATION_TARGET_PATTERN)!
+    const to = getNodeKey((version as CppVersionId | undefined) ?? from.introducedIn, id)
+
+    if (!nodesByKey.has(to)) {
+      issues.push(`  - ${path}.target: unknown item "${target}" (resolved to ${to})`)
+      continue
+    }
+    edges.push({ from: from.key, to, type })
+  }
+
+  if (issues.length > 0) {
+    throw new Error(`Invalid diff relations:\n${issues.join('\n')}`)
+  }
+
+  return { nodes: [...nodesByKey.values()], edges, nodesByKey }
+}
+
+function getGraph(): Promise<IndexedGraph> {
+  if (!graphPromise) {
+    graphPromise = buildGraph().catch((error) => {
+      graphPromise = null
+      throw error
+    })
+  }
+  return graphPromise
+}
+
+/**
+ * 관계 그래프 (versions를 주면 해당 버전에서 도입된 항목 사이의 관계만)
+ */
+export async function getDiffGraph(options: { versions?: CppVersionId[]; types?: DiffRelationType[] } = {}): Promise<DiffGraph> {
+  const graph = await getGraph()
+  const { versions, types } = options
+
+  const nodes = versions?.length
+    ? graph.nodes.filter((node) => versions.includes(node.introducedIn))
+    : graph.nodes
+  const keys = new Set(nodes.map((node) => node.key))
+
+  const edges = graph.edges.filter(
+    (edge) => keys.has(edge.from) && keys.has(edge.to) && (!types?.length || types.includes(edge.type))
+  )
+
+  return { nodes, edges }
+}
+
+/**
+ * 두 버전 사이(older 이후 ~ newer 이하)에 도입된 항목 간 관계 - 마인드맵 교차 엣지용
+ */
+export async function getRelationsBetween(older: CppVersionId, newer: CppVersionId): Promise<DiffGraph> {
+  const graph = await getGraph()
+  const versions = [...new Set(graph.nodes.map((node) => node.introducedIn))].filter(
+    (version) => compareVersions(version, older) > 0 && compareVersions(version, newer) <= 0
+  )
+  return getDiffGraph({ versions })
+}
+
+/**
+ * 한 항목에서 관계를 따라 도달하는 항목 (BFS, depth 단계까지)
+ * 예: requires + outgoing + 깊이 제한 없음 = 이 항목이 의존하는 모든 항목
+ * 항목이 없으면 null
+ */
+export async function queryDiffGraph(version: CppVersionId, id: string, query: DiffGraphQuery = {}): Promise<DiffGraphQueryResult | null> {
+  const graph = await getGraph()
+  const root = graph.nodesByKey.get(getNodeKey(version, id))
+  if (!root) return null
+
+  const direction = query.direction ?? 'outgoing'
+  const depth = query.depth ?? DEFAULT_DEPTH
+  const candidates = graph.edges.filter((edge) => !query.types?.length || query.types.includes(edge.type))
+
+  const distances = new Map<string, number>([[root.key, 0]])
+  const visitedEdges = new Set<DiffGraphEdge>()
+  let frontier = [root.key]
+
+  for (let distance = 1; distance <= depth && frontier.length > 0; distance++) {
+    const next: string[] = []
+
+    for (const key of frontier) {
+      for (const edge of candidates) {
+        const neighbor =
+          (direction !== 'incoming' && edge.from === key) ? edge.to
+          : (direction !== 'outgoing' && edge.to === key) ? edge.from
+          : null
+        if (!neighbor) continue
+
+        visitedEdges.add(edge)
+        if (!distances.has(neighbor)) {
+          distances.set(neighbor, distance)
+          next.push(neighbor)
+        }
+      }
+    }
+
+    frontier = next
+  }
+
+  const nodes = [...distances.entries()]
+    .filter(([key]) => key !== root.key)
+    .map(([key, distance]) => ({ ...graph.nodesByKey.get(key)!, distance }))
+    .sort((a, b) => a.distance - b.distance || compareVersions(a.introducedIn, b.introducedIn))
+
+  return { root, nodes, edges: [...visitedEdges] }
+}
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest'
+import { validateDiffData } from './schema.js'
+
+function item(id: string, relations?: Array<{ type: string; target: string }>) {
+  return { id, title: id, description: `${id} description`, category: 'language', impact: 'compile-time', relations }
+}
+
+function diff(overrides: Record<string, unknown> = {}) {
+  return { sourceVersion: 'cpp17', targetVersion: 'cpp20', newFeatures: [item('concepts'), item('ranges')], ...overrides }
+}
+
+describe('validateDiffData', () => {
+  it('fills omitted categories and drops unknown keys', () => {
+    const data = validateDiffData({ $schema: './diff.schema.json', ...diff() }, 'test.json', 'cpp17-cpp20')
+
+    expect(data.removed).toEqual([])
+    expect(data.newFeatures.map((i) => i.id)).toEqual(['concepts', 'ranges'])
+    expect(data).not.toHaveProperty('$schema')
+  })
+
+  it('rejects invalid items with their path', () => {
+    expect(() => validateDiffData(diff({ newFeatures: [item('Not Kebab')] }), 'test.json')).toThrow(
+      'newFeatures.0.id: id must be kebab-case'
+    )
+  })
+
+  it('rejects a version pair that does not match the file name', () => {
+    expect(() => validateDiffData(diff(), 'cpp20-cpp23.json', 'cpp20-cpp23')).toThrow('does not match file name')
+  })
+
+  it('rejects duplicate ids across categories', () => {
+    const data = diff({ behaviorChanges: [item('concepts')] })
+    expect(() => validateDiffData(data, 'test.json')).toThrow('duplicate id "concepts" (also in newFeatures.0)')
+  })
+
+  it('checks relations within the same file', () => {
+    const selfRelation = diff({ newFeatures: [item('concepts', [{ type: 'related', target: 'concepts' }])] })
+    const unknown = diff({ newFeatures: [item('concepts', [{ type: 'requires', target: 'cpp20:modules' }])] })
+    const duplicate = diff({
+      newFeatures: [
+        item('concepts', [
+          { type: 'related', target: 'ranges' },
+          { type: 'related', target: 'cpp20:ranges' },
+        ]),
+        item('ranges'),
+      ],
+    })
+
+    expect(() => validateDiffData(selfRelation, 'test.json')).toThrow('cannot relate to itself')
+    expect(() => validateDiffData(unknown, 'test.json')).toThrow('unknown item "modules"')
+    expect(() => validateDiffData(duplicate, 'test.json')).toThrow('duplicate related relation')
+  })
+
+  it('leaves relations to other files to the graph builder', () => {
+    const data = diff({ newFeatures: [item('concepts', [{ type: 'requires', target: 'cpp17:if-constexpr' }])] })
+    expect(() => validateDiffData(data, 'test.json')).not.toThrow()
+  })
+})
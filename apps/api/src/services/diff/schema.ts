@@ -0,0 +1,110 @@
+import { z } from 'zod'
+import { cppVersionIdSchema } from '@shuguridan/shared/schemas'
+import type { StoredDiffData } from './types.js'
+
+// data/diffs/diff.schema.json과 같은 규칙 (에디터 자동완성은 JSON Schema, 로드 시 검증은 이 스키마)
+const codeExampleSchema = z.object({
+  before: z.string(),
+  after: z.string(),
+  explanation: z.string().min(1),
+})
+
+export const DIFF_RELATION_TYPES = ['requires', 'supersedes', 'deprecates', 'related', 'replacement-for'] as const
+
+// "<id>" (같은 파일) 또는 "<version>:<id>" (해당 표준에서 도입된 항목)
+export const DIFF_RELATION_TARGET_PATTERN = /^(?:(cpp\d{2}):)?([a-z0-9]+(?:-[a-z0-9]+)*)$/
+
+const diffItemRelationSchema = z.object({
+  type: z.enum(DIFF_RELATION_TYPES),
+  target: z.string().regex(DIFF_RELATION_TARGET_PATTERN, 'target must be "<id>" or "<version>:<id>"'),
+})
+
+export const diffItemSchema = z.object({
+  id: z.string().regex(/^[a-z0-9]+(-[a-z0-9]+)*$/, 'id must be kebab-case'),
+  title: z.string().min(1),
+  description: z.string().min(1),
+  category: z.enum(['language', 'library', 'compiler']),
+  impact: z.enum(['compile-time', 'runtime', 'ub', 'memory-model']),
+  examples: z.array(codeExampleSchema).optional(),
+  references: z.array(z.string().url()).optional(),
+  relations: z.array(diffItemRelationSchema).optional(),
+})
+
+// 빈 카테고리는 생략 가능, 알 수 없는 키($schema 등)는 zod 기본 동작으로 제거됨
+export const storedDiffDataSchema = z.object({
+  sourceVersion: cppVersionIdSchema,
+  targetVersion: cppVersionIdSchema,
+  newFeatures: z.array(diffItemSchema).default([]),
+  behaviorChanges: z.array(diffItemSchema).default([]),
+  deprecated: z.array(diffItemSchema).default([]),
+  removed: z.array(diffItemSchema).default([]),
+  libraryChanges: z.array(diffItemSchema).default([]),
+})
+
+// 변경 유형 (파일 내 순서 = 검색/정렬 순서)
+export const DIFF_CHANGE_TYPES = ['newFeatures', 'behaviorChanges', 'deprecated', 'removed', 'libraryChanges'] as const
+
+/**
+ * Diff 데이터 검증 (스키마 + 파일명과 버전 일치 + 파일 내 id 중복 + 파일 내 관계 대상)
+ * 다른 파일을 가리키는 관계는 전체 그래프를 만들 때 검증 (relations.ts)
+ * 문제가 있으면 모든 이슈를 모아 Error로 던짐
+ * @param source 에러 메시지용 출처 (예: "cpp17-cpp20.json")
+ * @param expectedKey 파일명 기준 버전 쌍 (예: "cpp17-cpp20")
+ */
+export function validateDiffData(data: unknown, source: string, expectedKey?: string): StoredDiffData {
+  const parsed = storedDiffDataSchema.safeParse(data)
+
+  if (!parsed.success) {
+    const issues = parsed.error.errors.map((issue) => `  - ${issue.path.join('.') || '(root)'}: ${issue.message}`)
+    throw new Error(`Invalid diff data in ${source}:\n${issues.join('\n')}`)
+  }
+
+  const diff = parsed.data
+  const issues: string[] = []
+
+  const key = `${diff.sourceVersion}-${diff.targetVersion}`
+  if (expectedKey && key !== expectedKey) {
+    issues.push(`  - sourceVersion/targetVersion: ${key} does not match file name ${expectedKey}`)
+  }
+
+  const seen = new Map<string, string>()
+  for (const category of DIFF_CHANGE_TYPES) {
+    diff[category].forEach((item, index) => {
+      const previous = seen.get(item.id)
+      if (previous) {
+        issues.push(`  - ${category}.${index}.id: duplicate id "${item.id}" (also in ${previous})`)
+      } else {
+        seen.set(item.id, `${category}.${index}`)
+      }
+    })
+  }
+
+  for (const category of DIFF_CHANGE_TYPES) {
+    diff[category].forEach((item, index) => {
+      const targets = new Set<string>()
+      item.relations?.forEach((relation, relIndex) => {
+        const path = `${category}.${index}.relations.${relIndex}`
+        const [, version, id] = relation.target.match(DIFF_RELATION_TARGET_PATTERN)!
+        const local = !version || version === diff.targetVersion
+
+        if (local && id === item.id) {
+          issues.push(`  - ${path}.target: item "${item.id}" cannot relate to itself`)
+        } else if (local && !seen.has(id)) {
+          issues.push(`  - ${path}.target: unknown item "${id}"`)
+        }
+
+        const key = `${relation.type}:${local ? id : relation.target}`
+        if (targets.has(key)) {
+          issues.push(`  - ${path}: duplicate ${relation.type} relation to "${relation.target}"`)
+        }
+        targets.add(key)
+      })
+    })
+  }
+
+  if (issues.length > 0) {
+    throw new Error(`Invalid diff data in ${source}:\n${issues.join('\n')}`)
+  }
+
+  return diff
+}
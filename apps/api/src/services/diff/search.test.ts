@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest'
+import { searchDiffItems } from './search.js'
+
+// data/diffs의 실제 항목으로 검색
+describe('searchDiffItems', () => {
+  it('ranks title matches first and highlights the matched words', async () => {
+    const { hits } = await searchDiffItems({ query: 'std::format' })
+    const [top] = hits
+
+    expect(top.item.id).toBe('std-format')
+    expect(top.introducedIn).toBe('cpp20')
+
+    const title = top.highlights.find((highlight) => highlight.field === 'title')!
+    const [start, end] = title.ranges[0]
+    expect(title.text.slice(start, end).toLowerCase()).toBe('format')
+  })
+
+  it('returns nothing for queries made only of stopwords or symbols', async () => {
+    for (const query of ['std', 'std::', 'the C++']) {
+      const result = await searchDiffItems({ query })
+      expect(result.total).toBe(0)
+      expect(result.hits).toEqual([])
+    }
+  })
+
+  it('lists items by version when only facets are given', async () => {
+    const { hits, total } = await searchDiffItems({ versions: ['cpp23'], limit: 5 })
+
+    expect(total).toBeGreaterThan(0)
+    expect(hits.every((hit) => hit.introducedIn === 'cpp23')).toBe(true)
+  })
+
+  it('counts each facet without its own filter', async () => {
+    const { hits, facets } = await searchDiffItems({ query: 'std::format', versions: ['cpp20'] })
+
+    expect(hits.every((hit) => hit.introducedIn === 'cpp20')).toBe(true)
+    // 버전 패싯은 버전 필터 없이 센 값 (std::print는 C++23)
+    expect(Object.keys(facets.version)).toEqual(expect.arrayContaining(['cpp20', 'cpp23']))
+    expect(Object.keys(facets.category)).toEqual(['library'])
+  })
+
+  it('pages through results', async () => {
+    const all = await searchDiffItems({ versions: ['cpp23'], limit: 100 })
+    const page = await searchDiffItems({ versions: ['cpp23'], limit: 2, offset: 2 })
+
+    expect(page.total).toBe(all.total)
+    expect(page.hits.map((hit) => hit.item.id)).toEqual(all.hits.slice(2, 4).map((hit) => hit.item.id))
+  })
+})
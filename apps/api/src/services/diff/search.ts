@@ -0,0 +1,294 @@
+import { compareVersions, type CppVersionId, type DiffItem } from '@shuguridan/shared'
+import { tokenize, WORD_PATTERN } from '../../lib/text.js'
+import { getAvailableDiffPairs, loadDiffData } from './analyzer.js'
+import { DIFF_CHANGE_TYPES } from './schema.js'
+import type {
+  DiffChangeType,
+  DiffSearchFacets,
+  DiffSearchField,
+  DiffSearchHighlight,
+  DiffSearchHit,
+  DiffSearchRequest,
+  DiffSearchResult,
+} from './types.js'
+
+const SEARCH_FIELDS: DiffSearchField[] = ['title', 'description', 'examples', 'references']
+
+// 필드별 가중치 (제목 일치가 가장 강한 신호)
+const FIELD_WEIGHTS: Record<DiffSearchField, number> = {
+  title: 3.0,
+  description: 1.0,
+  examples: 0.5,
+  references: 0.7,
+}
+
+// BM25 파라미터
+const BM25_K1 = 1.2
+const BM25_B = 0.75
+
+const DEFAULT_LIMIT = 20
+// 긴 필드 스니펫: 첫 일치 위치 앞뒤로 잘라냄
+const SNIPPET_LENGTH = 160
+const SNIPPET_LEAD = 40
+
+// 거의 모든 항목에 등장해 순위에 도움이 안 되는 토큰 (std:: 접두사, 참고 URL 경로)
+const STOPWORDS = new Set([
+  'std', 'cpp', 'c', 'a', 'an', 'and', 'the', 'of', 'in', 'to', 'for',
+  'https', 'http', 'en', 'cppreference', 'com', 'w', 'html',
+])
+
+function searchTokens(text: string): string[] {
+  return tokenize(text).filter((token) => !STOPWORDS.has(token))
+}
+
+interface IndexedItem {
+  item: DiffItem
+  changeType: DiffChangeType
+  sourceVersion: CppVersionId
+  introducedIn: CppVersionId
+  fields: Record<DiffSearchField, string>
+  termFreqs: Record<DiffSearchField, Map<string, number>>
+  lengths: Record<DiffSearchField, number>
+}
+
+interface DiffSearchIndex {
+  items: IndexedItem[]
+  documentFreqs: Map<string, number>
+  avgLengths: Record<DiffSearchField, number>
+}
+
+let indexPromise: Promise<DiffSearchIndex> | null = null
+
+function getFieldText(item: DiffItem, field: DiffSearchField): string {
+  switch (field) {
+    case 'title':
+      return item.title
+    case 'description':
+      return item.description
+    case 'examples':
+      return (item.examples ?? []).map((ex) => [ex.explanation, ex.before, ex.after].join('\n')).join('\n')
+    case 'references':
+      return (item.references ?? []).join('\n')
+  }
+}
+
+function countTerms(tokens: string[]): Map<string, number> {
+  const counts = new Map<string, number>()
+  for (const token of tokens) {
+    counts.set(token, (counts.get(token) ?? 0) + 1)
+  }
+  return counts
+}
+
+function indexItem(item: DiffItem, changeType: DiffChangeType, sourceVersion: CppVersionId, introducedIn: CppVersionId): IndexedItem {
+  const fields = {} as Record<DiffSearchField, string>
+  const termFreqs = {} as Record<DiffSearchField, Map<string, number>>
+  const lengths = {} as Record<DiffSearchField, number>
+
+  for (const field of SEARCH_FIELDS) {
+    const text = getFieldText(item, field)
+    const tokens = searchTokens(text)
+    fields[field] = text
+    termFreqs[field] = countTerms(tokens)
+    lengths[field] = tokens.length
+  }
+
+  return { item, changeType, sourceVersion, introducedIn, fields, termFreqs, lengths }
+}
+
+/**
+ * data/diffs의 모든 쌍을 읽어 검색 인덱스 생성
+ * 각 항목의 도입 버전은 해당 쌍의 타겟 버전
+ */
+async function buildIndex(): Promise<DiffSearchIndex> {
+  const pairs = await getAvailableDiffPairs()
+  const items: IndexedItem[] = []
+
+  for (const { source, target } of pairs) {
+    const data = await loadDiffData(source, target)
+    if (!data) continue
+
+    for (const changeType of DIFF_CHANGE_TYPES) {
+      for (const item of data[changeType]) {
+        items.push(indexItem(item, changeType, source, target))
+      }
+    }
+  }
+
+  const documentFreqs = new Map<string, number>()
+  for (const indexed of items) {
+    const terms = new Set(SEARCH_FIELDS.flatMap((field) => [...indexed.termFreqs[field].keys()]))
+    for (const term of terms) {
+      documentFreqs.set(term, (documentFreqs.get(term) ?? 0) + 1)
+    }
+  }
+
+  const avgLengths = {} as Record<DiffSearchField, number>
+  for (const field of SEARCH_FIELDS) {
+    const total = items.reduce((sum, indexed) => sum + indexed.lengths[field], 0)
+    avgLengths[field] = items.length > 0 ? Math.max(total / items.length, 1) : 1
+  }
+
+  return { items, documentFreqs, avgLengths }
+}
+
+function getIndex(): Promise<DiffSearchIndex> {
+  if (!indexPromise) {
+    indexPromise = buildIndex().catch((error) => {
+      // 실패한 빌드는 캐시하지 않음 (다음 요청에서 재시도)
+      indexPromise = null
+      throw error
+    })
+  }
+  return indexPromise
+}
+
+/**
+ * 검색 인덱스 (재)생성 - 서버 시작 시 호출, 인덱싱된 항목 수 반환
+ */
+export async function buildDiffSearchIndex(): Promise<number> {
+  indexPromise = null
+  const index = await getIndex()
+  return index.items.length
+}
+
+/**
+ * 필드 가중 BM25 점수
+ */
+function scoreItem(index: DiffSearchIndex, indexed: IndexedItem, terms: string[]): number {
+  const n = index.items.length
+  let score = 0
+
+  for (const term of terms) {
+    const df = index.documentFreqs.get(term)
+    if (!df) continue
+    const idf = Math.log(1 + (n - df + 0.5) / (df + 0.5))
+
+    for (const field of SEARCH_FIELDS) {
+      const tf = indexed.termFreqs[field].get(term)
+      if (!tf) continue
+      const lengthNorm = 1 - BM25_B + BM25_B * (indexed.lengths[field] / index.avgLengths[field])
+      score += idf * FIELD_WEIGHTS[field] * ((tf * (BM25_K1 + 1)) / (tf + BM25_K1 * lengthNorm))
+    }
+  }
+
+  return score
+}
+
+/**
+ * 원문에서 질의 용어와 일치하는 단어 구간
+ */
+function findMatches(text: string, terms: Set<string>): Array<[number, number]> {
+  const ranges: Array<[number, number]> = []
+  for (const match of text.matchAll(WORD_PATTERN)) {
+    if (terms.has(match[0].toLowerCase())) {
+      ranges.push([match.index!, match.index! + match[0].length])
+    }
+  }
+  return ranges
+}
+
+function buildHighlight(field: DiffSearchField, text: string, terms: Set<string>): DiffSearchHighlight | null {
+  const ranges = findMatches(text, terms)
+  if (ranges.length === 0) return null
+
+  if (text.length <= SNIPPET_LENGTH) {
+    return { field, text, ranges }
+  }
+
+  // 첫 일치 위치 주변만 잘라내고 구간을 스니펫 기준으로 옮김
+  const start = Math.max(0, ranges[0][0] - SNIPPET_LEAD)
+  const end = Math.min(text.length, start + SNIPPET_LENGTH)
+  const prefix = start > 0 ? '…' : ''
+  const suffix = end < text.length ? '…' : ''
+  const offset = prefix.length - start
+
+  return {
+    field,
+    text: `${prefix}${text.slice(start, end)}${suffix}`,
+    ranges: ranges
+      .filter(([s, e]) => s >= start && e <= end)
+      .map(([s, e]) => [s + offset, e + offset] as [number, number]),
+  }
+}
+
+type FacetKey = keyof DiffSearchFacets
+
+function matchesFacets(hit: IndexedItem, request: DiffSearchRequest, skip?: FacetKey): boolean {
+  if (skip !== 'category' && request.categories?.length && !request.categories.includes(hit.item.category)) {
+    return false
+  }
+  if (skip !== 'impact' && request.impacts?.length && !request.impacts.includes(hit.item.impact)) {
+    return false
+  }
+  if (skip !== 'version' && request.versions?.length && !request.versions.includes(hit.introducedIn)) {
+    return false
+  }
+  return true
+}
+
+/**
+ * 패싯별 개수 (각 패싯은 나머지 패싯 필터만 적용한 결과 기준)
+ */
+function countFacets(matched: IndexedItem[], request: DiffSearchRequest): DiffSearchFacets {
+  const facets: DiffSearchFacets = { category: {}, impact: {}, version: {} }
+
+  for (const hit of matched) {
+    if (matchesFacets(hit, request, 'category')) {
+      facets.category[hit.item.category] = (facets.category[hit.item.category] ?? 0) + 1
+    }
+    if (matchesFacets(hit, request, 'impact')) {
+      facets.impact[hit.item.impact] = (facets.impact[hit.item.impact] ?? 0) + 1
+    }
+    if (matchesFacets(hit, request, 'version')) {
+      facets.version[hit.introducedIn] = (facets.version[hit.introducedIn] ?? 0) + 1
+    }
+  }
+
+  return facets
+}
+
+/**
+ * 모든 diff 항목 검색 (제목/설명/예제/참고 문서)
+ * 질의가 없으면 패싯 필터만 적용해 버전 순으로 반환
+ */
+export async function searchDiffItems(request: DiffSearchRequest): Promise<DiffSearchResult> {
+  const index = await getIndex()
+  const terms = [...new Set(searchTokens(request.query ?? ''))]
+  const termSet = new Set(terms)
+
+  // 질의가 불용어/기호뿐이면(예: "std", "::") 전체 목록이 아니라 빈 결과
+  if (request.query?.trim() && terms.length === 0) {
+    return { hits: [], total: 0, facets: { category: {}, impact: {}, version: {} } }
+  }
+
+  const scored = index.items
+    .map((indexed) => ({ indexed, score: terms.length > 0 ? scoreItem(index, indexed, terms) : 0 }))
+    .filter(({ score }) => terms.length === 0 || score > 0)
+
+  const facets = countFacets(scored.map(({ indexed }) => indexed), request)
+
+  const filtered = scored
+    .filter(({ indexed }) => matchesFacets(indexed, request))
+    .sort((a, b) =>
+      b.score - a.score ||
+      compareVersions(a.indexed.introducedIn, b.indexed.introducedIn) ||
+      DIFF_CHANGE_TYPES.indexOf(a.indexed.changeType) - DIFF_CHANGE_TYPES.indexOf(b.indexed.changeType)
+    )
+
+  const offset = request.offset ?? 0
+  const limit = request.limit ?? DEFAULT_LIMIT
+
+  const hits: DiffSearchHit[] = filtered.slice(offset, offset + limit).map(({ indexed, score }) => ({
+    item: indexed.item,
+    changeType: indexed.changeType,
+    sourceVersion: indexed.sourceVersion,
+    introducedIn: indexed.introducedIn,
+    score,
+    highlights: SEARCH_FIELDS
+      .map((field) => buildHighlight(field, indexed.fields[field], termSet))
+      .filter((highlight): highlight is DiffSearchHighlight => highlight !== null),
+  }))
+
+  return { hits, total: filtered.length, facets }
+}
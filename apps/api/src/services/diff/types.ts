@@ -1,4 +1,4 @@
-import type { CppVersionId, DiffCategory, DiffItem } from '@shuguridan/shared'
+import type { BackportCategory, CppVersionId, DiffCategory, DiffDirection, DiffItem, DiffRelationType } from '@shuguridan/shared'
 
 export interface VersionDiff {
   id: string
@@ -19,7 +19,11 @@ export interface DiffAnalysisRequest {
 export interface DiffAnalysisResult {
   source: CppVersionId
   target: CppVersionId
+  direction: DiffDirection
+  // 항상 이전 표준 → 이후 표준 기준의 변경사항 (데이터 파일 그대로)
   diff: DiffCategory
+  // 다운그레이드일 때만: 소스 코드를 타겟 표준으로 백포트할 때의 관점
+  backport?: BackportCategory
   summary: string
   totalChanges: number
 }
@@ -33,3 +37,80 @@ export interface StoredDiffData {
   removed: DiffItem[]
   libraryChanges: DiffItem[]
 }
+
+export type DiffChangeType = keyof DiffCategory
+export type DiffSearchField = 'title' | 'description' | 'examples' | 'references'
+
+export interface DiffSearchRequest {
+  query?: string
+  categories?: Array<DiffItem['category']>
+  impacts?: Array<DiffItem['impact']>
+  versions?: CppVersionId[] // 변경이 도입된 버전 (쌍의 타겟 버전)
+  limit?: number
+  offset?: number
+}
+
+export interface DiffSearchHighlight {
+  field: DiffSearchField
+  text: string // 스니펫 (긴 필드는 일치 위치 주변만)
+  ranges: Array<[number, number]> // text 기준 일치 구간 [start, end)
+}
+
+export interface DiffSearchHit {
+  item: DiffItem
+  changeType: DiffChangeType
+  sourceVersion: CppVersionId
+  introducedIn: CppVersionId
+  score: number
+  highlights: DiffSearchHighlight[]
+}
+
+export interface DiffSearchFacets {
+  category: Partial<Record<DiffItem['category'], number>>
+  impact: Partial<Record<DiffItem['impact'], number>>
+  version: Partial<Record<CppVersionId, number>>
+}
+
+export interface DiffSearchResult {
+  hits: DiffSearchHit[]
+  total: number
+  facets: DiffSearchFacets
+}
+
+// 항목 관계 그래프 (노드 키: "<도입 버전>:<id>", 예: cpp20:concepts)
+export interface DiffGraphNode {
+  key: string
+  id: string
+  title: string
+  category: DiffItem['category']
+  impact: DiffItem['impact']
+  changeType: DiffChangeType
+  sourceVersion: CppVersionId
+  introducedIn: CppVersionId
+}
+
+export interface DiffGraphEdge {
+  from: string
+  to: string
+  type: DiffRelationType
+}
+
+export interface DiffGraph {
+  nodes: DiffGraphNode[]
+  edges: DiffGraphEdge[]
+}
+
+// outgoing: 이 항목이 가리키는 쪽 (예: requires → 의존 대상), incoming: 이 항목을 가리키는 쪽
+export type DiffGraphDirection = 'outgoing' | 'incoming' | 'both'
+
+export interface DiffGraphQuery {
+  types?: DiffRelationType[]
+  direction?: DiffGraphDirection
+  depth?: number // 1 = 직접 관계만
+}
+
+export interface DiffGraphQueryResult {
+  root: DiffGraphNode
+  nodes: Array<DiffGraphNode & { distance: number }>
+  edges: DiffGraphEdge[]
+}
@@ -0,0 +1,57 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { getDefaultEmbeddingProvider, LOCAL_EMBEDDING_MODEL, OpenAIEmbeddingProvider } from './index.js'
+
+describe('getDefaultEmbeddingProvider', () => {
+  beforeEach(() => {
+    vi.stubEnv('EMBEDDING_PROVIDER', '')
+    vi.stubEnv('EMBEDDING_MODEL', '')
+    vi.stubEnv('OPENAI_API_KEY', '')
+  })
+
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  it('uses text-embedding-3-small by default when an OpenAI key is set', () => {
+    vi.stubEnv('OPENAI_API_KEY', 'sk-test')
+
+    const provider = getDefaultEmbeddingProvider()
+    expect(provider.model).toBe('text-embedding-3-small')
+    expect(provider.dimensions).toBe(1536)
+  })
+
+  it('takes the model and its dimensions from EMBEDDING_MODEL', () => {
+    vi.stubEnv('OPENAI_API_KEY', 'sk-test')
+    vi.stubEnv('EMBEDDING_MODEL', 'text-embedding-3-large')
+
+    const provider = getDefaultEmbeddingProvider()
+    expect(provider.model).toBe('text-embedding-3-large')
+    expect(provider.dimensions).toBe(3072)
+  })
+
+  it('rejects models missing from the registry', () => {
+    vi.stubEnv('OPENAI_API_KEY', 'sk-test')
+    vi.stubEnv('EMBEDDING_MODEL', 'text-embedding-4-huge')
+
+    expect(() => getDefaultEmbeddingProvider()).toThrow('Unknown embedding model')
+    expect(() => new OpenAIEmbeddingProvider('sk-test', 'text-embedding-4-huge')).toThrow()
+  })
+
+  it('does not fall back to local embeddings when the requested model needs a key', () => {
+    vi.stubEnv('EMBEDDING_MODEL', 'text-embedding-3-large')
+
+    expect(() => getDefaultEmbeddingProvider()).toThrow('requires OPENAI_API_KEY')
+  })
+
+  it('rejects a model from a different provider than EMBEDDING_PROVIDER', () => {
+    vi.stubEnv('EMBEDDING_PROVIDER', 'local')
+    vi.stubEnv('EMBEDDING_MODEL', 'text-embedding-3-large')
+
+    expect(() => getDefaultEmbeddingProvider()).toThrow('is not a local model')
+  })
+
+  it('falls back to local embeddings without a key or model', () => {
+    const provider = getDefaultEmbeddingProvider()
+    expect(provider.model).toBe(LOCAL_EMBEDDING_MODEL)
+  })
+})
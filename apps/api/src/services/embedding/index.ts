@@ -1,4 +1,6 @@
 import { OpenAIEmbeddingProvider } from './openai.js'
+import { LocalEmbeddingProvider } from './local.js'
+import { getEmbeddingModelInfo } from './models.js'
 import type { EmbeddingConfig, EmbeddingProvider } from './types.js'
 
 export function createEmbeddingProvider(config: EmbeddingConfig): EmbeddingProvider {
@@ -7,10 +9,59 @@ export function createEmbeddingProvider(config: EmbeddingConfig): EmbeddingProvi
       if (!config.apiKey) throw new Error('OpenAI API key required')
       return new OpenAIEmbeddingProvider(config.apiKey, config.model)
 
+    case 'local':
+      return new LocalEmbeddingProvider()
+
     default:
       throw new Error(`Unknown embedding provider: ${config.provider}`)
   }
 }
 
+/**
+ * Get default embedding provider from environment
+ * EMBEDDING_PROVIDER가 지정되지 않으면 OPENAI_API_KEY가 있을 때 OpenAI, 없으면 로컬 해시 임베딩
+ * EMBEDDING_MODEL(레지스트리의 모델 ID)을 지정하면 해당 모델의 프로바이더를 사용 (재임베딩 대상 모델 전환용)
+ */
+export function getDefaultEmbeddingProvider(): EmbeddingProvider {
+  const provider = process.env.EMBEDDING_PROVIDER
+  const openaiKey = process.env.OPENAI_API_KEY
+  const modelId = process.env.EMBEDDING_MODEL
+
+  if (modelId) {
+    const modelInfo = getEmbeddingModelInfo(modelId)
+    if (!modelInfo) {
+      throw new Error(`Unknown embedding model: ${modelId} (EMBEDDING_MODEL)`)
+    }
+    if (provider && provider !== modelInfo.provider) {
+      throw new Error(`EMBEDDING_MODEL ${modelId} is not a ${provider} model`)
+    }
+
+    if (modelInfo.provider === 'local') {
+      return new LocalEmbeddingProvider(modelInfo.dimensions)
+    }
+    // 다른 모델로 조용히 바뀌면 재임베딩/검색 대상이 달라지므로 폴백하지 않음
+    if (!openaiKey) {
+      throw new Error(`Embedding model ${modelId} requires OPENAI_API_KEY`)
+    }
+    return new OpenAIEmbeddingProvider(openaiKey, modelId)
+  }
+
+  if (provider === 'local') {
+    return new LocalEmbeddingProvider()
+  }
+
+  if (openaiKey) {
+    return new OpenAIEmbeddingProvider(openaiKey)
+  }
+
+  if (provider === 'openai') {
+    console.warn('OpenAI embedding provider selected but OPENAI_API_KEY not set, falling back to local')
+  }
+
+  return new LocalEmbeddingProvider()
+}
+
 export * from './types.js'
-export { OpenAIEmbeddingProvider } from './openai.js'
+export * from './models.js'
+export { OpenAIEmbeddingProvider, DEFAULT_OPENAI_EMBEDDING_MODEL } from './openai.js'
+export { LocalEmbeddingProvider, LOCAL_EMBEDDING_MODEL } from './local.js'
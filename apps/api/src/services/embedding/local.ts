@@ -0,0 +1,98 @@
+import { tokenize } from '../../lib/text.js'
+import type { EmbeddingProvider, EmbeddingUsage } from './types.js'
+
+export const LOCAL_EMBEDDING_MODEL = 'local-hash-ngram-v1'
+// spec_documents.embedding 컬럼(vector(1536))과 동일한 차원
+const DEFAULT_DIMENSIONS = 1536
+
+// 피처 종류별 가중치 (단어 > 단어 bigram > 문자 trigram)
+const WORD_WEIGHT = 1.0
+const BIGRAM_WEIGHT = 0.7
+const CHAR_TRIGRAM_WEIGHT = 0.3
+
+/**
+ * FNV-1a 32-bit hash
+ */
+function fnv1a(input: string, seed = 0x811c9dc5): number {
+  let hash = seed
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
+
+/**
+ * 토큰 목록을 단어/bigram/문자 trigram feature hashing으로 고정 차원 벡터에 투영
+ * (log1p TF 가중치 + 부호 해시로 충돌 편향 상쇄, L2 정규화)
+ */
+export function hashTokens(tokens: string[], dimensions: number): number[] {
+  const counts = new Map<string, number>()
+  const add = (feature: string, weight: number) => {
+    counts.set(feature, (counts.get(feature) ?? 0) + weight)
+  }
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i]
+    add(`w:${token}`, WORD_WEIGHT)
+
+    if (i + 1 < tokens.length) {
+      add(`b:${token} ${tokens[i + 1]}`, BIGRAM_WEIGHT)
+    }
+
+    // 철자 변형/복합어(make_unique ↔ unique)를 위한 문자 trigram
+    const padded = `#${token}#`
+    for (let j = 0; j + 3 <= padded.length; j++) {
+      add(`c:${padded.slice(j, j + 3)}`, CHAR_TRIGRAM_WEIGHT)
+    }
+  }
+
+  const vector = new Array<number>(dimensions).fill(0)
+  for (const [feature, weight] of counts) {
+    const hash = fnv1a(feature)
+    const index = hash % dimensions
+    const sign = fnv1a(feature, 0x9747b28c) & 1 ? 1 : -1
+    vector[index] += sign * Math.log1p(weight)
+  }
+
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0))
+  return norm > 0 ? vector.map((v) => v / norm) : vector
+}
+
+/**
+ * Local deterministic embedding provider (hashTokens 기반)
+ * 네트워크 없이 동작하며 같은 입력에는 항상 같은 벡터를 반환
+ */
+export class LocalEmbeddingProvider implements EmbeddingProvider {
+  name = 'local'
+  readonly model = LOCAL_EMBEDDING_MODEL
+  readonly dimensions: number
+  private usage: EmbeddingUsage = { inputTokens: 0, requests: 0 }
+
+  constructor(dimensions = DEFAULT_DIMENSIONS) {
+    this.dimensions = dimensions
+  }
+
+  async embed(text: string): Promise<number[]> {
+    const tokens = tokenize(text)
+    this.trackUsage(tokens.length)
+    return hashTokens(tokens, this.dimensions)
+  }
+
+  async embedBatch(texts: string[]): Promise<number[][]> {
+    if (texts.length === 0) return []
+
+    const tokenLists = texts.map(tokenize)
+    this.trackUsage(tokenLists.reduce((sum, tokens) => sum + tokens.length, 0))
+    return tokenLists.map((tokens) => hashTokens(tokens, this.dimensions))
+  }
+
+  getUsage(): EmbeddingUsage {
+    return { ...this.usage }
+  }
+
+  private trackUsage(tokens: number): void {
+    this.usage.inputTokens += tokens
+    this.usage.requests++
+  }
+}
@@ -0,0 +1,40 @@
+export interface EmbeddingModelInfo {
+  id: string
+  provider: 'openai' | 'local'
+  dimensions: number
+  costPerToken: number // USD
+}
+
+const PER_MILLION = 1 / 1_000_000
+
+// 참고: https://platform.openai.com/docs/guides/embeddings
+export const EMBEDDING_MODEL_REGISTRY: Record<string, EmbeddingModelInfo> = {
+  'text-embedding-3-small': {
+    id: 'text-embedding-3-small',
+    provider: 'openai',
+    dimensions: 1536,
+    costPerToken: 0.02 * PER_MILLION,
+  },
+  'text-embedding-3-large': {
+    id: 'text-embedding-3-large',
+    provider: 'openai',
+    dimensions: 3072,
+    costPerToken: 0.13 * PER_MILLION,
+  },
+  'text-embedding-ada-002': {
+    id: 'text-embedding-ada-002',
+    provider: 'openai',
+    dimensions: 1536,
+    costPerToken: 0.1 * PER_MILLION,
+  },
+  'local-hash-ngram-v1': {
+    id: 'local-hash-ngram-v1',
+    provider: 'local',
+    dimensions: 1536,
+    costPerToken: 0,
+  },
+}
+
+export function getEmbeddingModelInfo(modelId: string): EmbeddingModelInfo | undefined {
+  return EMBEDDING_MODEL_REGISTRY[modelId]
+}
@@ -1,15 +1,26 @@
 import OpenAI from 'openai'
-import type { EmbeddingProvider } from './types.js'
+import type { EmbeddingProvider, EmbeddingUsage } from './types.js'
+import { getEmbeddingModelInfo } from './models.js'
+
+export const DEFAULT_OPENAI_EMBEDDING_MODEL = 'text-embedding-3-small'
 
 export class OpenAIEmbeddingProvider implements EmbeddingProvider {
   name = 'openai'
-  dimensions = 1536
+  readonly dimensions: number
+  readonly model: string
   private client: OpenAI
-  private model: string
+  private usage: EmbeddingUsage = { inputTokens: 0, requests: 0 }
+
+  constructor(apiKey: string, model: string = DEFAULT_OPENAI_EMBEDDING_MODEL) {
+    // 차원은 레지스트리 기준 (embedding_dimensions로 저장되어 검색 필터에 쓰이므로 모르는 모델은 거부)
+    const info = getEmbeddingModelInfo(model)
+    if (!info || info.provider !== 'openai') {
+      throw new Error(`Unknown OpenAI embedding model: ${model}`)
+    }
 
-  constructor(apiKey: string, model: string = 'text-embedding-3-small') {
     this.client = new OpenAI({ apiKey })
     this.model = model
+    this.dimensions = info.dimensions
   }
 
   async embed(text: string): Promise<number[]> {
@@ -17,6 +28,7 @@ export class OpenAIEmbeddingProvider implements EmbeddingProvider {
       model: this.model,
       input: text,
     })
+    this.trackUsage(response.usage.prompt_tokens)
     return response.data[0].embedding
   }
 
@@ -28,10 +40,20 @@ export class OpenAIEmbeddingProvider implements EmbeddingProvider {
       model: this.model,
       input: texts,
     })
+    this.trackUsage(response.usage.prompt_tokens)
 
     // Sort by index to maintain order
     return response.data
       .sort((a, b) => a.index - b.index)
       .map((item) => item.embedding)
   }
+
+  getUsage(): EmbeddingUsage {
+    return { ...this.usage }
+  }
+
+  private trackUsage(tokens: number): void {
+    this.usage.inputTokens += tokens
+    this.usage.requests++
+  }
 }
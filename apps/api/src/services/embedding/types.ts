@@ -1,13 +1,23 @@
 export interface EmbeddingProvider {
   name: string
+  model: string
   dimensions: number
   embed(text: string): Promise<number[]>
   embedBatch(texts: string[]): Promise<number[][]>
+  /**
+   * 프로바이더 생성 이후 누적된 토큰 사용량
+   */
+  getUsage(): EmbeddingUsage
+}
+
+export interface EmbeddingUsage {
+  inputTokens: number
+  requests: number
 }
 
 export interface EmbeddingConfig {
-  provider: 'openai'
-  apiKey: string
+  provider: 'openai' | 'local'
+  apiKey?: string
   model?: string
 }
 
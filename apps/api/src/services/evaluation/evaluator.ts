@@ -0,0 +1,163 @@
+import type { RetrievedDocument } from '../rag/types.js'
+import { averageMetrics, getFirstRanks, ndcgAtK, recallAtK, reciprocalRank } from './metrics.js'
+import type {
+  EvaluationOptions,
+  EvaluationReport,
+  EvaluationRetriever,
+  ExpectedDocument,
+  GoldenQuery,
+  GoldenQuerySet,
+  MetricsAtK,
+  QueryEvaluation,
+  RetrievedHit,
+} from './types.js'
+
+const DEFAULT_K = [1, 3, 5, 10]
+
+/**
+ * 골든 질의 세트로 검색기(DocumentRetriever, InMemoryRetriever) 품질 측정 (recall@k, MRR, nDCG@k)
+ * 질의는 순서대로 실행 (임베딩 API 호출량 제한, 결과 재현성)
+ */
+export class RetrievalEvaluator {
+  private retriever: EvaluationRetriever
+  private embeddingModel: string
+
+  constructor(retriever: EvaluationRetriever, embeddingModel: string) {
+    this.retriever = retriever
+    this.embeddingModel = embeddingModel
+  }
+
+  async evaluate(set: GoldenQuerySet, options: EvaluationOptions = {}): Promise<EvaluationReport> {
+    const startedAt = Date.now()
+    const k = [...new Set(options.k ?? DEFAULT_K)].sort((a, b) => a - b)
+    const resolvedOptions = { ...options, k }
+
+    const queries: QueryEvaluation[] = []
+    for (const query of set.queries) {
+      queries.push(await this.evaluateQuery(query, resolvedOptions))
+    }
+
+    return {
+      set: set.name,
+      embeddingModel: this.embeddingModel,
+      options: resolvedOptions,
+      summary: {
+        queries: queries.length,
+        failed: queries.filter((q) => q.error).length,
+        recall: averageMetrics(queries.map((q) => q.recall), k),
+        ndcg: averageMetrics(queries.map((q) => q.ndcg), k),
+        mrr: queries.length > 0
+          ? queries.reduce((sum, q) => sum + q.reciprocalRank, 0) / queries.length
+          : 0,
+      },
+      queries,
+      durationMs: Date.now() - startedAt,
+      createdAt: new Date().toISOString(),
+    }
+  }
+
+  private async evaluateQuery(
+    query: GoldenQuery,
+    options: EvaluationOptions & { k: number[] }
+  ): Promise<QueryEvaluation> {
+    const startedAt = Date.now()
+    const base = {
+      id: query.id,
+      query: query.query,
+      filterVersion: query.filterVersion ?? null,
+    }
+
+    let documents: RetrievedDocument[]
+    try {
+      documents = await this.retriever.retrieve(query.query, {
+        limit: Math.max(...options.k),
+        filterVersion: query.filterVersion,
+        threshold: options.threshold,
+        mode: options.mode,
+        diversify: options.diversify,
+        mmrLambda: options.mmrLambda,
+        maxChunksPerDocument: options.maxChunksPerDocument,
+      })
+    } catch (error) {
+      // 검색 실패는 0점으로 집계하고 나머지 질의는 계속 실행
+      return {
+        ...base,
+        recall: zeroMetrics(options.k),
+        ndcg: zeroMetrics(options.k),
+        reciprocalRank: 0,
+        missing: query.expected,
+        hits: [],
+        durationMs: Date.now() - startedAt,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      }
+    }
+
+    const hits: RetrievedHit[] = documents.map((doc, index) => ({
+      rank: index + 1,
+      id: doc.id,
+      title: getOriginalTitle(doc),
+      versionId: doc.versionId,
+      url: getUrl(doc),
+      score: doc.score,
+      expectedIndex: findExpectedIndex(doc, query.expected),
+    }))
+
+    const firstRanks = getFirstRanks(hits.map((hit) => hit.expectedIndex), query.expected.length)
+    const recall: MetricsAtK = {}
+    const ndcg: MetricsAtK = {}
+    for (const k of options.k) {
+      recall[String(k)] = recallAtK(firstRanks, k)
+      ndcg[String(k)] = ndcgAtK(firstRanks, query.expected, k)
+    }
+
+    return {
+      ...base,
+      recall,
+      ndcg,
+      reciprocalRank: reciprocalRank(firstRanks),
+      missing: query.expected.filter((_, index) => firstRanks[index] === null),
+      hits,
+      durationMs: Date.now() - startedAt,
+    }
+  }
+}
+
+function zeroMetrics(kValues: number[]): MetricsAtK {
+  return Object.fromEntries(kValues.map((k) => [String(k), 0]))
+}
+
+function getOriginalTitle(doc: RetrievedDocument): string {
+  const originalTitle = doc.metadata.originalTitle
+  return typeof originalTitle === 'string' && originalTitle ? originalTitle : doc.title
+}
+
+function getUrl(doc: RetrievedDocument): string | null {
+  const url = doc.metadata.url
+  return typeof url === 'string' && url ? url : null
+}
+
+/**
+ * 비교용 URL 정규화 (프래그먼트, 끝 슬래시, 대소문자 차이 무시)
+ */
+function normalizeUrl(url: string): string {
+  return url.split('#')[0].replace(/\/+$/, '').toLowerCase()
+}
+
+function normalizeTitle(title: string): string {
+  return title.replace(/\s+/g, ' ').trim().toLowerCase()
+}
+
+/**
+ * 검색 결과가 가리키는 정답 문서 인덱스 (URL 우선, 없으면 제목 비교)
+ */
+function findExpectedIndex(doc: RetrievedDocument, expected: ExpectedDocument[]): number | null {
+  const url = getUrl(doc)
+  const title = normalizeTitle(getOriginalTitle(doc))
+
+  const index = expected.findIndex((item) => {
+    if (item.url && url && normalizeUrl(item.url) === normalizeUrl(url)) return true
+    return !!item.title && normalizeTitle(item.title) === title
+  })
+
+  return index === -1 ? null : index
+}
@@ -0,0 +1,135 @@
+import { readFile, readdir } from 'fs/promises'
+import { join, dirname, basename } from 'path'
+import { fileURLToPath } from 'url'
+import { z } from 'zod'
+import { cppVersionIdSchema } from '@shuguridan/shared/schemas'
+import type { FixtureCorpus, GoldenQuerySet } from './types.js'
+
+const __filename = fileURLToPath(import.meta.url)
+const __dirname = dirname(__filename)
+
+// 저장소 루트의 data/eval/*.json
+const GOLDEN_SET_DIR = join(__dirname, '..', '..', '..', '..', '..', 'data', 'eval')
+// 인메모리 평가용 코퍼스 data/eval/corpus/*.json
+const CORPUS_DIR = join(GOLDEN_SET_DIR, 'corpus')
+
+const expectedDocumentSchema = z
+  .object({
+    title: z.string().min(1).optional(),
+    url: z.string().url().optional(),
+    grade: z.number().positive().max(3).optional(),
+  })
+  .refine((doc) => doc.title !== undefined || doc.url !== undefined, {
+    message: 'Expected document needs a title or url',
+  })
+
+export const goldenQuerySchema = z.object({
+  id: z.string().min(1),
+  query: z.string().min(1),
+  filterVersion: cppVersionIdSchema.optional(),
+  expected: z.array(expectedDocumentSchema).min(1),
+})
+
+export const goldenQuerySetSchema = z.object({
+  name: z.string().min(1),
+  description: z.string().optional(),
+  queries: z
+    .array(goldenQuerySchema)
+    .min(1)
+    .refine((queries) => new Set(queries.map((q) => q.id)).size === queries.length, {
+      message: 'Query ids must be unique',
+    }),
+})
+
+export const fixtureCorpusSchema = z.object({
+  name: z.string().min(1),
+  description: z.string().optional(),
+  documents: z
+    .array(
+      z.object({
+        title: z.string().min(1),
+        url: z.string().url(),
+        versionId: cppVersionIdSchema,
+        category: z.enum(['language', 'library', 'compiler']),
+        content: z.string().min(1),
+      })
+    )
+    .min(1),
+})
+
+/**
+ * 골든 질의 세트 파싱 (형식 오류 시 위치를 포함한 Error)
+ */
+export function parseGoldenQuerySet(data: unknown, source = 'golden set'): GoldenQuerySet {
+  const parsed = goldenQuerySetSchema.safeParse(data)
+  if (!parsed.success) {
+    throw new Error(`Invalid ${source}: ${formatIssues(parsed.error)}`)
+  }
+  return parsed.data
+}
+
+/**
+ * 평가 코퍼스 파싱 (형식 오류 시 위치를 포함한 Error)
+ */
+export function parseFixtureCorpus(data: unknown, source = 'fixture corpus'): FixtureCorpus {
+  const parsed = fixtureCorpusSchema.safeParse(data)
+  if (!parsed.success) {
+    throw new Error(`Invalid ${source}: ${formatIssues(parsed.error)}`)
+  }
+  return parsed.data
+}
+
+function formatIssues(error: z.ZodError): string {
+  return error.errors
+    .map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+    .join('; ')
+}
+
+/**
+ * data/eval 에 포함된 골든 세트 이름 목록
+ */
+export async function listGoldenQuerySets(): Promise<string[]> {
+  try {
+    const files = await readdir(GOLDEN_SET_DIR)
+    return files
+      .filter((file) => file.endsWith('.json'))
+      .map((file) => basename(file, '.json'))
+      .sort()
+  } catch {
+    return []
+  }
+}
+
+/**
+ * 이름으로 골든 세트 로드 (없으면 null)
+ */
+export async function loadGoldenQuerySet(name: string): Promise<GoldenQuerySet | null> {
+  // 경로 탐색 방지
+  if (!/^[\w-]+$/.test(name)) return null
+
+  let content: string
+  try {
+    content = await readFile(join(GOLDEN_SET_DIR, `${name}.json`), 'utf-8')
+  } catch {
+    return null
+  }
+
+  return parseGoldenQuerySet(JSON.parse(content), `golden set "${name}"`)
+}
+
+/**
+ * 이름으로 평가 코퍼스 로드 (없으면 null)
+ */
+export async function loadFixtureCorpus(name: string): Promise<FixtureCorpus | null> {
+  // 경로 탐색 방지
+  if (!/^[\w-]+$/.test(name)) return null
+
+  let content: string
+  try {
+    content = await readFile(join(CORPUS_DIR, `${name}.json`), 'utf-8')
+  } catch {
+    return null
+  }
+
+  return parseFixtureCorpus(JSON.parse(content), `fixture corpus "${name}"`)
+}
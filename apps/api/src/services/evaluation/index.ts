@@ -0,0 +1,14 @@
+export * from './types.js'
+export * from './metrics.js'
+export {
+  goldenQuerySchema,
+  goldenQuerySetSchema,
+  fixtureCorpusSchema,
+  parseGoldenQuerySet,
+  parseFixtureCorpus,
+  listGoldenQuerySets,
+  loadGoldenQuerySet,
+  loadFixtureCorpus,
+} from './golden.js'
+export { RetrievalEvaluator } from './evaluator.js'
+export { InMemoryRetriever } from './memory-retriever.js'
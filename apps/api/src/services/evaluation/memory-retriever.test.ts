@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest'
+import { LocalEmbeddingProvider } from '../embedding/local.js'
+import { RetrievalEvaluator } from './evaluator.js'
+import { loadFixtureCorpus, loadGoldenQuerySet } from './golden.js'
+import { InMemoryRetriever } from './memory-retriever.js'
+import type { FixtureCorpus } from './types.js'
+
+const corpus: FixtureCorpus = {
+  name: 'test',
+  documents: [
+    {
+      title: 'std::unique_ptr',
+      url: 'https://en.cppreference.com/w/cpp/memory/unique_ptr.html',
+      versionId: 'cpp11',
+      category: 'library',
+      content: '# std::unique_ptr\n\nSmart pointer with exclusive ownership of the managed object.',
+    },
+    {
+      title: 'std::optional',
+      url: 'https://en.cppreference.com/w/cpp/utility/optional.html',
+      versionId: 'cpp17',
+      category: 'library',
+      content: '# std::optional\n\nManages an optional contained value that may or may not be present.',
+    },
+  ],
+}
+
+describe('InMemoryRetriever', () => {
+  it('chunks the corpus with the same metadata as ingested documents', async () => {
+    const retriever = await InMemoryRetriever.fromCorpus(corpus, new LocalEmbeddingProvider())
+    const [top] = await retriever.retrieve('exclusive ownership smart pointer', { mode: 'lexical' })
+
+    expect(retriever.size).toBe(2)
+    expect(top.title).toBe('std::unique_ptr')
+    expect(top.metadata).toMatchObject({ url: corpus.documents[0].url, headingPath: ['std::unique_ptr'] })
+  })
+
+  it('applies the version filter', async () => {
+    const retriever = await InMemoryRetriever.fromCorpus(corpus, new LocalEmbeddingProvider())
+    const results = await retriever.retrieve('smart pointer optional value', { filterVersion: 'cpp17', threshold: 0 })
+
+    expect(results.map((doc) => doc.versionId)).toEqual(['cpp17'])
+  })
+
+  it('evaluates the bundled golden set against its fixture corpus', async () => {
+    const set = await loadGoldenQuerySet('cppreference-core')
+    const fixture = await loadFixtureCorpus('cppreference-core')
+    const embeddingProvider = new LocalEmbeddingProvider()
+    const retriever = await InMemoryRetriever.fromCorpus(fixture!, embeddingProvider)
+
+    const report = await new RetrievalEvaluator(retriever, embeddingProvider.model).evaluate(set!)
+
+    // 모든 정답 문서가 코퍼스에 있어야 의미 있는 점수
+    const urls = new Set(fixture!.documents.map((doc) => doc.url))
+    expect(set!.queries.flatMap((q) => q.expected).every((doc) => urls.has(doc.url!))).toBe(true)
+    expect(report.summary.failed).toBe(0)
+    expect(report.summary.recall['10']).toBeGreaterThan(0.9)
+  })
+})
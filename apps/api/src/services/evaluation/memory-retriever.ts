@@ -0,0 +1,206 @@
+import { tokenize } from '../../lib/text.js'
+import type { EmbeddingProvider } from '../embedding/types.js'
+import { chunkMarkdown } from '../rag/chunker.js'
+import { diversifyDocuments } from '../rag/diversity.js'
+import { reciprocalRankFusion } from '../rag/fusion.js'
+import type { ChunkingOptions, RetrievalMode, RetrievalOptions, RetrievedDocument } from '../rag/types.js'
+import type { EvaluationRetriever, FixtureCorpus } from './types.js'
+
+// DocumentRetriever / DocumentProcessor와 같은 기본값 (평가 결과를 DB 검색과 비교할 수 있도록)
+const DEFAULT_THRESHOLD = 0.5
+const DEFAULT_LIMIT = 10
+const DEFAULT_MODE: RetrievalMode = 'hybrid'
+const HYBRID_CANDIDATE_MULTIPLIER = 3
+const DIVERSIFY_CANDIDATE_MULTIPLIER = 3
+const CHUNKING_OPTIONS: ChunkingOptions = { maxTokens: 500, overlapTokens: 50 }
+
+// 어휘 검색 BM25 파라미터 (제목 일치는 본문보다 강한 신호)
+const BM25_K1 = 1.2
+const BM25_B = 0.75
+const TITLE_WEIGHT = 3.0
+
+interface IndexedChunk {
+  document: Omit<RetrievedDocument, 'similarity' | 'score' | 'matchedBy'>
+  embedding: number[]
+  termFreqs: Map<string, number>
+  length: number
+}
+
+/**
+ * 평가 코퍼스를 메모리에 청킹/임베딩해 두고 검색하는 DocumentRetriever 대체 구현
+ * DB 없이 CI에서 평가를 돌리기 위한 용도 (검색 → RRF → 다양화 흐름은 DocumentRetriever와 동일)
+ */
+export class InMemoryRetriever implements EvaluationRetriever {
+  private chunks: IndexedChunk[]
+  private embeddingProvider: EmbeddingProvider
+  private documentFreqs = new Map<string, number>()
+  private avgLength: number
+
+  private constructor(chunks: IndexedChunk[], embeddingProvider: EmbeddingProvider) {
+    this.chunks = chunks
+    this.embeddingProvider = embeddingProvider
+
+    for (const chunk of chunks) {
+      for (const term of chunk.termFreqs.keys()) {
+        this.documentFreqs.set(term, (this.documentFreqs.get(term) ?? 0) + 1)
+      }
+    }
+    const totalLength = chunks.reduce((sum, chunk) => sum + chunk.length, 0)
+    this.avgLength = chunks.length > 0 ? Math.max(totalLength / chunks.length, 1) : 1
+  }
+
+  /**
+   * 코퍼스 문서를 DocumentProcessor와 같은 방식으로 청킹하고 임베딩 (제목/메타데이터 형식 포함)
+   */
+  static async fromCorpus(
+    corpus: FixtureCorpus,
+    embeddingProvider: EmbeddingProvider,
+    options: ChunkingOptions = CHUNKING_OPTIONS
+  ): Promise<InMemoryRetriever> {
+    const entries = corpus.documents.flatMap((doc, docIndex) => {
+      const chunks = chunkMarkdown(doc.content, options)
+      return chunks.map((chunk, index) => ({
+        id: `${corpus.name}:${docIndex}:${index}`,
+        versionId: doc.versionId,
+        title: chunks.length === 1 ? doc.title : `${doc.title} (Part ${index + 1}/${chunks.length})`,
+        content: chunk.content,
+        metadata: {
+          category: doc.category,
+          url: doc.url,
+          ...(chunks.length > 1 ? { originalTitle: doc.title } : {}),
+          sourceType: 'markdown',
+          headingPath: chunk.headingPath,
+          chunkIndex: index,
+          totalChunks: chunks.length,
+        },
+      }))
+    })
+
+    const embeddings = await embeddingProvider.embedBatch(entries.map((entry) => entry.content))
+
+    const chunks = entries.map((document, index) => {
+      const titleTokens = tokenize(document.title)
+      const contentTokens = tokenize(document.content)
+      const termFreqs = new Map<string, number>()
+      for (const term of titleTokens) {
+        termFreqs.set(term, (termFreqs.get(term) ?? 0) + TITLE_WEIGHT)
+      }
+      for (const term of contentTokens) {
+        termFreqs.set(term, (termFreqs.get(term) ?? 0) + 1)
+      }
+      const length = titleTokens.length * TITLE_WEIGHT + contentTokens.length
+      return { document, embedding: embeddings[index], termFreqs, length }
+    })
+
+    return new InMemoryRetriever(chunks, embeddingProvider)
+  }
+
+  get size(): number {
+    return this.chunks.length
+  }
+
+  async retrieve(query: string, options: RetrievalOptions = {}): Promise<RetrievedDocument[]> {
+    if (options.lifecycle) {
+      throw new Error('Lifecycle filters are not supported by the in-memory retriever')
+    }
+
+    const threshold = options.threshold ?? DEFAULT_THRESHOLD
+    const limit = options.limit ?? DEFAULT_LIMIT
+    const mode = options.mode ?? DEFAULT_MODE
+    const diversify = options.diversify !== false
+    const candidates = this.chunks.filter(
+      (chunk) => !options.filterVersion || chunk.document.versionId === options.filterVersion
+    )
+
+    const candidateLimit = diversify ? limit * DIVERSIFY_CANDIDATE_MULTIPLIER : limit
+    let results: RetrievedDocument[]
+    if (mode === 'vector') {
+      results = await this.vectorSearch(query, candidates, threshold, candidateLimit)
+    } else if (mode === 'lexical') {
+      results = this.lexicalSearch(query, candidates, candidateLimit)
+    } else {
+      const hybridLimit = candidateLimit * HYBRID_CANDIDATE_MULTIPLIER
+      results = reciprocalRankFusion(
+        [
+          await this.vectorSearch(query, candidates, threshold, hybridLimit),
+          this.lexicalSearch(query, candidates, hybridLimit),
+        ],
+        candidateLimit
+      )
+    }
+
+    if (!diversify) return results
+
+    return diversifyDocuments(results, {
+      limit,
+      lambda: options.mmrLambda,
+      maxChunksPerDocument: options.maxChunksPerDocument,
+    })
+  }
+
+  private async vectorSearch(
+    query: string,
+    candidates: IndexedChunk[],
+    threshold: number,
+    limit: number
+  ): Promise<RetrievedDocument[]> {
+    const queryEmbedding = await this.embeddingProvider.embed(query)
+
+    return candidates
+      .map((chunk) => ({ chunk, similarity: cosineSimilarity(queryEmbedding, chunk.embedding) }))
+      .filter(({ similarity }) => similarity > threshold)
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, limit)
+      .map(({ chunk, similarity }) => ({
+        ...chunk.document,
+        similarity,
+        score: similarity,
+        matchedBy: ['vector'],
+      }))
+  }
+
+  /**
+   * 제목 가중 BM25 (match_documents_lexical 대체, 점수는 최고점 기준 0..1로 정규화)
+   */
+  private lexicalSearch(query: string, candidates: IndexedChunk[], limit: number): RetrievedDocument[] {
+    const terms = [...new Set(tokenize(query))]
+    const total = this.chunks.length
+
+    const scored = candidates
+      .map((chunk) => {
+        let score = 0
+        for (const term of terms) {
+          const tf = chunk.termFreqs.get(term)
+          if (!tf) continue
+          const df = this.documentFreqs.get(term) ?? 0
+          const idf = Math.log(1 + (total - df + 0.5) / (df + 0.5))
+          const norm = 1 - BM25_B + BM25_B * (chunk.length / this.avgLength)
+          score += idf * ((tf * (BM25_K1 + 1)) / (tf + BM25_K1 * norm))
+        }
+        return { chunk, score }
+      })
+      .filter(({ score }) => score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit)
+
+    const topScore = scored[0]?.score ?? 1
+    return scored.map(({ chunk, score }) => ({
+      ...chunk.document,
+      similarity: score / topScore,
+      score: score / topScore,
+      matchedBy: ['lexical'],
+    }))
+  }
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0
+  let normA = 0
+  let normB = 0
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i]
+    normA += a[i] * a[i]
+    normB += b[i] * b[i]
+  }
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0
+}
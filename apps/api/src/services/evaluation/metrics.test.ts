@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest'
+import { averageMetrics, getFirstRanks, ndcgAtK, recallAtK, reciprocalRank } from './metrics.js'
+
+describe('getFirstRanks', () => {
+  it('records the first rank of each expected document', () => {
+    // 결과: [정답1, 무관, 정답1의 다른 청크, 정답0]
+    expect(getFirstRanks([1, null, 1, 0], 3)).toEqual([4, 1, null])
+  })
+})
+
+describe('recallAtK', () => {
+  it('counts expected documents found within the cutoff', () => {
+    const ranks = [1, 4, null]
+    expect(recallAtK(ranks, 1)).toBeCloseTo(1 / 3)
+    expect(recallAtK(ranks, 3)).toBeCloseTo(1 / 3)
+    expect(recallAtK(ranks, 5)).toBeCloseTo(2 / 3)
+  })
+
+  it('is 0 without expected documents', () => {
+    expect(recallAtK([], 10)).toBe(0)
+  })
+})
+
+describe('reciprocalRank', () => {
+  it('uses the best-ranked expected document', () => {
+    expect(reciprocalRank([3, 2, null])).toBe(0.5)
+    expect(reciprocalRank([null, null])).toBe(0)
+  })
+})
+
+describe('ndcgAtK', () => {
+  const expected = [{ url: 'https://en.cppreference.com/w/cpp/a', grade: 3 }, { title: 'b' }]
+
+  it('is 1 for the ideal ordering', () => {
+    expect(ndcgAtK([1, 2], expected, 10)).toBeCloseTo(1)
+  })
+
+  it('discounts gains by log2(rank + 1) and normalizes by the ideal DCG', () => {
+    // DCG = (2^3 - 1) / log2(3), IDCG = 7 / log2(2) + 1 / log2(3)
+    const dcg = 7 / Math.log2(3)
+    const idealDcg = 7 + 1 / Math.log2(3)
+    expect(ndcgAtK([2, null], expected, 3)).toBeCloseTo(dcg / idealDcg)
+  })
+
+  it('ignores documents below the cutoff', () => {
+    expect(ndcgAtK([5, null], expected, 3)).toBe(0)
+  })
+})
+
+describe('averageMetrics', () => {
+  it('averages each cutoff over queries', () => {
+    expect(averageMetrics([{ '1': 1, '3': 1 }, { '1': 0, '3': 0.5 }], [1, 3])).toEqual({ '1': 0.5, '3': 0.75 })
+    expect(averageMetrics([], [1])).toEqual({ '1': 0 })
+  })
+})
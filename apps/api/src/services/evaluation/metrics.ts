@@ -0,0 +1,75 @@
+import type { ExpectedDocument, MetricsAtK } from './types.js'
+
+const DEFAULT_GRADE = 1
+
+/**
+ * 정답 문서별 첫 등장 순위 (rank 1부터, 검색되지 않은 문서는 null)
+ * matches[i] = i번째 검색 결과가 가리키는 정답 인덱스 (없으면 null)
+ */
+export function getFirstRanks(matches: Array<number | null>, expectedCount: number): Array<number | null> {
+  const ranks: Array<number | null> = new Array(expectedCount).fill(null)
+  matches.forEach((expectedIndex, index) => {
+    if (expectedIndex !== null && ranks[expectedIndex] === null) {
+      ranks[expectedIndex] = index + 1
+    }
+  })
+  return ranks
+}
+
+/**
+ * recall@k: 상위 k개 안에 들어온 정답 문서 비율
+ */
+export function recallAtK(firstRanks: Array<number | null>, k: number): number {
+  if (firstRanks.length === 0) return 0
+  const found = firstRanks.filter((rank) => rank !== null && rank <= k).length
+  return found / firstRanks.length
+}
+
+/**
+ * 첫 정답 문서 순위의 역수 (없으면 0)
+ */
+export function reciprocalRank(firstRanks: Array<number | null>): number {
+  const ranks = firstRanks.filter((rank): rank is number => rank !== null)
+  return ranks.length > 0 ? 1 / Math.min(...ranks) : 0
+}
+
+/**
+ * nDCG@k (정답 문서는 첫 등장 위치에서만 이득을 얻음, 같은 문서의 다른 청크는 0)
+ */
+export function ndcgAtK(
+  firstRanks: Array<number | null>,
+  expected: ExpectedDocument[],
+  k: number
+): number {
+  const grades = expected.map((doc) => doc.grade ?? DEFAULT_GRADE)
+
+  const dcg = firstRanks.reduce<number>((sum, rank, index) => {
+    if (rank === null || rank > k) return sum
+    return sum + gain(grades[index], rank)
+  }, 0)
+
+  const idealDcg = [...grades]
+    .sort((a, b) => b - a)
+    .slice(0, k)
+    .reduce((sum, grade, index) => sum + gain(grade, index + 1), 0)
+
+  return idealDcg > 0 ? dcg / idealDcg : 0
+}
+
+function gain(grade: number, rank: number): number {
+  return (2 ** grade - 1) / Math.log2(rank + 1)
+}
+
+/**
+ * 질의별 지표의 평균
+ */
+export function averageMetrics(values: MetricsAtK[], kValues: number[]): MetricsAtK {
+  const result: MetricsAtK = {}
+  for (const k of kValues) {
+    const key = String(k)
+    result[key] = values.length > 0
+      ? values.reduce((sum, metrics) => sum + (metrics[key] ?? 0), 0) / values.length
+      : 0
+  }
+  return result
+}
@@ -0,0 +1,100 @@
+import type { CppVersionId } from '@shuguridan/shared'
+import type { ChunkMetadata, RetrievalMode, RetrievalOptions, RetrievedDocument } from '../rag/types.js'
+
+/**
+ * 정답 문서 (제목 또는 URL 중 하나 이상으로 식별)
+ * 제목은 청크의 원본 제목(metadata.originalTitle)과, URL은 metadata.url과 비교
+ */
+export interface ExpectedDocument {
+  title?: string
+  url?: string
+  grade?: number // nDCG 관련도 (기본 1, 핵심 문서는 2~3)
+}
+
+export interface GoldenQuery {
+  id: string
+  query: string
+  filterVersion?: CppVersionId
+  expected: ExpectedDocument[]
+}
+
+export interface GoldenQuerySet {
+  name: string
+  description?: string
+  queries: GoldenQuery[]
+}
+
+/**
+ * 인메모리 평가용 원본 문서 (마크다운 본문, 인덱싱 시 청킹/임베딩)
+ */
+export interface FixtureDocument {
+  title: string
+  url: string
+  versionId: CppVersionId
+  category: ChunkMetadata['category']
+  content: string
+}
+
+export interface FixtureCorpus {
+  name: string
+  description?: string
+  documents: FixtureDocument[]
+}
+
+// 평가 대상 검색기 (DocumentRetriever 또는 InMemoryRetriever)
+export interface EvaluationRetriever {
+  retrieve(query: string, options?: RetrievalOptions): Promise<RetrievedDocument[]>
+}
+
+export interface EvaluationOptions {
+  k?: number[] // recall@k, nDCG@k를 계산할 k 목록 (기본: [1, 3, 5, 10])
+  threshold?: number
+  mode?: RetrievalMode
+  diversify?: boolean
+  mmrLambda?: number
+  maxChunksPerDocument?: number
+}
+
+export interface RetrievedHit {
+  rank: number // 1부터
+  id: string
+  title: string
+  versionId: string
+  url: string | null
+  score: number
+  expectedIndex: number | null // 일치한 정답 문서 (GoldenQuery.expected 인덱스), 없으면 null
+}
+
+// k별 지표 ('1', '3', ... → 값)
+export type MetricsAtK = Record<string, number>
+
+export interface QueryEvaluation {
+  id: string
+  query: string
+  filterVersion: CppVersionId | null
+  recall: MetricsAtK
+  ndcg: MetricsAtK
+  reciprocalRank: number
+  missing: ExpectedDocument[] // 검색 결과에 없는 정답 문서
+  hits: RetrievedHit[]
+  durationMs: number
+  error?: string
+}
+
+export interface EvaluationSummary {
+  queries: number
+  failed: number // 검색 오류로 0점 처리된 질의 수
+  recall: MetricsAtK
+  ndcg: MetricsAtK
+  mrr: number
+}
+
+export interface EvaluationReport {
+  set: string
+  embeddingModel: string
+  options: Required<Pick<EvaluationOptions, 'k'>> & Omit<EvaluationOptions, 'k'>
+  summary: EvaluationSummary
+  queries: QueryEvaluation[]
+  durationMs: number
+  createdAt: string
+}
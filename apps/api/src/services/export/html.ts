@@ -94,6 +94,20 @@ export function exportDocumentToHtml(
   parts.push(markdownToHtml(doc.content))
   parts.push('</div>')
 
+  // References
+  if (doc.references && doc.references.length > 0) {
+    parts.push('<section class="references">')
+    parts.push('<h2>참고 문헌</h2>')
+    parts.push('<ol>')
+    for (const ref of doc.references) {
+      parts.push(
+        `<li value="${ref.index}"><a href="${escapeHtml(ref.url)}">${escapeHtml(ref.title)}</a> (${escapeHtml(formatVersion(ref.versionId))})</li>`
+      )
+    }
+    parts.push('</ol>')
+    parts.push('</section>')
+  }
+
   parts.push('</body>')
   parts.push('</html>')
 
@@ -252,6 +266,7 @@ function markdownToHtml(markdown: string): string {
     .replace(/\*(.+?)\*/g, '<em>$1</em>')
     .replace(/`([^`]+)`/g, '<code>$1</code>')
     .replace(/```(\w+)?\n([\s\S]*?)```/g, '<pre><code>$2</code></pre>')
+    .replace(/\[((?:\[[^\]]*\]|[^[\]])+)\]\((https?:\/\/[^)\s]+)\)/g, '<a href="$2">$1</a>')
     .replace(/^- (.+)$/gm, '<li>$1</li>')
     .replace(/(<li>.*<\/li>\n?)+/g, '<ul>$&</ul>')
     .replace(/\n\n/g, '</p><p>')
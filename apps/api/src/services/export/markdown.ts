@@ -29,6 +29,16 @@ export function exportDocumentToMarkdown(
   // Content
   parts.push(doc.content)
 
+  // References
+  if (doc.references && doc.references.length > 0) {
+    parts.push('')
+    parts.push('## 참고 문헌')
+    parts.push('')
+    for (const ref of doc.references) {
+      parts.push(`${ref.index}. [${ref.title}](${ref.url}) (${formatVersion(ref.versionId)})`)
+    }
+  }
+
   const content = parts.join('\n')
   const filename = generateFilename(doc, 'md')
 
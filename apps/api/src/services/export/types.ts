@@ -23,6 +23,14 @@ export interface DocumentToExport {
   content: string
   createdAt: string
   metadata?: Record<string, unknown>
+  references?: ExportReference[] // 본문의 [n] 인용 출처
+}
+
+export interface ExportReference {
+  index: number
+  title: string
+  versionId: string
+  url: string
 }
 
 export interface DiffToExport {
@@ -0,0 +1,3 @@
+export * from './types.js'
+export { getFeatureMatrix, compareCompilerVersions, isAvailable, COMPILER_IDS } from './matrix.js'
+export { validateFeatureData, featureSupportSchema, storedFeatureDataSchema, compilerIdSchema, compilerVersionSchema } from './schema.js'
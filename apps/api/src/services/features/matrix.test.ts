@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest'
+import { compareCompilerVersions, getFeatureMatrix, isAvailable } from './matrix.js'
+import type { FeatureSupport } from './types.js'
+
+const concepts: FeatureSupport = {
+  id: 'concepts',
+  title: 'Concepts',
+  standard: 'cpp20',
+  category: 'language',
+  support: { gcc: '10', clang: '10', msvc: '19.28' },
+}
+
+describe('compareCompilerVersions', () => {
+  it('compares dotted versions numerically', () => {
+    expect(compareCompilerVersions('19.29', '19.3')).toBeGreaterThan(0)
+    expect(compareCompilerVersions('9', '10')).toBeLessThan(0)
+  })
+
+  it('treats missing components as zero', () => {
+    expect(compareCompilerVersions('11', '11.0')).toBe(0)
+    expect(compareCompilerVersions('11.0.1', '11')).toBeGreaterThan(0)
+  })
+})
+
+describe('isAvailable', () => {
+  it('requires at least the minimum version', () => {
+    expect(isAvailable(concepts, { compiler: 'gcc', version: '10' })).toBe(true)
+    expect(isAvailable(concepts, { compiler: 'gcc', version: '10.2' })).toBe(true)
+    expect(isAvailable(concepts, { compiler: 'gcc', version: '9' })).toBe(false)
+    expect(isAvailable(concepts, { compiler: 'msvc', version: '19.3' })).toBe(false)
+  })
+
+  it('is false when the compiler does not support the feature', () => {
+    const unsupported = { ...concepts, support: { ...concepts.support, clang: null } }
+    expect(isAvailable(unsupported, { compiler: 'clang', version: '99' })).toBe(false)
+  })
+})
+
+describe('getFeatureMatrix', () => {
+  it('validates the bundled data and links diff items', async () => {
+    const matrix = await getFeatureMatrix()
+
+    expect(matrix.rows.length).toBeGreaterThan(0)
+    expect(matrix.rows.find((row) => row.id === 'concepts')?.diff).toMatchObject({ target: 'cpp20' })
+  })
+
+  it('answers availability for a toolchain', async () => {
+    const matrix = await getFeatureMatrix({ toolchain: { compiler: 'gcc', version: '9' }, available: false, standards: ['cpp20'] })
+
+    expect(matrix.rows.map((row) => row.id)).toContain('concepts')
+    expect(matrix.rows.every((row) => row.available === false && row.standard === 'cpp20')).toBe(true)
+  })
+})
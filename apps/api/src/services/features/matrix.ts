@@ -0,0 +1,119 @@
+import { readFile } from 'fs/promises'
+import { join, dirname } from 'path'
+import { fileURLToPath } from 'url'
+import { compareVersions } from '@shuguridan/shared'
+import { DIFF_CHANGE_TYPES, getAvailableDiffPairs, loadDiffData } from '../diff/index.js'
+import { validateFeatureData } from './schema.js'
+import type { CompilerId, FeatureMatrix, FeatureMatrixFilter, FeatureMatrixRow, FeatureSupport, Toolchain } from './types.js'
+
+const __filename = fileURLToPath(import.meta.url)
+const __dirname = dirname(__filename)
+
+const FEATURE_DATA_FILE = join(__dirname, '..', '..', '..', '..', '..', 'data', 'features', 'features.json')
+
+export const COMPILER_IDS: CompilerId[] = ['gcc', 'clang', 'msvc']
+
+// diff 항목 위치가 연결된 행 (검증 후 캐시)
+let rowsCache: FeatureMatrixRow[] | null = null
+
+/**
+ * diffItemId를 도입 표준이 타겟인 diff 파일에서 찾아 연결
+ * 참조가 깨져 있으면 에러 (데이터 수정 필요)
+ */
+async function linkDiffItems(features: FeatureSupport[]): Promise<FeatureMatrixRow[]> {
+  const pairs = await getAvailableDiffPairs()
+  const issues: string[] = []
+  const rows: FeatureMatrixRow[] = []
+
+  for (const [index, feature] of features.entries()) {
+    if (!feature.diffItemId) {
+      rows.push(feature)
+      continue
+    }
+
+    const pair = pairs.find((p) => p.target === feature.standard)
+    const data = pair ? await loadDiffData(pair.source, pair.target) : null
+    const changeType = data
+      ? DIFF_CHANGE_TYPES.find((type) => data[type].some((item) => item.id === feature.diffItemId))
+      : undefined
+
+    if (!pair || !changeType) {
+      issues.push(`  - features.${index}.diffItemId: "${feature.diffItemId}" not found in diff data targeting ${feature.standard}`)
+      continue
+    }
+
+    rows.push({ ...feature, diff: { source: pair.source, target: pair.target, changeType } })
+  }
+
+  if (issues.length > 0) {
+    throw new Error(`Invalid feature data in features.json:\n${issues.join('\n')}`)
+  }
+
+  return rows
+}
+
+async function loadFeatureRows(): Promise<FeatureMatrixRow[]> {
+  if (rowsCache) return rowsCache
+
+  const content = await readFile(FEATURE_DATA_FILE, 'utf-8')
+
+  let json: unknown
+  try {
+    json = JSON.parse(content)
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    throw new Error(`Invalid feature data in features.json: ${message}`)
+  }
+
+  const data = validateFeatureData(json, 'features.json')
+  rowsCache = await linkDiffItems(data.features)
+  return rowsCache
+}
+
+/**
+ * 점 구분 버전 비교 (19.29 > 19.3, 11 == 11.0)
+ */
+export function compareCompilerVersions(a: string, b: string): number {
+  const pa = a.split('.').map(Number)
+  const pb = b.split('.').map(Number)
+
+  for (let i = 0; i < Math.max(pa.length, pb.length); i++) {
+    const diff = (pa[i] ?? 0) - (pb[i] ?? 0)
+    if (diff !== 0) return diff
+  }
+  return 0
+}
+
+export function isAvailable(feature: FeatureSupport, toolchain: Toolchain): boolean {
+  const minimum = feature.support[toolchain.compiler]
+  return minimum !== null && compareCompilerVersions(toolchain.version, minimum) >= 0
+}
+
+function matchesQuery(feature: FeatureSupport, query: string): boolean {
+  const needle = query.toLowerCase()
+  return [feature.id, feature.title, feature.macro?.name ?? '', feature.diffItemId ?? '']
+    .some((value) => value.toLowerCase().includes(needle))
+}
+
+/**
+ * 기능 × 표준 × 컴파일러 가용성 매트릭스
+ * toolchain을 지정하면 각 행에 available이 채워짐 ("GCC 9에서 X를 쓸 수 있나?")
+ */
+export async function getFeatureMatrix(filter: FeatureMatrixFilter = {}): Promise<FeatureMatrix> {
+  const rows = await loadFeatureRows()
+  const { standards, categories, query, toolchain, available } = filter
+
+  const filtered = rows
+    .filter((row) => !standards?.length || standards.includes(row.standard))
+    .filter((row) => !categories?.length || categories.includes(row.category))
+    .filter((row) => !query || matchesQuery(row, query))
+    .map((row) => (toolchain ? { ...row, available: isAvailable(row, toolchain) } : row))
+    .filter((row) => available === undefined || !toolchain || row.available === available)
+    .sort((a, b) => compareVersions(a.standard, b.standard))
+
+  return {
+    compilers: COMPILER_IDS,
+    toolchain,
+    rows: filtered,
+  }
+}
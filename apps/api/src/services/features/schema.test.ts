@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest'
+import { validateFeatureData } from './schema.js'
+
+function feature(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'concepts',
+    title: 'Concepts',
+    standard: 'cpp20',
+    category: 'language',
+    macro: { name: '__cpp_concepts', value: 202002 },
+    support: { gcc: '10', clang: '10', msvc: '19.28' },
+    ...overrides,
+  }
+}
+
+describe('validateFeatureData', () => {
+  it('accepts valid data', () => {
+    const data = { features: [feature(), feature({ id: 'likely-attribute', macro: { name: '__has_cpp_attribute(likely)', value: 201803 } })] }
+
+    expect(validateFeatureData(data, 'test.json').features).toHaveLength(2)
+  })
+
+  it('reports each schema issue with its path', () => {
+    const data = {
+      features: [
+        feature({ id: 'Not_Kebab' }),
+        feature({ id: 'ranges', support: { gcc: '10.x', clang: null, msvc: '19.29' } }),
+        feature({ id: 'modules', macro: { name: 'MODULES', value: 1 } }),
+      ],
+    }
+
+    expect(() => validateFeatureData(data, 'test.json')).toThrowError(/Invalid feature data in test\.json/)
+    expect(() => validateFeatureData(data, 'test.json')).toThrowError(/features\.0\.id: id must be kebab-case/)
+    expect(() => validateFeatureData(data, 'test.json')).toThrowError(/features\.1\.support\.gcc: version must be dotted numbers/)
+    expect(() => validateFeatureData(data, 'test.json')).toThrowError(/features\.2\.macro\.name: macro must be __cpp_\*/)
+  })
+
+  it('rejects duplicate ids', () => {
+    const data = { features: [feature(), feature({ id: 'ranges' }), feature()] }
+
+    expect(() => validateFeatureData(data, 'test.json')).toThrowError(
+      'features.2.id: duplicate id "concepts" (also in features.0)'
+    )
+  })
+})
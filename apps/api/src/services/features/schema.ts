@@ -0,0 +1,63 @@
+import { z } from 'zod'
+import { cppVersionIdSchema } from '@shuguridan/shared/schemas'
+import type { StoredFeatureData } from './types.js'
+
+// data/features/features.schema.json과 같은 규칙
+export const compilerIdSchema = z.enum(['gcc', 'clang', 'msvc'])
+
+export const compilerVersionSchema = z.string().regex(/^\d+(\.\d+)*$/, 'version must be dotted numbers (e.g. 11 or 19.29)')
+
+export const featureSupportSchema = z.object({
+  id: z.string().regex(/^[a-z0-9]+(-[a-z0-9]+)*$/, 'id must be kebab-case'),
+  title: z.string().min(1),
+  standard: cppVersionIdSchema,
+  category: z.enum(['language', 'library']),
+  diffItemId: z.string().min(1).optional(),
+  macro: z
+    .object({
+      name: z.string().regex(/^(__cpp_\w+|__has_cpp_attribute\(\w+\))$/, 'macro must be __cpp_* or __has_cpp_attribute(...)'),
+      value: z.number().int(),
+    })
+    .optional(),
+  support: z.object({
+    gcc: compilerVersionSchema.nullable(),
+    clang: compilerVersionSchema.nullable(),
+    msvc: compilerVersionSchema.nullable(),
+  }),
+  notes: z.string().min(1).optional(),
+})
+
+export const storedFeatureDataSchema = z.object({
+  references: z.array(z.string().url()).optional(),
+  features: z.array(featureSupportSchema),
+})
+
+/**
+ * 기능 가용성 데이터 검증 (스키마 + id 중복)
+ * diff 항목 참조는 diff 데이터가 필요하므로 로더에서 검증
+ */
+export function validateFeatureData(data: unknown, source: string): StoredFeatureData {
+  const parsed = storedFeatureDataSchema.safeParse(data)
+
+  if (!parsed.success) {
+    const issues = parsed.error.errors.map((issue) => `  - ${issue.path.join('.') || '(root)'}: ${issue.message}`)
+    throw new Error(`Invalid feature data in ${source}:\n${issues.join('\n')}`)
+  }
+
+  const issues: string[] = []
+  const seen = new Map<string, number>()
+  parsed.data.features.forEach((feature, index) => {
+    const previous = seen.get(feature.id)
+    if (previous !== undefined) {
+      issues.push(`  - features.${index}.id: duplicate id "${feature.id}" (also in features.${previous})`)
+    } else {
+      seen.set(feature.id, index)
+    }
+  })
+
+  if (issues.length > 0) {
+    throw new Error(`Invalid feature data in ${source}:\n${issues.join('\n')}`)
+  }
+
+  return parsed.data
+}
@@ -0,0 +1,58 @@
+import type { CppVersionId } from '@shuguridan/shared'
+import type { DiffChangeType } from '../diff/types.js'
+
+export type CompilerId = 'gcc' | 'clang' | 'msvc'
+
+export interface FeatureMacro {
+  name: string // 예: __cpp_concepts, __has_cpp_attribute(likely)
+  value: number // 예: 202002 (202002L)
+}
+
+// 컴파일러별 최소 지원 버전 (null = 아직 미지원)
+export type CompilerSupport = Record<CompilerId, string | null>
+
+export interface FeatureSupport {
+  id: string
+  title: string
+  standard: CppVersionId // 기능을 도입한 표준
+  category: 'language' | 'library'
+  diffItemId?: string // data/diffs/<source>-<standard>.json의 항목 id
+  macro?: FeatureMacro
+  support: CompilerSupport
+  notes?: string
+}
+
+export interface StoredFeatureData {
+  references?: string[]
+  features: FeatureSupport[]
+}
+
+export interface Toolchain {
+  compiler: CompilerId
+  version: string // 예: 9, 11.4, 19.29
+}
+
+export interface FeatureMatrixFilter {
+  standards?: CppVersionId[]
+  categories?: Array<FeatureSupport['category']>
+  query?: string // 제목/id/매크로 부분 일치
+  toolchain?: Toolchain
+  available?: boolean // toolchain 기준 사용 가능 여부로 필터
+}
+
+export interface FeatureMatrixRow extends FeatureSupport {
+  // 연결된 diff 항목 위치
+  diff?: {
+    source: CppVersionId
+    target: CppVersionId
+    changeType: DiffChangeType
+  }
+  // toolchain이 지정된 경우만
+  available?: boolean
+}
+
+export interface FeatureMatrix {
+  compilers: CompilerId[]
+  toolchain?: Toolchain
+  rows: FeatureMatrixRow[]
+}
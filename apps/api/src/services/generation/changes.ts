@@ -0,0 +1,52 @@
+import { z } from 'zod'
+
+// 웹 ExplanationPanel의 카테고리와 동일
+export const CHANGE_CATEGORIES = [
+  'auto',
+  'lambda',
+  'smartpointer',
+  'rangefor',
+  'nullptr',
+  'constexpr',
+  'initializer',
+  'default',
+] as const
+
+export type ChangeCategory = (typeof CHANGE_CATEGORIES)[number]
+
+/**
+ * 코드 현대화 변경 목록 스키마 (LLM 구조화 출력)
+ */
+export const modernizationChangesSchema = z.object({
+  changes: z.array(
+    z
+      .object({
+        lineStart: z.number().int().min(1),
+        lineEnd: z.number().int().min(1),
+        type: z.enum(['modify', 'add', 'delete']),
+        originalSnippet: z.string().default(''),
+        modernizedSnippet: z.string().default(''),
+        explanation: z.string().min(1),
+        // 알 수 없는 카테고리는 검증 실패 대신 'default'로 취급
+        category: z
+          .string()
+          .transform((value): ChangeCategory =>
+            (CHANGE_CATEGORIES as readonly string[]).includes(value) ? (value as ChangeCategory) : 'default'
+          ),
+      })
+      .refine((change) => change.lineEnd >= change.lineStart, {
+        message: 'lineEnd must be greater than or equal to lineStart',
+        path: ['lineEnd'],
+      })
+  ),
+})
+
+export type ModernizationChange = z.infer<typeof modernizationChangesSchema>['changes'][number]
+
+/**
+ * 마크다운 응답에서 C++ 코드 블록 추출 (없으면 원문 그대로)
+ */
+export function extractCodeBlock(content: string): string {
+  const match = content.match(/```(?:cpp|c\+\+)?\s*([\s\S]*?)```/i)
+  return match ? match[1].trim() : content
+}
@@ -1,91 +1,122 @@
 import { createHash } from 'crypto'
-import type { SupabaseClient } from '@supabase/supabase-js'
+import { compareVersions, isCppVersionId } from '@shuguridan/shared'
 import type { LLMProvider } from '../llm/types.js'
+import { getCacheTtlMs, type ResponseCache } from '../cache/index.js'
 import type { DocumentRetriever } from '../rag/retriever.js'
+import { toCitedSources, linkCitations } from '../rag/citations.js'
+import type { CitedSource, RetrievedDocument } from '../rag/types.js'
+import type { Reranker } from '../rerank/types.js'
 import { analyzeDiff } from '../diff/index.js'
-import { getPromptBuilder, getSystemPrompt, buildCodeModernizationPrompt } from '../prompts/index.js'
+import {
+  getPromptBuilder,
+  getSystemPrompt,
+  buildCodeModernizationPrompt,
+  buildModernizationChangesPrompt,
+  SYSTEM_PROMPTS,
+} from '../prompts/index.js'
 import type { PromptContext, CodeModernizationContext } from '../prompts/types.js'
-import type { GenerationRequest, GenerationResult, GenerationOptions } from './types.js'
+import { modernizationChangesSchema, extractCodeBlock } from './changes.js'
+import type {
+  GenerationRequest,
+  GenerationResult,
+  GenerationOptions,
+  ChangeListRequest,
+  ChangeListResult,
+} from './types.js'
 
 const DEFAULT_RAG_LIMIT = 5
-const CACHE_EXPIRY_HOURS = 24
+// 재순위화 시 버전별로 가져올 후보 수 (ragLimit 배수)
+const RERANK_CANDIDATE_MULTIPLIER = 3
 
 export class DocumentGenerator {
-  private supabase: SupabaseClient
+  private cache: ResponseCache | null
   private llmProvider: LLMProvider
   private retriever: DocumentRetriever | null
+  private reranker: Reranker | null
 
   constructor(
-    supabase: SupabaseClient,
+    cache: ResponseCache | null,
     llmProvider: LLMProvider,
-    retriever?: DocumentRetriever
+    retriever?: DocumentRetriever,
+    reranker?: Reranker | null
   ) {
-    this.supabase = supabase
+    this.cache = cache
     this.llmProvider = llmProvider
     this.retriever = retriever || null
+    this.reranker = reranker || null
   }
 
   private hashPrompt(prompt: string): string {
     return createHash('sha256').update(prompt).digest('hex')
   }
 
-  private async checkCache(promptHash: string): Promise<string | null> {
-    const { data, error } = await this.supabase
-      .from('llm_cache')
-      .select('response')
-      .eq('prompt_hash', promptHash)
-      .gt('expires_at', new Date().toISOString())
-      .single()
-
-    if (error || !data) {
-      return null
-    }
-
-    return data.response
-  }
-
-  private async saveToCache(promptHash: string, response: string, model: string): Promise<void> {
-    const expiresAt = new Date()
-    expiresAt.setHours(expiresAt.getHours() + CACHE_EXPIRY_HOURS)
-
-    await this.supabase.from('llm_cache').upsert({
-      prompt_hash: promptHash,
-      response,
-      model,
-      expires_at: expiresAt.toISOString(),
-    })
-  }
-
   private async retrieveContext(
     query: string,
     sourceVersion: string,
     targetVersion: string,
-    limit: number
-  ): Promise<{ context: string; sourcesUsed: number }> {
+    limit: number,
+    rerank: boolean
+  ): Promise<{ context: string; sources: CitedSource[] }> {
     if (!this.retriever) {
-      return { context: 'No RAG context available.', sourcesUsed: 0 }
+      return { context: 'No RAG context available.', sources: [] }
     }
 
+    const reranker = rerank ? this.reranker : null
+    const perVersionLimit = Math.ceil(limit / 2) * (reranker ? RERANK_CANDIDATE_MULTIPLIER : 1)
+
     try {
       // Retrieve from both source and target versions
-      const [sourceDocs, targetDocs] = await Promise.all([
-        this.retriever.retrieve(query, { filterVersion: sourceVersion as any, limit: Math.ceil(limit / 2) }),
-        this.retriever.retrieve(query, { filterVersion: targetVersion as any, limit: Math.ceil(limit / 2) }),
+      const [sourceDocs, targetDocs, lifecycleDocs] = await Promise.all([
+        this.retriever.retrieve(query, { filterVersion: sourceVersion as any, limit: perVersionLimit }),
+        this.retriever.retrieve(query, { filterVersion: targetVersion as any, limit: perVersionLimit }),
+        this.retrieveLifecycleChanges(query, sourceVersion, targetVersion, perVersionLimit),
       ])
 
-      const allDocs = [...sourceDocs, ...targetDocs]
-        .sort((a, b) => b.similarity - a.similarity)
-        .slice(0, limit)
+      // 같은 청크가 여러 경로로 검색된 경우 한 번만 포함
+      const candidates = [
+        ...new Map([...sourceDocs, ...targetDocs, ...lifecycleDocs].map((doc) => [doc.id, doc])).values(),
+      ].sort((a, b) => b.score - a.score)
+
+      // 주변 페이지가 섞이지 않도록 질의 기준으로 다시 점수화
+      const allDocs = (reranker ? await reranker.rerank(query, candidates) : candidates).slice(0, limit)
 
       if (allDocs.length === 0) {
-        return { context: 'No relevant documents found in knowledge base.', sourcesUsed: 0 }
+        return { context: 'No relevant documents found in knowledge base.', sources: [] }
       }
 
       const context = this.retriever.formatContextForLLM(allDocs)
-      return { context, sourcesUsed: allDocs.length }
+      return { context, sources: toCitedSources(allDocs) }
     } catch {
-      return { context: 'RAG retrieval failed.', sourcesUsed: 0 }
+      return { context: 'RAG retrieval failed.', sources: [] }
+    }
+  }
+
+  /**
+   * 업그레이드 시 source에서 유효했지만 target까지 제거/폐기된 내용 (청크 버전 표기 기준)
+   * 마이그레이션에서 깨지는 부분이므로 일반 검색과 별도로 가져옴
+   */
+  private async retrieveLifecycleChanges(
+    query: string,
+    sourceVersion: string,
+    targetVersion: string,
+    limit: number
+  ): Promise<RetrievedDocument[]> {
+    if (
+      !this.retriever ||
+      !isCppVersionId(sourceVersion) ||
+      !isCppVersionId(targetVersion) ||
+      compareVersions(sourceVersion, targetVersion) >= 0
+    ) {
+      return []
     }
+
+    const validIn = sourceVersion
+    const changedBy = targetVersion
+    const [removed, deprecated] = await Promise.all([
+      this.retriever.retrieve(query, { filterVersion: validIn, lifecycle: { validIn, removedBy: changedBy }, limit }),
+      this.retriever.retrieve(query, { filterVersion: validIn, lifecycle: { validIn, deprecatedBy: changedBy }, limit }),
+    ])
+    return [...removed, ...deprecated]
   }
 
   async generate(request: GenerationRequest): Promise<GenerationResult> {
@@ -101,9 +132,9 @@ export class DocumentGenerator {
     const useRag = options.useRag !== false
 
     // Retrieve RAG context
-    const { context: ragContext, sourcesUsed } = useRag
-      ? await this.retrieveContext(ragQuery, sourceVersion, targetVersion, ragLimit)
-      : { context: 'RAG disabled.', sourcesUsed: 0 }
+    const { context: ragContext, sources } = useRag
+      ? await this.retrieveContext(ragQuery, sourceVersion, targetVersion, ragLimit, options.rerank !== false)
+      : { context: 'RAG disabled.', sources: [] as CitedSource[] }
 
     // Build prompt based on type
     let userPrompt: string
@@ -136,23 +167,40 @@ export class DocumentGenerator {
       userPrompt = promptBuilder(promptContext)
     }
 
-    // Check cache
-    const fullPrompt = `${systemPrompt}\n\n${userPrompt}`
+    // Check cache (모델별로 응답을 분리)
+    const fullPrompt = `${this.llmProvider.model}\n\n${systemPrompt}\n\n${userPrompt}`
     const promptHash = this.hashPrompt(fullPrompt)
-    const cachedResponse = await this.checkCache(promptHash)
+    const cacheMode = options.cacheMode ?? 'use'
+    const cache = cacheMode === 'bypass' ? null : this.cache
+
+    if (cache && cacheMode === 'invalidate') {
+      await cache.delete(promptHash)
+    }
+
+    const cachedEntry = cache && cacheMode === 'use' ? await cache.get(promptHash) : null
 
     let content: string
     let cached = false
+    let provider = this.llmProvider.name
+    let model = this.llmProvider.model
+    let usage = { inputTokens: 0, outputTokens: 0 }
 
-    if (cachedResponse) {
-      content = cachedResponse
+    if (cachedEntry) {
+      content = cachedEntry.response
+      model = cachedEntry.model
       cached = true
     } else {
       // Generate with LLM
-      content = await this.llmProvider.generate(userPrompt, [systemPrompt])
+      const response = await this.llmProvider.generateWithUsage(userPrompt, [systemPrompt])
+      content = response.content
+      provider = response.provider
+      model = response.model
+      usage = response.usage
 
       // Save to cache
-      await this.saveToCache(promptHash, content, this.llmProvider.name)
+      if (cache) {
+        await cache.set(promptHash, content, model, getCacheTtlMs(code ? 'code_modernization' : docType))
+      }
     }
 
     const generationTimeMs = Date.now() - startTime
@@ -162,12 +210,41 @@ export class DocumentGenerator {
       sourceVersion,
       targetVersion,
       docType,
-      content,
+      // 캐시에는 원본 응답을 저장하고 [n] 링크 변환은 매번 적용
+      content: linkCitations(content, sources),
       format: 'markdown',
-      ragSourcesUsed: sourcesUsed,
+      provider,
+      model,
+      usage,
+      ragSourcesUsed: sources.length,
+      sources,
       generationTimeMs,
       cached,
       createdAt: new Date(),
     }
   }
+
+  /**
+   * 원본/현대화 코드의 변경 목록을 구조화 출력으로 생성
+   */
+  async explainChanges(request: ChangeListRequest): Promise<ChangeListResult> {
+    const prompt = buildModernizationChangesPrompt({
+      sourceVersion: request.sourceVersion,
+      targetVersion: request.targetVersion,
+      outputLanguage: request.outputLanguage,
+      oldCode: request.originalCode,
+      newCode: extractCodeBlock(request.modernizedContent),
+    })
+
+    const response = await this.llmProvider.generateStructured(prompt, modernizationChangesSchema, {
+      context: [SYSTEM_PROMPTS.base],
+    })
+
+    return {
+      changes: response.data.changes,
+      provider: response.provider,
+      model: response.model,
+      usage: response.usage,
+    }
+  }
 }
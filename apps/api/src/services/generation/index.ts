@@ -1,2 +1,3 @@
 export * from './types.js'
 export { DocumentGenerator } from './generator.js'
+export * from './changes.js'
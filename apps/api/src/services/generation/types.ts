@@ -1,4 +1,8 @@
 import type { CppVersionId, DocType, TargetLevel, OutputLanguage, DocFormat } from '@shuguridan/shared'
+import type { LLMUsage } from '../llm/types.js'
+import type { CacheMode } from '../cache/types.js'
+import type { CitedSource } from '../rag/types.js'
+import type { ModernizationChange } from './changes.js'
 
 export interface GenerationRequest {
   sourceVersion: CppVersionId
@@ -15,6 +19,8 @@ export interface GenerationOptions {
   outputFormat: 'bullet' | 'table' | 'prose' | 'mixed'
   useRag?: boolean
   ragLimit?: number
+  cacheMode?: CacheMode // 기본: 'use'
+  rerank?: boolean // 재순위화 사용 여부 (reranker가 설정된 경우, 기본: true)
 }
 
 export interface GenerationResult {
@@ -24,16 +30,28 @@ export interface GenerationResult {
   docType: DocType
   content: string
   format: DocFormat
+  provider: string
+  model: string
+  usage: LLMUsage // 캐시 적중 시 0
   ragSourcesUsed: number
+  sources: CitedSource[] // 컨텍스트에 [n] 번호로 제공된 출처 (content의 [n] 링크 대상)
   generationTimeMs: number
   cached: boolean
   createdAt: Date
 }
 
-export interface CacheEntry {
-  promptHash: string
-  response: string
+
+export interface ChangeListRequest {
+  sourceVersion: CppVersionId
+  targetVersion: CppVersionId
+  outputLanguage: OutputLanguage
+  originalCode: string
+  modernizedContent: string // 현대화 응답 (마크다운 가능)
+}
+
+export interface ChangeListResult {
+  changes: ModernizationChange[]
+  provider: string
   model: string
-  createdAt: Date
-  expiresAt: Date
+  usage: LLMUsage
 }
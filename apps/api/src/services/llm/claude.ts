@@ -1,5 +1,16 @@
 import Anthropic from '@anthropic-ai/sdk'
-import type { LLMProvider } from './types.js'
+import type {
+  ChatMessage,
+  LLMProvider,
+  LLMResponse,
+  OutputSchema,
+  StructuredOptions,
+  StructuredResponse,
+  UsageCallback,
+} from './types.js'
+import { generateStructuredOutput } from './structured.js'
+import { resolveMaxTokens } from './models.js'
+import { DEFAULT_SYSTEM_PROMPT, buildChatSystemPrompt, buildUserPrompt } from './prompt.js'
 
 // Claude API 모델 ID (2025년 기준)
 // - claude-sonnet-4-5-20250929: 최신 Sonnet 4.5 (권장, 64K max output)
@@ -9,45 +20,62 @@ import type { LLMProvider } from './types.js'
 const DEFAULT_MODEL = 'claude-sonnet-4-5-20250929'
 const DEFAULT_MAX_TOKENS = 16384 // 기본 16K (최대 64K까지 가능)
 
-const DEFAULT_SYSTEM_PROMPT =
-  'You are a C++ expert specializing in language standard migrations. Only provide answers based on official C++ standard documentation. If uncertain, say so.'
-
-export interface ChatMessage {
-  role: 'user' | 'assistant'
-  content: string
-}
-
 export class ClaudeProvider implements LLMProvider {
   name = 'claude'
+  readonly model: string
   private client: Anthropic
-  private model: string
   private maxTokens: number
+  private temperature?: number
 
-  constructor(apiKey: string, model = DEFAULT_MODEL, maxTokens = DEFAULT_MAX_TOKENS) {
+  constructor(
+    apiKey: string,
+    model = DEFAULT_MODEL,
+    maxTokens = DEFAULT_MAX_TOKENS,
+    temperature?: number
+  ) {
     this.client = new Anthropic({ apiKey })
     this.model = model
-    this.maxTokens = maxTokens
+    this.maxTokens = resolveMaxTokens(model, maxTokens)
+    this.temperature = temperature
   }
 
-  async generate(prompt: string, context?: string[]): Promise<string> {
-    const contextStr = context?.length
-      ? `\n\n[CONTEXT]\n${context.join('\n\n')}`
-      : ''
+  async generate(prompt: string, context?: string[], systemPrompt?: string): Promise<string> {
+    const response = await this.generateWithUsage(prompt, context, systemPrompt)
+    return response.content
+  }
 
+  async generateWithUsage(prompt: string, context?: string[], systemPrompt?: string): Promise<LLMResponse> {
     const response = await this.client.messages.create({
       model: this.model,
       max_tokens: this.maxTokens,
+      temperature: this.temperature,
       messages: [
         {
           role: 'user',
-          content: prompt + contextStr,
+          content: buildUserPrompt(prompt, context),
         },
       ],
-      system: DEFAULT_SYSTEM_PROMPT,
+      system: systemPrompt || DEFAULT_SYSTEM_PROMPT,
     })
 
     const textBlock = response.content.find((block) => block.type === 'text')
-    return textBlock?.type === 'text' ? textBlock.text : ''
+    return {
+      content: textBlock?.type === 'text' ? textBlock.text : '',
+      provider: this.name,
+      model: response.model,
+      usage: {
+        inputTokens: response.usage.input_tokens,
+        outputTokens: response.usage.output_tokens,
+      },
+    }
+  }
+
+  async generateStructured<T>(
+    prompt: string,
+    schema: OutputSchema<T>,
+    options?: StructuredOptions
+  ): Promise<StructuredResponse<T>> {
+    return generateStructuredOutput(this, prompt, schema, options)
   }
 
   /**
@@ -57,26 +85,18 @@ export class ClaudeProvider implements LLMProvider {
   async *generateStream(
     messages: ChatMessage[],
     context?: string[],
-    systemPrompt?: string
+    systemPrompt?: string,
+    onUsage?: UsageCallback
   ): AsyncGenerator<string, void, unknown> {
-    const contextStr = context?.length
-      ? `\n\n[참고 문서]\n${context.join('\n\n---\n\n')}`
-      : ''
-
-    // 시스템 프롬프트에 컨텍스트 추가
-    const fullSystemPrompt = systemPrompt || DEFAULT_SYSTEM_PROMPT
-    const systemWithContext = contextStr
-      ? `${fullSystemPrompt}\n\n다음은 참고할 수 있는 문서입니다:${contextStr}`
-      : fullSystemPrompt
-
     const stream = await this.client.messages.stream({
       model: this.model,
       max_tokens: this.maxTokens,
+      temperature: this.temperature,
       messages: messages.map((m) => ({
         role: m.role,
         content: m.content,
       })),
-      system: systemWithContext,
+      system: buildChatSystemPrompt(systemPrompt, context),
     })
 
     for await (const event of stream) {
@@ -87,5 +107,17 @@ export class ClaudeProvider implements LLMProvider {
         yield event.delta.text
       }
     }
+
+    if (onUsage) {
+      const finalMessage = await stream.finalMessage()
+      onUsage({
+        provider: this.name,
+        model: finalMessage.model,
+        usage: {
+          inputTokens: finalMessage.usage.input_tokens,
+          outputTokens: finalMessage.usage.output_tokens,
+        },
+      })
+    }
   }
 }
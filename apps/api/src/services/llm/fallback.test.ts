@@ -0,0 +1,144 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { CircuitBreaker, FallbackLLMProvider, isRetryableError } from './fallback.js'
+import type { LLMProvider, LLMResponse } from './types.js'
+
+function apiError(status: number): Error & { status: number } {
+  return Object.assign(new Error(`HTTP ${status}`), { status })
+}
+
+/**
+ * 호출마다 results를 순서대로 소비하는 테스트용 프로바이더 (Error면 throw)
+ */
+function fakeProvider(name: string, results: Array<string | Error>): LLMProvider & { calls: number } {
+  const provider = {
+    name,
+    model: `${name}-model`,
+    calls: 0,
+    async generate(prompt: string) {
+      return (await provider.generateWithUsage(prompt)).content
+    },
+    async generateWithUsage(_prompt?: string): Promise<LLMResponse> {
+      const result = results[Math.min(provider.calls++, results.length - 1)]
+      if (result instanceof Error) throw result
+      return { content: result, provider: name, model: provider.model, usage: { inputTokens: 1, outputTokens: 1 } }
+    },
+    generateStructured: () => Promise.reject(new Error('not implemented')),
+    async *generateStream() {
+      yield (await provider.generateWithUsage()).content
+    },
+  }
+  return provider
+}
+
+// 브레이커 상태는 name:model 단위로 모듈에 남으므로 테스트마다 고유한 이름 사용
+let providerId = 0
+function uniqueName(): string {
+  return `test-${++providerId}`
+}
+
+const noDelay = { baseDelayMs: 0, maxDelayMs: 0 }
+
+describe('CircuitBreaker', () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('opens after the failure threshold and half-opens after the reset timeout', () => {
+    vi.useFakeTimers()
+    const breaker = new CircuitBreaker(2, 1000)
+
+    breaker.recordFailure()
+    expect(breaker.getState()).toBe('closed')
+    breaker.recordFailure()
+    expect(breaker.getState()).toBe('open')
+    expect(breaker.canRequest()).toBe(false)
+
+    vi.advanceTimersByTime(1000)
+    expect(breaker.getState()).toBe('half-open')
+
+    // half-open에서 한 번 실패하면 다시 open
+    breaker.recordFailure()
+    expect(breaker.getState()).toBe('open')
+  })
+
+  it('closes and resets the failure count on success', () => {
+    const breaker = new CircuitBreaker(2, 1000)
+
+    breaker.recordFailure()
+    breaker.recordSuccess()
+    breaker.recordFailure()
+    expect(breaker.getState()).toBe('closed')
+  })
+})
+
+describe('isRetryableError', () => {
+  it('retries rate limits, conflicts, timeouts and server errors', () => {
+    for (const status of [408, 409, 429, 500, 503]) {
+      expect(isRetryableError(apiError(status))).toBe(true)
+    }
+  })
+
+  it('does not retry client errors', () => {
+    for (const status of [400, 401, 403, 404, 422]) {
+      expect(isRetryableError(apiError(status))).toBe(false)
+    }
+  })
+
+  it('retries connection failures', () => {
+    expect(isRetryableError(Object.assign(new Error('timeout'), { name: 'APIConnectionTimeoutError' }))).toBe(true)
+    expect(isRetryableError(new TypeError('fetch failed'))).toBe(true)
+    expect(isRetryableError('boom')).toBe(false)
+  })
+})
+
+describe('FallbackLLMProvider', () => {
+  it('retries retryable errors on the same provider', async () => {
+    const primary = fakeProvider(uniqueName(), [apiError(503), apiError(429), 'ok'])
+    const llm = new FallbackLLMProvider([primary], { maxRetries: 2, ...noDelay })
+
+    await expect(llm.generate('prompt')).resolves.toBe('ok')
+    expect(primary.calls).toBe(3)
+  })
+
+  it('falls back to the next provider once retries are exhausted', async () => {
+    const primary = fakeProvider(uniqueName(), [apiError(500)])
+    const secondary = fakeProvider(uniqueName(), ['from secondary'])
+    const llm = new FallbackLLMProvider([primary, secondary], { maxRetries: 1, ...noDelay })
+
+    const response = await llm.generateWithUsage('prompt')
+    expect(response.content).toBe('from secondary')
+    expect(response.provider).toBe(secondary.name)
+    expect(primary.calls).toBe(2)
+  })
+
+  it('does not retry non-retryable errors', async () => {
+    const primary = fakeProvider(uniqueName(), [apiError(400)])
+    const llm = new FallbackLLMProvider([primary], { maxRetries: 3, ...noDelay })
+
+    await expect(llm.generate('prompt')).rejects.toMatchObject({ status: 400 })
+    expect(primary.calls).toBe(1)
+  })
+
+  it('does not open the circuit for bad requests', async () => {
+    const primary = fakeProvider(uniqueName(), [apiError(400), apiError(400), apiError(400), 'ok'])
+    const llm = new FallbackLLMProvider([primary], { failureThreshold: 2, ...noDelay })
+
+    for (let i = 0; i < 3; i++) {
+      await expect(llm.generate('bad prompt')).rejects.toMatchObject({ status: 400 })
+    }
+    await expect(llm.generate('prompt')).resolves.toBe('ok')
+  })
+
+  it('skips a provider whose circuit is open', async () => {
+    const primary = fakeProvider(uniqueName(), [apiError(503)])
+    const secondary = fakeProvider(uniqueName(), ['from secondary'])
+    const llm = new FallbackLLMProvider([primary, secondary], { maxRetries: 0, failureThreshold: 1, ...noDelay })
+
+    await llm.generate('prompt')
+    expect(primary.calls).toBe(1)
+
+    await expect(llm.generate('prompt')).resolves.toBe('from secondary')
+    expect(primary.calls).toBe(1)
+    expect(llm.model).toBe(secondary.model)
+  })
+})
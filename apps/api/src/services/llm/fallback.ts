@@ -0,0 +1,261 @@
+import type {
+  ChatMessage,
+  LLMProvider,
+  LLMResponse,
+  OutputSchema,
+  StructuredOptions,
+  StructuredResponse,
+  UsageCallback,
+} from './types.js'
+import { generateStructuredOutput } from './structured.js'
+
+const DEFAULT_MAX_RETRIES = 3
+const DEFAULT_BASE_DELAY_MS = 1000
+const DEFAULT_MAX_DELAY_MS = 30000
+const DEFAULT_FAILURE_THRESHOLD = 5
+const DEFAULT_RESET_TIMEOUT_MS = 60000
+
+export interface FallbackOptions {
+  maxRetries?: number // 프로바이더당 재시도 횟수 (첫 시도 제외)
+  baseDelayMs?: number
+  maxDelayMs?: number
+  failureThreshold?: number // 연속 실패 시 회로 차단
+  resetTimeoutMs?: number // 차단 후 half-open까지 대기 시간
+}
+
+type CircuitState = 'closed' | 'open' | 'half-open'
+
+/**
+ * 프로바이더별 서킷 브레이커
+ * 연속 실패가 임계값을 넘으면 open 상태로 전환되어 resetTimeout 동안 요청을 건너뜀
+ * 재시도 가능한 오류(5xx, 429, 타임아웃, 네트워크)만 실패로 기록 - 잘못된 요청(400 등)은 프로바이더 장애가 아님
+ */
+export class CircuitBreaker {
+  private state: CircuitState = 'closed'
+  private failures = 0
+  private openedAt = 0
+  private failureThreshold: number
+  private resetTimeoutMs: number
+
+  constructor(failureThreshold = DEFAULT_FAILURE_THRESHOLD, resetTimeoutMs = DEFAULT_RESET_TIMEOUT_MS) {
+    this.failureThreshold = failureThreshold
+    this.resetTimeoutMs = resetTimeoutMs
+  }
+
+  canRequest(): boolean {
+    if (this.state === 'open' && Date.now() - this.openedAt >= this.resetTimeoutMs) {
+      this.state = 'half-open'
+    }
+    return this.state !== 'open'
+  }
+
+  recordSuccess(): void {
+    this.state = 'closed'
+    this.failures = 0
+  }
+
+  recordFailure(): void {
+    this.failures++
+    if (this.state === 'half-open' || this.failures >= this.failureThreshold) {
+      this.state = 'open'
+      this.openedAt = Date.now()
+    }
+  }
+
+  getState(): CircuitState {
+    this.canRequest()
+    return this.state
+  }
+}
+
+// 프로바이더 인스턴스는 요청마다 생성되므로 브레이커 상태는 모듈 단위로 유지
+const breakers = new Map<string, CircuitBreaker>()
+
+function getBreaker(provider: LLMProvider, options: FallbackOptions): CircuitBreaker {
+  const key = `${provider.name}:${provider.model}`
+  let breaker = breakers.get(key)
+  if (!breaker) {
+    breaker = new CircuitBreaker(options.failureThreshold, options.resetTimeoutMs)
+    breakers.set(key, breaker)
+  }
+  return breaker
+}
+
+/**
+ * 서킷 브레이커 상태 조회 (모니터링용)
+ */
+export function getCircuitStates(): Record<string, CircuitState> {
+  const states: Record<string, CircuitState> = {}
+  for (const [key, breaker] of breakers) {
+    states[key] = breaker.getState()
+  }
+  return states
+}
+
+/**
+ * 재시도할 가치가 있는 오류인지 판단 (429, 5xx, 네트워크 오류)
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (typeof error !== 'object' || error === null) return false
+
+  const status = (error as { status?: unknown }).status
+  if (typeof status === 'number') {
+    return status === 408 || status === 409 || status === 429 || status >= 500
+  }
+
+  // SDK 연결 오류 / fetch 실패 / 타임아웃
+  const name = (error as { name?: unknown }).name
+  return (
+    name === 'APIConnectionError' ||
+    name === 'APIConnectionTimeoutError' ||
+    name === 'AbortError' ||
+    error instanceof TypeError
+  )
+}
+
+/**
+ * Full jitter exponential backoff
+ */
+function getBackoffDelay(attempt: number, baseDelayMs: number, maxDelayMs: number): number {
+  const exponential = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt)
+  return Math.floor(Math.random() * exponential)
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms))
+}
+
+/**
+ * Composite LLM provider
+ * 각 프로바이더를 순서대로 시도하며, 재시도 가능한 오류는 지터 백오프로 재시도하고
+ * 서킷이 열렸거나 재시도를 소진하면 다음 프로바이더로 넘어감
+ */
+export class FallbackLLMProvider implements LLMProvider {
+  name = 'fallback'
+  private providers: LLMProvider[]
+  private options: Required<FallbackOptions>
+
+  constructor(providers: LLMProvider[], options: FallbackOptions = {}) {
+    if (providers.length === 0) {
+      throw new Error('FallbackLLMProvider requires at least one provider')
+    }
+    this.providers = providers
+    this.options = {
+      maxRetries: options.maxRetries ?? DEFAULT_MAX_RETRIES,
+      baseDelayMs: options.baseDelayMs ?? DEFAULT_BASE_DELAY_MS,
+      maxDelayMs: options.maxDelayMs ?? DEFAULT_MAX_DELAY_MS,
+      failureThreshold: options.failureThreshold ?? DEFAULT_FAILURE_THRESHOLD,
+      resetTimeoutMs: options.resetTimeoutMs ?? DEFAULT_RESET_TIMEOUT_MS,
+    }
+  }
+
+  /**
+   * 현재 우선 사용될 프로바이더의 모델 (서킷이 열린 프로바이더는 건너뜀)
+   */
+  get model(): string {
+    return this.getPrimary().model
+  }
+
+  private getPrimary(): LLMProvider {
+    return (
+      this.providers.find((p) => getBreaker(p, this.options).canRequest()) ?? this.providers[0]
+    )
+  }
+
+  async generate(prompt: string, context?: string[], systemPrompt?: string): Promise<string> {
+    const response = await this.generateWithUsage(prompt, context, systemPrompt)
+    return response.content
+  }
+
+  async generateWithUsage(prompt: string, context?: string[], systemPrompt?: string): Promise<LLMResponse> {
+    return this.withFallback((provider) => provider.generateWithUsage(prompt, context, systemPrompt))
+  }
+
+  /**
+   * 수정 요청도 generateWithUsage를 거치므로 각 시도마다 재시도/폴백이 적용됨
+   */
+  async generateStructured<T>(
+    prompt: string,
+    schema: OutputSchema<T>,
+    options?: StructuredOptions
+  ): Promise<StructuredResponse<T>> {
+    return generateStructuredOutput(this, prompt, schema, options)
+  }
+
+  /**
+   * 스트리밍은 첫 청크를 받기 전까지만 재시도/폴백 가능
+   * (이미 전송된 청크는 되돌릴 수 없으므로 이후 오류는 그대로 전파)
+   */
+  async *generateStream(
+    messages: ChatMessage[],
+    context?: string[],
+    systemPrompt?: string,
+    onUsage?: UsageCallback
+  ): AsyncGenerator<string, void, unknown> {
+    let lastError: unknown = new Error('All LLM providers are unavailable')
+
+    for (const provider of this.providers) {
+      const breaker = getBreaker(provider, this.options)
+      if (!breaker.canRequest()) continue
+
+      for (let attempt = 0; attempt <= this.options.maxRetries; attempt++) {
+        let started = false
+        try {
+          for await (const chunk of provider.generateStream(messages, context, systemPrompt, onUsage)) {
+            started = true
+            yield chunk
+          }
+          breaker.recordSuccess()
+          return
+        } catch (error) {
+          lastError = error
+          const retryable = isRetryableError(error)
+          if (started) {
+            if (retryable) breaker.recordFailure()
+            throw error
+          }
+          if (!retryable) break
+          if (attempt < this.options.maxRetries) {
+            await sleep(getBackoffDelay(attempt, this.options.baseDelayMs, this.options.maxDelayMs))
+          } else {
+            breaker.recordFailure()
+          }
+        }
+      }
+    }
+
+    throw lastError
+  }
+
+  private async withFallback<T>(call: (provider: LLMProvider) => Promise<T>): Promise<T> {
+    let lastError: unknown = new Error('All LLM providers are unavailable')
+
+    for (const provider of this.providers) {
+      const breaker = getBreaker(provider, this.options)
+      if (!breaker.canRequest()) continue
+
+      for (let attempt = 0; attempt <= this.options.maxRetries; attempt++) {
+        try {
+          const result = await call(provider)
+          breaker.recordSuccess()
+          return result
+        } catch (error) {
+          lastError = error
+          if (!isRetryableError(error)) {
+            // 인증 오류/잘못된 요청은 재시도해도 같은 결과이므로 바로 다음 프로바이더로 (브레이커에는 기록 안 함)
+            break
+          }
+          if (attempt < this.options.maxRetries) {
+            await sleep(getBackoffDelay(attempt, this.options.baseDelayMs, this.options.maxDelayMs))
+          } else {
+            breaker.recordFailure()
+          }
+        }
+      }
+
+      console.warn(`LLM provider ${provider.name} (${provider.model}) failed, trying next provider`)
+    }
+
+    throw lastError
+  }
+}
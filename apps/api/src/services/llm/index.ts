@@ -1,25 +1,225 @@
 import { ClaudeProvider } from './claude.js'
 import { OpenAIProvider } from './openai.js'
-import type { LLMConfig, LLMProvider } from './types.js'
+import { LocalLLMProvider } from './local.js'
+import { FallbackLLMProvider } from './fallback.js'
+import { getMaxTemperature, getModelInfo, listModels, type ModelInfo } from './models.js'
+import type { LLMConfig, LLMOverrides, LLMProvider } from './types.js'
+
+const DEFAULT_ANTHROPIC_MODEL = 'claude-sonnet-4-5-20250929'
+const DEFAULT_OPENAI_MODEL = 'gpt-4-turbo-preview'
+const DEFAULT_LOCAL_MODEL = 'local-model'
 
 export function createLLMProvider(config: LLMConfig): LLMProvider {
   switch (config.provider) {
     case 'anthropic':
       if (!config.apiKey) throw new Error('Anthropic API key required')
-      return new ClaudeProvider(config.apiKey, config.model)
+      return new ClaudeProvider(config.apiKey, config.model, config.maxTokens, config.temperature)
 
     case 'openai':
       if (!config.apiKey) throw new Error('OpenAI API key required')
-      return new OpenAIProvider(config.apiKey, config.model)
+      return new OpenAIProvider(config.apiKey, config.model, config.maxTokens, config.temperature)
 
     case 'local':
-      throw new Error('Local LLM not yet implemented')
+      if (!config.baseUrl) throw new Error('Local LLM base URL required')
+      return new LocalLLMProvider(config.baseUrl, config.model, {
+        apiKey: config.apiKey,
+        temperature: config.temperature,
+        maxTokens: config.maxTokens,
+      })
 
     default:
       throw new Error(`Unknown provider: ${config.provider}`)
   }
 }
 
+type SamplingOverrides = Pick<LLMOverrides, 'temperature' | 'maxTokens'>
+
+/**
+ * 환경 변수 기반 프로바이더별 기본 설정 (키/주소가 없으면 null)
+ */
+function getProviderConfig(
+  provider: LLMConfig['provider'],
+  sampling: SamplingOverrides,
+  model?: string
+): LLMConfig | null {
+  switch (provider) {
+    case 'anthropic': {
+      const apiKey = process.env.ANTHROPIC_API_KEY
+      return apiKey
+        ? { provider, apiKey, model: model || DEFAULT_ANTHROPIC_MODEL, ...sampling }
+        : null
+    }
+
+    case 'openai': {
+      const apiKey = process.env.OPENAI_API_KEY
+      return apiKey
+        ? { provider, apiKey, model: model || DEFAULT_OPENAI_MODEL, ...sampling }
+        : null
+    }
+
+    case 'local': {
+      const baseUrl = process.env.LOCAL_LLM_BASE_URL
+      return baseUrl
+        ? {
+            provider,
+            baseUrl,
+            apiKey: process.env.LOCAL_LLM_API_KEY,
+            model: model || process.env.LOCAL_LLM_MODEL || DEFAULT_LOCAL_MODEL,
+            ...sampling,
+          }
+        : null
+    }
+
+    default:
+      return null
+  }
+}
+
+/**
+ * Get default LLM config from environment
+ * LLM_PROVIDER가 지정되지 않으면 Anthropic → OpenAI → Local 순으로 선택
+ * overrides.model이 레지스트리에 있으면 해당 모델의 프로바이더를 사용
+ * 모델이 허용하지 않는 temperature는 에러 (Anthropic 모델은 1 이하)
+ */
+export function getDefaultLLMConfig(overrides: LLMOverrides = {}): LLMConfig | null {
+  const config = resolveLLMConfig(overrides)
+
+  if (config?.temperature !== undefined) {
+    const maxTemperature = getMaxTemperature(config.model, config.provider)
+    if (config.temperature > maxTemperature) {
+      throw new Error(`Temperature for ${config.model} must be between 0 and ${maxTemperature}`)
+    }
+  }
+
+  return config
+}
+
+function resolveLLMConfig(overrides: LLMOverrides): LLMConfig | null {
+  const provider = process.env.LLM_PROVIDER
+  const sampling: SamplingOverrides = {
+    temperature: overrides.temperature,
+    maxTokens: overrides.maxTokens,
+  }
+
+  const modelInfo = overrides.model ? getModelInfo(overrides.model) : undefined
+
+  if (modelInfo) {
+    const config = getProviderConfig(modelInfo.provider, sampling, modelInfo.id)
+    if (!config) {
+      const keyName = modelInfo.provider === 'anthropic' ? 'ANTHROPIC_API_KEY' : 'OPENAI_API_KEY'
+      throw new Error(`Model ${modelInfo.id} requires ${keyName}`)
+    }
+    return config
+  }
+
+  const localConfig = getProviderConfig('local', sampling, overrides.model)
+
+  if (provider === 'local') {
+    if (!localConfig) {
+      console.warn('Local LLM provider selected but LOCAL_LLM_BASE_URL not set')
+    }
+    return localConfig
+  }
+
+  // 레지스트리에 없는 모델 ID는 로컬 서버에서만 의미가 있음
+  if (overrides.model) {
+    if (!localConfig) {
+      throw new Error(`Unknown model: ${overrides.model}`)
+    }
+    return localConfig
+  }
+
+  if (provider !== 'openai') {
+    const anthropicConfig = getProviderConfig('anthropic', sampling)
+    if (anthropicConfig) return anthropicConfig
+  }
+
+  return getProviderConfig('openai', sampling) ?? localConfig
+}
+
+/**
+ * LLM_FALLBACK_PROVIDERS(쉼표 구분, 예: "openai,local")에 지정된 보조 프로바이더 설정
+ * 보조 프로바이더는 요청 모델이 아닌 각자의 기본 모델을 사용 (temperature는 해당 모델 상한으로 제한)
+ */
+function getFallbackLLMConfigs(primary: LLMConfig, overrides: LLMOverrides): LLMConfig[] {
+  const names = (process.env.LLM_FALLBACK_PROVIDERS || '')
+    .split(',')
+    .map((name) => name.trim())
+    .filter((name) => name.length > 0 && name !== primary.provider)
+
+  const sampling: SamplingOverrides = {
+    temperature: overrides.temperature,
+    maxTokens: overrides.maxTokens,
+  }
+
+  const configs: LLMConfig[] = []
+  for (const name of names) {
+    const config = getProviderConfig(name as LLMConfig['provider'], sampling)
+    if (config) {
+      if (config.temperature !== undefined) {
+        config.temperature = Math.min(config.temperature, getMaxTemperature(config.model, config.provider))
+      }
+      configs.push(config)
+    } else {
+      console.warn(`Fallback LLM provider ${name} is not configured, skipping`)
+    }
+  }
+  return configs
+}
+
+/**
+ * LLM_MAX_RETRIES (0 이상의 정수, 잘못된 값이면 기본값)
+ */
+function getMaxRetries(): number | undefined {
+  const value = process.env.LLM_MAX_RETRIES
+  if (!value) return undefined
+
+  const parsed = Number(value)
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    console.warn(`Invalid LLM_MAX_RETRIES "${value}", using the default`)
+    return undefined
+  }
+  return parsed
+}
+
+/**
+ * Get default LLM provider from environment
+ * 재시도/백오프/서킷 브레이커가 적용된 폴백 체인으로 감싸서 반환
+ */
+export function getDefaultLLMProvider(overrides: LLMOverrides = {}): LLMProvider | null {
+  const config = getDefaultLLMConfig(overrides)
+  if (!config) return null
+
+  const providers = [config, ...getFallbackLLMConfigs(config, overrides)].map(createLLMProvider)
+
+  return new FallbackLLMProvider(providers, {
+    maxRetries: getMaxRetries(),
+  })
+}
+
+/**
+ * 현재 환경에서 사용 가능한 모델 목록
+ */
+export function getAvailableModels(): Array<ModelInfo & { available: boolean }> {
+  const configured: Record<LLMConfig['provider'], boolean> = {
+    anthropic: !!process.env.ANTHROPIC_API_KEY,
+    openai: !!process.env.OPENAI_API_KEY,
+    local: !!process.env.LOCAL_LLM_BASE_URL,
+  }
+
+  return listModels().map((model) => ({
+    ...model,
+    available: configured[model.provider],
+  }))
+}
+
 export * from './types.js'
+export * from './models.js'
+export { generateStructuredOutput, extractJsonFromResponse, StructuredOutputError } from './structured.js'
+export { DEFAULT_SYSTEM_PROMPT } from './prompt.js'
+export { OpenAICompatibleProvider } from './openai-compatible.js'
 export { ClaudeProvider } from './claude.js'
 export { OpenAIProvider } from './openai.js'
+export { LocalLLMProvider } from './local.js'
+export { FallbackLLMProvider, CircuitBreaker, getCircuitStates, isRetryableError } from './fallback.js'
+export type { FallbackOptions } from './fallback.js'
@@ -0,0 +1,29 @@
+import OpenAI from 'openai'
+import { OpenAICompatibleProvider } from './openai-compatible.js'
+
+// OpenAI 호환 엔드포인트(vLLM, Ollama, llama.cpp server, LM Studio 등)를 위한 기본값
+const DEFAULT_MAX_TOKENS = 4096
+// 대부분의 로컬 서버는 API 키를 검사하지 않지만 SDK는 빈 값을 허용하지 않음
+const PLACEHOLDER_API_KEY = 'local'
+
+export interface LocalLLMOptions {
+  apiKey?: string
+  temperature?: number
+  maxTokens?: number
+}
+
+/**
+ * Self-hosted / on-prem LLM provider
+ * OpenAI Chat Completions API와 호환되는 HTTP 서버에 연결
+ */
+export class LocalLLMProvider extends OpenAICompatibleProvider {
+  name = 'local'
+
+  constructor(baseUrl: string, model: string, options: LocalLLMOptions = {}) {
+    const client = new OpenAI({
+      apiKey: options.apiKey || PLACEHOLDER_API_KEY,
+      baseURL: baseUrl,
+    })
+    super(client, model, options.maxTokens ?? DEFAULT_MAX_TOKENS, options.temperature)
+  }
+}
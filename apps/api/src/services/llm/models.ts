@@ -0,0 +1,113 @@
+import type { LLMConfig } from './types.js'
+
+export interface ModelInfo {
+  id: string
+  provider: LLMConfig['provider']
+  label: string
+  contextWindow: number // tokens
+  maxOutputTokens: number // tokens
+  inputCostPerToken: number // USD
+  outputCostPerToken: number // USD
+  maxTemperature: number // Anthropic: 0~1, OpenAI: 0~2
+}
+
+// 레지스트리에 없는 모델(로컬 모델 등)의 프로바이더별 temperature 상한
+const PROVIDER_MAX_TEMPERATURE: Record<LLMConfig['provider'], number> = {
+  anthropic: 1,
+  openai: 2,
+  local: 2,
+}
+
+// 가격은 USD / 1M tokens 기준 공시 가격을 토큰 단위로 환산
+const PER_MILLION = 1 / 1_000_000
+
+// 모델 레지스트리
+// 참고: https://platform.claude.com/docs/en/about-claude/models/overview
+//       https://platform.openai.com/docs/models
+export const MODEL_REGISTRY: Record<string, ModelInfo> = {
+  'claude-sonnet-4-5-20250929': {
+    id: 'claude-sonnet-4-5-20250929',
+    provider: 'anthropic',
+    label: 'Claude Sonnet 4.5',
+    contextWindow: 200_000,
+    maxOutputTokens: 64_000,
+    inputCostPerToken: 3 * PER_MILLION,
+    outputCostPerToken: 15 * PER_MILLION,
+    maxTemperature: 1,
+  },
+  'claude-haiku-4-5-20251001': {
+    id: 'claude-haiku-4-5-20251001',
+    provider: 'anthropic',
+    label: 'Claude Haiku 4.5',
+    contextWindow: 200_000,
+    maxOutputTokens: 64_000,
+    inputCostPerToken: 1 * PER_MILLION,
+    outputCostPerToken: 5 * PER_MILLION,
+    maxTemperature: 1,
+  },
+  'claude-opus-4-5-20251101': {
+    id: 'claude-opus-4-5-20251101',
+    provider: 'anthropic',
+    label: 'Claude Opus 4.5',
+    contextWindow: 200_000,
+    maxOutputTokens: 64_000,
+    inputCostPerToken: 5 * PER_MILLION,
+    outputCostPerToken: 25 * PER_MILLION,
+    maxTemperature: 1,
+  },
+  'gpt-4-turbo-preview': {
+    id: 'gpt-4-turbo-preview',
+    provider: 'openai',
+    label: 'GPT-4 Turbo',
+    contextWindow: 128_000,
+    maxOutputTokens: 4_096,
+    inputCostPerToken: 10 * PER_MILLION,
+    outputCostPerToken: 30 * PER_MILLION,
+    maxTemperature: 2,
+  },
+  'gpt-4o': {
+    id: 'gpt-4o',
+    provider: 'openai',
+    label: 'GPT-4o',
+    contextWindow: 128_000,
+    maxOutputTokens: 16_384,
+    inputCostPerToken: 2.5 * PER_MILLION,
+    outputCostPerToken: 10 * PER_MILLION,
+    maxTemperature: 2,
+  },
+  'gpt-4o-mini': {
+    id: 'gpt-4o-mini',
+    provider: 'openai',
+    label: 'GPT-4o mini',
+    contextWindow: 128_000,
+    maxOutputTokens: 16_384,
+    inputCostPerToken: 0.15 * PER_MILLION,
+    outputCostPerToken: 0.6 * PER_MILLION,
+    maxTemperature: 2,
+  },
+}
+
+export function getModelInfo(modelId: string): ModelInfo | undefined {
+  return MODEL_REGISTRY[modelId]
+}
+
+export function listModels(provider?: LLMConfig['provider']): ModelInfo[] {
+  const models = Object.values(MODEL_REGISTRY)
+  return provider ? models.filter((m) => m.provider === provider) : models
+}
+
+/**
+ * 요청한 출력 토큰 수를 모델의 최대 출력 한도로 제한
+ * 레지스트리에 없는 모델(로컬 모델 등)은 그대로 반환
+ */
+export function resolveMaxTokens(modelId: string, requested: number): number {
+  const info = getModelInfo(modelId)
+  return info ? Math.min(requested, info.maxOutputTokens) : requested
+}
+
+/**
+ * 모델이 허용하는 temperature 상한
+ */
+export function getMaxTemperature(modelId: string, provider: LLMConfig['provider']): number {
+  return getModelInfo(modelId)?.maxTemperature ?? PROVIDER_MAX_TEMPERATURE[provider]
+}
@@ -0,0 +1,116 @@
+import type OpenAI from 'openai'
+import type {
+  ChatMessage,
+  LLMProvider,
+  LLMResponse,
+  OutputSchema,
+  StructuredOptions,
+  StructuredResponse,
+  UsageCallback,
+} from './types.js'
+import { generateStructuredOutput } from './structured.js'
+import { DEFAULT_SYSTEM_PROMPT, buildChatSystemPrompt, buildUserPrompt } from './prompt.js'
+
+/**
+ * OpenAI Chat Completions API 공통 구현 (OpenAI, OpenAI 호환 로컬 서버)
+ * 하위 클래스는 클라이언트와 모델/샘플링 설정만 지정
+ */
+export abstract class OpenAICompatibleProvider implements LLMProvider {
+  abstract name: string
+  readonly model: string
+  protected client: OpenAI
+  protected maxTokens: number
+  protected temperature?: number
+
+  protected constructor(client: OpenAI, model: string, maxTokens: number, temperature?: number) {
+    this.client = client
+    this.model = model
+    this.maxTokens = maxTokens
+    this.temperature = temperature
+  }
+
+  async generate(prompt: string, context?: string[], systemPrompt?: string): Promise<string> {
+    const response = await this.generateWithUsage(prompt, context, systemPrompt)
+    return response.content
+  }
+
+  async generateWithUsage(prompt: string, context?: string[], systemPrompt?: string): Promise<LLMResponse> {
+    const response = await this.client.chat.completions.create({
+      model: this.model,
+      max_tokens: this.maxTokens,
+      temperature: this.temperature,
+      messages: [
+        {
+          role: 'system',
+          content: systemPrompt || DEFAULT_SYSTEM_PROMPT,
+        },
+        {
+          role: 'user',
+          content: buildUserPrompt(prompt, context),
+        },
+      ],
+    })
+
+    return {
+      content: response.choices[0]?.message?.content || '',
+      provider: this.name,
+      model: response.model || this.model,
+      usage: {
+        inputTokens: response.usage?.prompt_tokens ?? 0,
+        outputTokens: response.usage?.completion_tokens ?? 0,
+      },
+    }
+  }
+
+  async generateStructured<T>(
+    prompt: string,
+    schema: OutputSchema<T>,
+    options?: StructuredOptions
+  ): Promise<StructuredResponse<T>> {
+    return generateStructuredOutput(this, prompt, schema, options)
+  }
+
+  /**
+   * 스트리밍 채팅 생성 (SSE용)
+   * 멀티턴 대화 히스토리와 RAG 컨텍스트를 지원
+   */
+  async *generateStream(
+    messages: ChatMessage[],
+    context?: string[],
+    systemPrompt?: string,
+    onUsage?: UsageCallback
+  ): AsyncGenerator<string, void, unknown> {
+    const stream = await this.client.chat.completions.create({
+      model: this.model,
+      max_tokens: this.maxTokens,
+      temperature: this.temperature,
+      stream: true,
+      stream_options: { include_usage: true },
+      messages: [
+        { role: 'system', content: buildChatSystemPrompt(systemPrompt, context) },
+        ...messages.map((m) => ({
+          role: m.role,
+          content: m.content,
+        })),
+      ],
+    })
+
+    for await (const chunk of stream) {
+      const delta = chunk.choices[0]?.delta?.content
+      if (delta) {
+        yield delta
+      }
+      // include_usage 사용 시 마지막 청크에만 usage가 포함됨
+      if (chunk.usage && onUsage) {
+        onUsage({
+          provider: this.name,
+          model: chunk.model || this.model,
+          usage: {
+            inputTokens: chunk.usage.prompt_tokens,
+            outputTokens: chunk.usage.completion_tokens,
+          },
+        })
+      }
+    }
+  }
+}
@@ -1,37 +1,19 @@
 import OpenAI from 'openai'
-import type { LLMProvider } from './types.js'
+import { OpenAICompatibleProvider } from './openai-compatible.js'
+import { resolveMaxTokens } from './models.js'
 
-export class OpenAIProvider implements LLMProvider {
-  name = 'openai'
-  private client: OpenAI
-  private model: string
-
-  constructor(apiKey: string, model = 'gpt-4-turbo-preview') {
-    this.client = new OpenAI({ apiKey })
-    this.model = model
-  }
+const DEFAULT_MODEL = 'gpt-4-turbo-preview'
+const DEFAULT_MAX_TOKENS = 16384 // 모델별 최대 출력 한도로 제한됨 (gpt-4-turbo: 4K)
 
-  async generate(prompt: string, context?: string[]): Promise<string> {
-    const contextStr = context?.length
-      ? `\n\n[CONTEXT]\n${context.join('\n\n')}`
-      : ''
-
-    const response = await this.client.chat.completions.create({
-      model: this.model,
-      max_tokens: 4096,
-      messages: [
-        {
-          role: 'system',
-          content:
-            'You are a C++ expert specializing in language standard migrations. Only provide answers based on official C++ standard documentation. If uncertain, say so.',
-        },
-        {
-          role: 'user',
-          content: prompt + contextStr,
-        },
-      ],
-    })
+export class OpenAIProvider extends OpenAICompatibleProvider {
+  name = 'openai'
 
-    return response.choices[0]?.message?.content || ''
+  constructor(
+    apiKey: string,
+    model = DEFAULT_MODEL,
+    maxTokens = DEFAULT_MAX_TOKENS,
+    temperature?: number
+  ) {
+    super(new OpenAI({ apiKey }), model, resolveMaxTokens(model, maxTokens), temperature)
   }
 }
@@ -0,0 +1,20 @@
+// 모든 프로바이더 공통 시스템 프롬프트 (호출 시 systemPrompt를 주지 않은 경우)
+export const DEFAULT_SYSTEM_PROMPT =
+  'You are a C++ expert specializing in language standard migrations. Only provide answers based on official C++ standard documentation. If uncertain, say so.'
+
+/**
+ * 단발 생성: 컨텍스트를 사용자 프롬프트 뒤에 덧붙임
+ */
+export function buildUserPrompt(prompt: string, context?: string[]): string {
+  return context?.length ? `${prompt}\n\n[CONTEXT]\n${context.join('\n\n')}` : prompt
+}
+
+/**
+ * 스트리밍 채팅: RAG 컨텍스트를 시스템 프롬프트에 추가
+ */
+export function buildChatSystemPrompt(systemPrompt?: string, context?: string[]): string {
+  const base = systemPrompt || DEFAULT_SYSTEM_PROMPT
+  if (!context?.length) return base
+
+  return `${base}\n\n다음은 참고할 수 있는 문서입니다:\n\n[참고 문서]\n${context.join('\n\n---\n\n')}`
+}
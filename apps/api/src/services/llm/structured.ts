@@ -0,0 +1,152 @@
+import type { ZodIssue } from 'zod'
+import type {
+  LLMProvider,
+  LLMResponse,
+  LLMUsage,
+  OutputSchema,
+  StructuredOptions,
+  StructuredResponse,
+} from './types.js'
+
+const DEFAULT_MAX_REPAIRS = 2
+// 수정 요청 프롬프트에 포함할 이전 응답 최대 길이
+const MAX_ECHOED_OUTPUT_CHARS = 8000
+
+/**
+ * 스키마 검증을 끝내 통과하지 못한 경우
+ */
+export class StructuredOutputError extends Error {
+  constructor(
+    message: string,
+    public issues: string[],
+    public lastOutput: string,
+    public response: Omit<LLMResponse, 'content'> // 마지막 응답 프로바이더/모델, 전체 시도 usage 합계
+  ) {
+    super(message)
+    this.name = 'StructuredOutputError'
+  }
+}
+
+/**
+ * LLM 출력에서 JSON 블록 추출
+ */
+export function extractJsonFromResponse(response: string): string | null {
+  // Try to find JSON in code blocks first
+  const codeBlockMatch = response.match(/```(?:json)?\s*([\s\S]*?)```/i)
+  if (codeBlockMatch) {
+    return codeBlockMatch[1].trim()
+  }
+
+  // Try to find raw JSON object
+  const jsonMatch = response.match(/\{[\s\S]*\}/)
+  if (jsonMatch) {
+    return jsonMatch[0]
+  }
+
+  return null
+}
+
+function formatIssue(issue: ZodIssue): string {
+  const path = issue.path.length > 0 ? issue.path.join('.') : '(root)'
+  return `${path}: ${issue.message}`
+}
+
+/**
+ * 응답을 JSON으로 파싱하고 스키마로 검증
+ */
+function validate<T>(
+  content: string,
+  schema: OutputSchema<T>
+): { success: true; data: T } | { success: false; issues: string[] } {
+  const jsonStr = extractJsonFromResponse(content)
+  if (!jsonStr) {
+    return { success: false, issues: ['No JSON object found in the response'] }
+  }
+
+  let json: unknown
+  try {
+    json = JSON.parse(jsonStr)
+  } catch (error) {
+    return {
+      success: false,
+      issues: [`Invalid JSON: ${error instanceof Error ? error.message : String(error)}`],
+    }
+  }
+
+  const result = schema.safeParse(json)
+  return result.success
+    ? { success: true, data: result.data }
+    : { success: false, issues: result.error.issues.map(formatIssue) }
+}
+
+function buildRepairPrompt(prompt: string, output: string, issues: string[]): string {
+  const echoed =
+    output.length > MAX_ECHOED_OUTPUT_CHARS ? `${output.slice(0, MAX_ECHOED_OUTPUT_CHARS)}\n...` : output
+
+  return `${prompt}
+
+---
+
+Your previous response could not be used because it did not match the required JSON format.
+
+Previous response:
+${echoed}
+
+Validation errors:
+${issues.map((issue) => `- ${issue}`).join('\n')}
+
+Respond again with ONLY a corrected JSON object in a \`\`\`json code block. Keep the valid parts unchanged.`
+}
+
+/**
+ * 구조화 출력 생성 (모든 프로바이더 공통 구현)
+ * 검증 실패 시 원래 프롬프트 + 이전 응답 + 검증 오류로 최대 maxRepairs회 재요청
+ */
+export async function generateStructuredOutput<T>(
+  provider: LLMProvider,
+  prompt: string,
+  schema: OutputSchema<T>,
+  options: StructuredOptions = {}
+): Promise<StructuredResponse<T>> {
+  const maxRepairs = options.maxRepairs ?? DEFAULT_MAX_REPAIRS
+  const usage: LLMUsage = { inputTokens: 0, outputTokens: 0 }
+  let currentPrompt = prompt
+  let lastOutput = ''
+  let lastProvider = provider.name
+  let lastModel = provider.model
+  let issues: string[] = []
+
+  for (let attempt = 0; attempt <= maxRepairs; attempt++) {
+    const response = await provider.generateWithUsage(currentPrompt, options.context, options.systemPrompt)
+    usage.inputTokens += response.usage.inputTokens
+    usage.outputTokens += response.usage.outputTokens
+
+    const result = validate(response.content, schema)
+    if (result.success) {
+      return {
+        content: response.content,
+        provider: response.provider,
+        model: response.model,
+        usage,
+        data: result.data,
+        repairs: attempt,
+      }
+    }
+
+    lastOutput = response.content
+    lastProvider = response.provider
+    lastModel = response.model
+    issues = result.issues
+    console.warn(
+      `Structured output validation failed (attempt ${attempt + 1}/${maxRepairs + 1}): ${issues.slice(0, 3).join('; ')}`
+    )
+    currentPrompt = buildRepairPrompt(prompt, lastOutput, issues)
+  }
+
+  throw new StructuredOutputError(
+    `LLM output did not match the expected schema after ${maxRepairs} repair attempt(s)`,
+    issues,
+    lastOutput,
+    { provider: lastProvider, model: lastModel, usage }
+  )
+}
@@ -1,16 +1,87 @@
+import type { ZodType, ZodTypeDef } from 'zod'
+
+export interface ChatMessage {
+  role: 'user' | 'assistant'
+  content: string
+}
+
+export interface LLMUsage {
+  inputTokens: number
+  outputTokens: number
+}
+
+export interface LLMResponse {
+  content: string
+  provider: string // 실제 응답한 프로바이더 (폴백 체인인 경우 하위 프로바이더)
+  model: string
+  usage: LLMUsage
+}
+
+export type UsageCallback = (response: Omit<LLMResponse, 'content'>) => void
+
+// 입력 타입(기본값 적용 전)과 무관하게 검증 후 출력 타입만 고정
+export type OutputSchema<T> = ZodType<T, ZodTypeDef, unknown>
+
+export interface StructuredOptions {
+  context?: string[]
+  systemPrompt?: string // 기본 시스템 프롬프트 대신 사용
+  maxRepairs?: number // 검증 실패 시 수정 요청 횟수 (기본 2)
+}
+
+export interface StructuredResponse<T> extends LLMResponse {
+  data: T
+  repairs: number // 수정 요청 횟수 (usage는 모든 시도의 합계)
+}
+
 export interface LLMProvider {
   name: string
-  generate(prompt: string, context?: string[]): Promise<string>
+  model: string
+  generate(prompt: string, context?: string[], systemPrompt?: string): Promise<string>
+  /**
+   * 토큰 사용량을 포함한 생성 결과
+   * systemPrompt가 없으면 프로바이더 기본 시스템 프롬프트 사용
+   */
+  generateWithUsage(prompt: string, context?: string[], systemPrompt?: string): Promise<LLMResponse>
+  /**
+   * JSON 출력을 zod 스키마로 검증하여 반환
+   * 검증에 실패하면 오류 내용을 담아 제한된 횟수만큼 수정을 요청
+   */
+  generateStructured<T>(
+    prompt: string,
+    schema: OutputSchema<T>,
+    options?: StructuredOptions
+  ): Promise<StructuredResponse<T>>
+  /**
+   * 스트리밍 채팅 생성 (SSE용)
+   * 멀티턴 대화 히스토리와 RAG 컨텍스트를 지원
+   * 스트림이 끝나면 onUsage로 토큰 사용량을 전달
+   */
+  generateStream(
+    messages: ChatMessage[],
+    context?: string[],
+    systemPrompt?: string,
+    onUsage?: UsageCallback
+  ): AsyncGenerator<string, void, unknown>
 }
 
 export interface LLMConfig {
   provider: 'openai' | 'anthropic' | 'local'
   apiKey?: string
+  baseUrl?: string // local(OpenAI 호환) 서버 주소, 예: http://localhost:8000/v1
   model: string
   temperature?: number
   maxTokens?: number
 }
 
+/**
+ * 요청 단위 모델/샘플링 설정 오버라이드
+ */
+export interface LLMOverrides {
+  model?: string
+  temperature?: number
+  maxTokens?: number
+}
+
 export interface GenerationOptions {
   targetLevel: 'beginner' | 'intermediate' | 'senior' | 'compiler-engineer'
   outputLanguage: 'ko' | 'en'
@@ -1,5 +1,5 @@
 import type { DocType, TargetLevel, OutputLanguage } from '@shuguridan/shared'
-import type { PromptContext, CodeModernizationContext } from './types.js'
+import type { PromptContext, CodeModernizationContext, ModernizationChangesContext } from './types.js'
 
 const LANGUAGE_INSTRUCTIONS = {
   ko: '응답은 반드시 한국어로 작성하세요.',
@@ -13,6 +13,10 @@ const LEVEL_DESCRIPTIONS = {
   'compiler-engineer': '컴파일러/언어 엔지니어 (표준 명세 수준 이해)',
 }
 
+// 참조 문서는 [n] 번호로 제공되며, 응답의 [n] 표기는 생성 후 출처 URL 링크로 변환됨
+const CITATION_INSTRUCTION =
+  '참조 문서의 내용을 근거로 한 문장에는 해당 문서 번호를 [1], [2]처럼 인라인으로 표기하세요. 제공되지 않은 번호는 사용하지 마세요.'
+
 // System prompts for different document types
 export const SYSTEM_PROMPTS = {
   base: `You are a C++ language expert specializing in C++ standard transitions and modernization.
@@ -65,6 +69,7 @@ ${ragContext}
 
 ## 작성 지침
 ${LANGUAGE_INSTRUCTIONS[outputLanguage]}
+${CITATION_INSTRUCTION}
 
 다음 구조로 마이그레이션 가이드를 작성하세요:
 
@@ -102,6 +107,7 @@ ${ragContext}
 
 ## 작성 지침
 ${LANGUAGE_INSTRUCTIONS[outputLanguage]}
+${CITATION_INSTRUCTION}
 
 다음 구조로 릴리즈 노트를 작성하세요:
 
@@ -144,6 +150,7 @@ ${ragContext}
 
 ## 작성 지침
 ${LANGUAGE_INSTRUCTIONS[outputLanguage]}
+${CITATION_INSTRUCTION}
 
 다음 구조로 테스트 포인트를 작성하세요:
 
@@ -192,6 +199,7 @@ ${ragContext}
 
 ## 작성 지침
 ${LANGUAGE_INSTRUCTIONS[outputLanguage]}
+${CITATION_INSTRUCTION}
 
 다음 형식으로 응답하세요:
 
@@ -214,6 +222,49 @@ ${LANGUAGE_INSTRUCTIONS[outputLanguage]}
 중요: 근거 문서에 없는 내용은 "확인 필요"로 표시하세요.`
 }
 
+export function buildModernizationChangesPrompt(context: ModernizationChangesContext): string {
+  const { sourceVersion, targetVersion, outputLanguage, oldCode, newCode } = context
+
+  return `# 코드 현대화 변경 목록 작성 요청
+
+${sourceVersion} 코드를 ${targetVersion}으로 현대화한 결과입니다. 두 코드를 비교하여 의미 있는 변경을 나열하세요.
+
+## 원본 코드
+\`\`\`cpp
+${oldCode}
+\`\`\`
+
+## 현대화된 코드
+\`\`\`cpp
+${newCode}
+\`\`\`
+
+## 작성 지침
+${LANGUAGE_INSTRUCTIONS[outputLanguage]} (explanation 필드에 적용)
+
+반드시 다음 JSON 형식으로만 응답하세요:
+\`\`\`json
+{
+  "changes": [
+    {
+      "lineStart": 7,
+      "lineEnd": 7,
+      "type": "modify",
+      "originalSnippet": "Widget() : data(NULL), size(0) {}",
+      "modernizedSnippet": "Widget() : data(nullptr), size(0) {}",
+      "explanation": "변경 이유와 도입된 표준 버전",
+      "category": "nullptr"
+    }
+  ]
+}
+\`\`\`
+
+- lineStart/lineEnd: 현대화된 코드 기준 1부터 시작하는 줄 번호 (삭제인 경우 원본 코드 기준)
+- type: "modify" | "add" | "delete"
+- category: "auto" | "lambda" | "smartpointer" | "rangefor" | "nullptr" | "constexpr" | "initializer" | "default"
+- 공백/포맷만 바뀐 줄은 제외하고, 같은 이유의 인접한 변경은 하나로 묶으세요.`
+}
+
 export function getPromptBuilder(docType: DocType) {
   switch (docType) {
     case 'migration_guide':
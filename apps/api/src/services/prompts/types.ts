@@ -14,6 +14,14 @@ export interface CodeModernizationContext extends PromptContext {
   oldCode: string
 }
 
+export interface ModernizationChangesContext {
+  sourceVersion: string
+  targetVersion: string
+  outputLanguage: OutputLanguage
+  oldCode: string
+  newCode: string
+}
+
 export interface PromptTemplate {
   type: DocType
   systemPrompt: string
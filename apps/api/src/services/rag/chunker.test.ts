@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest'
+import { chunkHtml, chunkMarkdown, chunkText, htmlToMarkdown } from './chunker.js'
+import { countTokens } from './tokenizer.js'
+
+function codeFence(lines: number): string {
+  const body = Array.from({ length: lines }, (_, i) => `int value${i} = ${i} * ${i};`).join('\n')
+  return '```cpp\n' + body + '\n```'
+}
+
+function sentences(count: number): string {
+  return Array.from({ length: count }, (_, i) => `Sentence number ${i} describes the container.`).join(' ')
+}
+
+describe('chunkText', () => {
+  it('returns short text as a single chunk', () => {
+    expect(chunkText('short text', { maxTokens: 50 })).toEqual(['short text'])
+  })
+
+  it('keeps every chunk within the token limit', () => {
+    const chunks = chunkText(sentences(40), { maxTokens: 40, overlapTokens: 10 })
+
+    expect(chunks.length).toBeGreaterThan(1)
+    for (const chunk of chunks) {
+      expect(countTokens(chunk)).toBeLessThanOrEqual(40)
+    }
+  })
+})
+
+describe('chunkMarkdown', () => {
+  it('merges small sections and records their common heading path', () => {
+    const text = '# std::vector\n\n## size\n\nReturns the size.\n\n## empty\n\nChecks emptiness.'
+    const chunks = chunkMarkdown(text, { maxTokens: 200 })
+
+    expect(chunks).toHaveLength(1)
+    expect(chunks[0].headingPath).toEqual(['std::vector'])
+  })
+
+  it('never splits a code fence, even above the token limit', () => {
+    const fence = codeFence(40)
+    const chunks = chunkMarkdown(`## Example\n\n${fence}`, { maxTokens: 50 })
+
+    expect(chunks.some((chunk) => chunk.content.includes(fence))).toBe(true)
+  })
+
+  it('keeps a heading with the oversized code fence that follows it', () => {
+    const text = `# std::vector\n\n## Notes\n\n${sentences(3)}\n\n### Example\n\n${codeFence(40)}`
+    const chunks = chunkMarkdown(text, { maxTokens: 60, overlapTokens: 10 })
+
+    expect(chunks.map((chunk) => chunk.content.trim())).not.toContain('### Example')
+    const example = chunks.find((chunk) => chunk.content.includes('```cpp'))
+    expect(example?.content.startsWith('### Example')).toBe(true)
+    expect(example?.headingPath).toEqual(['std::vector', 'Notes', 'Example'])
+  })
+
+  it('keeps a heading with an oversized code fence inside a longer section', () => {
+    const text = `## Example\n\n${codeFence(40)}\n\n${sentences(10)}`
+    const chunks = chunkMarkdown(text, { maxTokens: 60, overlapTokens: 10 })
+
+    expect(chunks[0].content.startsWith('## Example\n\n```cpp')).toBe(true)
+  })
+})
+
+describe('htmlToMarkdown', () => {
+  it('separates table cells', () => {
+    const html = `
+      <div id="mw-content-text">
+        <table>
+          <tr><th>Parameter</th><th>Description</th></tr>
+          <tr><td>first, last</td><td>the range of elements to sort</td></tr>
+        </table>
+      </div>`
+
+    const markdown = htmlToMarkdown(html)
+    expect(markdown).toContain('Parameter | Description')
+    expect(markdown).toContain('first, last | the range of elements to sort')
+  })
+
+  it('converts headings and code blocks', () => {
+    const html = '<div id="mw-content-text"><h2>Example</h2><pre>int main() {}</pre></div>'
+    const chunks = chunkHtml(html)
+
+    expect(chunks).toHaveLength(1)
+    expect(chunks[0].content).toContain('## Example')
+    expect(chunks[0].content).toContain('```cpp\nint main() {}\n```')
+  })
+})
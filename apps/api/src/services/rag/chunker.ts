@@ -1,11 +1,42 @@
+import * as cheerio from 'cheerio'
 import type { ChunkingOptions } from './types.js'
+import { countTokens, decodeTokens, encodeTokens } from './tokenizer.js'
 
 const DEFAULT_MAX_TOKENS = 500
 const DEFAULT_OVERLAP_TOKENS = 50
 
-// Rough estimate: 1 token ≈ 4 characters for English text
-const CHARS_PER_TOKEN = 4
+export interface TextChunk {
+  content: string
+  headingPath: string[] // 청크가 속한 제목 경로 (예: ['std::vector', 'Member functions'])
+  tokenCount: number
+}
+
+export type ChunkingStrategy = (text: string, options?: ChunkingOptions) => TextChunk[]
+
+/**
+ * 청크 구성 단위 (제목 줄, 코드 블록, 문단 또는 문장)
+ * overlap: 다음 청크 앞에 겹쳐 넣을 수 있는 텍스트 단위 (제목/코드는 제외)
+ */
+interface ChunkUnit {
+  content: string
+  tokens: number
+  overlap: boolean
+  separator: string // 앞 단위와 이어 붙일 때 사용할 구분자 (문단: 빈 줄, 문장: 공백)
+  heading?: boolean // 제목 줄 (뒤따르는 단위와 같은 청크에 넣음)
+}
+
+interface MarkdownSection {
+  headingPath: string[]
+  units: ChunkUnit[]
+}
 
+const PARAGRAPH_SEPARATOR = '\n\n'
+const FENCE_OPEN_PATTERN = /^\s{0,3}(`{3,}|~{3,})/
+const HEADING_PATTERN = /^(#{1,6})\s+(.+?)\s*#*\s*$/
+
+/**
+ * 일반 텍스트 청킹 (문단 → 문장 → 토큰 단위로 경계 탐색)
+ */
 export function chunkText(
   text: string,
   options: ChunkingOptions = {}
@@ -13,64 +44,319 @@ export function chunkText(
   const maxTokens = options.maxTokens ?? DEFAULT_MAX_TOKENS
   const overlapTokens = options.overlapTokens ?? DEFAULT_OVERLAP_TOKENS
 
-  const maxChars = maxTokens * CHARS_PER_TOKEN
-  const overlapChars = overlapTokens * CHARS_PER_TOKEN
-
-  if (text.length <= maxChars) {
+  if (countTokens(text) <= maxTokens) {
     return [text]
   }
 
-  const chunks: string[] = []
-  let startIndex = 0
+  return packUnits(splitText(text, maxTokens), maxTokens, overlapTokens)
+}
 
-  while (startIndex < text.length) {
-    let endIndex = startIndex + maxChars
+export function chunkPlainText(text: string, options: ChunkingOptions = {}): TextChunk[] {
+  return chunkText(text, options)
+    .filter((content) => content.trim().length > 0)
+    .map((content) => ({ content, headingPath: [], tokenCount: countTokens(content) }))
+}
 
-    // Try to find a natural break point (paragraph, sentence, or word)
-    if (endIndex < text.length) {
-      const searchStart = Math.max(startIndex + maxChars - 200, startIndex)
-      const searchText = text.slice(searchStart, endIndex)
+/**
+ * 마크다운 구조 기반 청킹
+ * - 코드 펜스는 최대 토큰 수를 넘더라도 자르지 않음
+ * - 작은 섹션은 합치고, 큰 섹션은 블록 경계에서 나눔
+ * - 각 청크에 제목 경로를 기록 (합쳐진 섹션은 공통 상위 경로)
+ */
+export function chunkMarkdown(text: string, options: ChunkingOptions = {}): TextChunk[] {
+  const maxTokens = options.maxTokens ?? DEFAULT_MAX_TOKENS
+  const overlapTokens = options.overlapTokens ?? DEFAULT_OVERLAP_TOKENS
+
+  const sections = parseMarkdownSections(text, maxTokens)
+  const chunks: TextChunk[] = []
+
+  let group: MarkdownSection[] = []
+  let groupTokens = 0
+
+  const flushGroup = () => {
+    if (group.length === 0) return
+    const content = joinUnits(group.flatMap((section) => section.units))
+    chunks.push({
+      content,
+      headingPath: getCommonPath(group.map((section) => section.headingPath)),
+      tokenCount: countTokens(content),
+    })
+    group = []
+    groupTokens = 0
+  }
+
+  for (const section of sections) {
+    const sectionTokens = section.units.reduce((sum, unit) => sum + unit.tokens, 0)
+
+    if (sectionTokens > maxTokens) {
+      // 본문 없이 제목만 있는 상위 섹션(그룹 끝부분)은 따로 남기지 않고 이 섹션 앞에 붙임
+      let headingStart = group.length
+      while (headingStart > 0 && isHeadingOnly(group[headingStart - 1])) headingStart--
+      const leadingHeadings = group.slice(headingStart).flatMap((s) => s.units)
+      group = group.slice(0, headingStart)
+      flushGroup()
 
-      // Look for paragraph break
-      const paragraphBreak = searchText.lastIndexOf('\n\n')
-      if (paragraphBreak !== -1) {
-        endIndex = searchStart + paragraphBreak + 2
+      for (const content of packUnits([...leadingHeadings, ...section.units], maxTokens, overlapTokens)) {
+        chunks.push({ content, headingPath: section.headingPath, tokenCount: countTokens(content) })
+      }
+      continue
+    }
+
+    if (groupTokens + sectionTokens > maxTokens) {
+      flushGroup()
+    }
+    group.push(section)
+    groupTokens += sectionTokens
+  }
+  flushGroup()
+
+  return chunks
+}
+
+/**
+ * HTML 문서 청킹 (제목/코드/문단 구조를 마크다운으로 옮긴 뒤 마크다운 청킹)
+ */
+export function chunkHtml(html: string, options: ChunkingOptions = {}): TextChunk[] {
+  return chunkMarkdown(htmlToMarkdown(html), options)
+}
+
+/**
+ * HTML을 제목(#), 코드 펜스, 문단으로 구성된 마크다운으로 변환
+ * cppreference 페이지는 본문 영역(#mw-content-text)만 사용
+ */
+export function htmlToMarkdown(html: string): string {
+  const $ = cheerio.load(html)
+  $('script, style, nav, .t-navbar, .editsection, .noprint, #toc').remove()
+
+  const contentArea = $('#mw-content-text')
+  const root = contentArea.length > 0 ? contentArea : $('body')
+  const blocks: string[] = []
+  const blockSelector = 'h1, h2, h3, h4, h5, h6, pre, p, div, ul, ol, li, dl, dt, dd, table, tr, blockquote, section, article'
+
+  const walk = (node: typeof root) => {
+    node.children().each((_, child) => {
+      const element = $(child)
+      const tag = (element.prop('tagName') ?? '').toLowerCase()
+
+      if (/^h[1-6]$/.test(tag)) {
+        const heading = cleanInlineText(element.text())
+        if (heading) blocks.push(`${'#'.repeat(Number(tag[1]))} ${heading}`)
+      } else if (tag === 'tr' && element.find(blockSelector).length === 0) {
+        // 셀 텍스트가 붙지 않도록 구분 (cppreference의 선언/매개변수 표)
+        const cells = element
+          .children('th, td')
+          .map((_, cell) => cleanInlineText($(cell).text()))
+          .get()
+          .filter((cell) => cell.length > 0)
+        if (cells.length > 0) blocks.push(cells.join(' | '))
+      } else if (tag === 'pre') {
+        blocks.push(`\`\`\`cpp\n${element.text().replace(/\n+$/, '')}\n\`\`\``)
+      } else if (element.find(blockSelector).length === 0) {
+        const paragraph = cleanInlineText(element.text())
+        if (paragraph) blocks.push(tag === 'li' ? `- ${paragraph}` : paragraph)
       } else {
-        // Look for sentence break
-        const sentenceBreak = Math.max(
-          searchText.lastIndexOf('. '),
-          searchText.lastIndexOf('.\n'),
-          searchText.lastIndexOf('? '),
-          searchText.lastIndexOf('! ')
-        )
-        if (sentenceBreak !== -1) {
-          endIndex = searchStart + sentenceBreak + 2
+        walk(element)
+      }
+    })
+  }
+
+  walk(root)
+  return blocks.join('\n\n')
+}
+
+function cleanInlineText(text: string): string {
+  return text.replace(/\s+/g, ' ').trim()
+}
+
+/**
+ * 마크다운을 제목 단위 섹션으로 분리
+ * 섹션의 제목 줄은 첫 단위로 포함되며, 최대 토큰을 넘는 문단은 미리 나눔
+ */
+function parseMarkdownSections(text: string, maxTokens: number): MarkdownSection[] {
+  const sections: MarkdownSection[] = []
+  const headingStack: Array<{ level: number; title: string }> = []
+  let current: MarkdownSection = { headingPath: [], units: [] }
+  let paragraph: string[] = []
+
+  const flushParagraph = () => {
+    const content = paragraph.join('\n').trim()
+    paragraph = []
+    if (content) current.units.push(...splitText(content, maxTokens))
+  }
+
+  const lines = text.split('\n')
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i]
+
+    const fence = line.match(FENCE_OPEN_PATTERN)
+    if (fence) {
+      flushParagraph()
+      const codeLines = [line]
+      while (++i < lines.length) {
+        codeLines.push(lines[i])
+        if (isClosingFence(lines[i], fence[1])) break
+      }
+      const content = codeLines.join('\n')
+      current.units.push({ content, tokens: countTokens(content), overlap: false, separator: PARAGRAPH_SEPARATOR })
+      continue
+    }
+
+    const heading = line.match(HEADING_PATTERN)
+    if (heading) {
+      flushParagraph()
+      if (current.units.length > 0) sections.push(current)
+
+      const level = heading[1].length
+      while (headingStack.length > 0 && headingStack[headingStack.length - 1].level >= level) {
+        headingStack.pop()
+      }
+      headingStack.push({ level, title: heading[2] })
+
+      current = {
+        headingPath: headingStack.map((entry) => entry.title),
+        units: [{ content: line.trim(), tokens: countTokens(line), overlap: false, separator: PARAGRAPH_SEPARATOR, heading: true }],
+      }
+      continue
+    }
+
+    if (line.trim() === '') {
+      flushParagraph()
+    } else {
+      paragraph.push(line)
+    }
+  }
+
+  flushParagraph()
+  if (current.units.length > 0) sections.push(current)
+
+  return sections
+}
+
+function isHeadingOnly(section: MarkdownSection): boolean {
+  return section.units.length === 1 && HEADING_PATTERN.test(section.units[0].content)
+}
+
+function isClosingFence(line: string, openMarker: string): boolean {
+  const match = line.match(/^\s{0,3}(`{3,}|~{3,})\s*$/)
+  return !!match && match[1][0] === openMarker[0] && match[1].length >= openMarker.length
+}
+
+function getCommonPath(paths: string[][]): string[] {
+  const [first, ...rest] = paths
+  const common: string[] = []
+  for (let i = 0; i < first.length; i++) {
+    if (rest.some((path) => path[i] !== first[i])) break
+    common.push(first[i])
+  }
+  return common
+}
+
+/**
+ * 텍스트를 maxTokens 이하 단위로 분리 (문단 → 문장 → 토큰 창)
+ */
+function splitText(text: string, maxTokens: number): ChunkUnit[] {
+  const units: ChunkUnit[] = []
+
+  for (const paragraph of text.split(/\n{2,}/)) {
+    const trimmed = paragraph.trim()
+    if (!trimmed) continue
+
+    const tokens = countTokens(trimmed)
+    if (tokens <= maxTokens) {
+      units.push({ content: trimmed, tokens, overlap: true, separator: PARAGRAPH_SEPARATOR })
+      continue
+    }
+
+    trimmed.split(/(?<=[.!?])\s+/).forEach((sentence, index) => {
+      const separator = index === 0 ? PARAGRAPH_SEPARATOR : ' '
+      const encoded = encodeTokens(sentence)
+      if (encoded.length <= maxTokens) {
+        units.push({ content: sentence, tokens: encoded.length, overlap: true, separator })
+        return
+      }
+      // 문장 경계도 없는 긴 텍스트는 토큰 창으로 자름
+      for (let start = 0; start < encoded.length; start += maxTokens) {
+        const window = encoded.slice(start, start + maxTokens)
+        units.push({
+          content: decodeTokens(window),
+          tokens: window.length,
+          overlap: true,
+          separator: start === 0 ? separator : '',
+        })
+      }
+    })
+  }
+
+  return units
+}
+
+/**
+ * 단위를 순서대로 maxTokens 이하 청크로 묶음
+ * 이전 청크의 마지막 텍스트 단위(overlapTokens 이하)를 다음 청크 앞에 겹쳐 넣음
+ * 청크 끝의 제목은 다음 청크로 넘겨 본문과 함께 담음 (큰 코드 블록 앞의 제목이 따로 남지 않도록)
+ */
+function packUnits(units: ChunkUnit[], maxTokens: number, overlapTokens: number): string[] {
+  const chunks: string[] = []
+  let current: ChunkUnit[] = []
+  let currentTokens = 0
+  // current 앞쪽에 이전 청크에서 겹쳐 넣은 단위 수 (이것만 남은 상태에서는 청크를 내보내지 않음)
+  let carried = 0
+
+  for (const unit of units) {
+    if (currentTokens + unit.tokens > maxTokens) {
+      let bodyEnd = current.length
+      while (bodyEnd > carried && current[bodyEnd - 1].heading) bodyEnd--
+      const body = current.slice(0, bodyEnd)
+      const headings = current.slice(bodyEnd)
+      const headingTokens = sumTokens(headings)
+
+      if (bodyEnd > carried) {
+        chunks.push(joinUnits(body))
+
+        const overlap: ChunkUnit[] = []
+        let overlapSize = 0
+        for (let i = body.length - 1; i >= 0; i--) {
+          const candidate = body[i]
+          if (!candidate.overlap || overlapSize + candidate.tokens > overlapTokens) break
+          overlap.unshift(candidate)
+          overlapSize += candidate.tokens
+        }
+
+        if (overlapSize + headingTokens + unit.tokens > maxTokens) {
+          current = headings
+          currentTokens = headingTokens
+          carried = 0
         } else {
-          // Look for word break
-          const wordBreak = searchText.lastIndexOf(' ')
-          if (wordBreak !== -1) {
-            endIndex = searchStart + wordBreak + 1
-          }
+          current = [...overlap, ...headings]
+          currentTokens = overlapSize + headingTokens
+          carried = overlap.length
         }
+      } else if (carried > 0) {
+        // 겹침 + 제목만 있는 상태: 겹침을 버리고 제목과 함께 담음
+        current = headings
+        currentTokens = headingTokens
+        carried = 0
       }
     }
 
-    chunks.push(text.slice(startIndex, endIndex).trim())
+    current.push(unit)
+    currentTokens += unit.tokens
+  }
 
-    // Move start with overlap
-    startIndex = endIndex - overlapChars
-    if (startIndex >= text.length) break
+  if (current.length > carried) {
+    chunks.push(joinUnits(current))
   }
 
-  return chunks.filter((chunk) => chunk.length > 0)
+  return chunks.filter((chunk) => chunk.trim().length > 0)
 }
 
-export function chunkBySection(text: string): string[] {
-  // Split by markdown headers (##, ###, etc.)
-  const sections = text.split(/(?=^#{2,}\s)/m)
-  return sections.map((s) => s.trim()).filter((s) => s.length > 0)
+function sumTokens(units: ChunkUnit[]): number {
+  return units.reduce((sum, unit) => sum + unit.tokens, 0)
 }
 
-export function estimateTokenCount(text: string): number {
-  return Math.ceil(text.length / CHARS_PER_TOKEN)
+function joinUnits(units: ChunkUnit[]): string {
+  return units
+    .map((unit, index) => (index === 0 ? unit.content : unit.separator + unit.content))
+    .join('')
+    .trim()
 }
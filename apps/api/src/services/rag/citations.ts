@@ -0,0 +1,61 @@
+import type { CitedSource, RetrievedDocument } from './types.js'
+
+export const CPPREFERENCE_BASE_URL = 'https://en.cppreference.com'
+
+// 코드 블록/인라인 코드 안의 [n]은 배열 인덱스 등일 수 있으므로 건너뜀
+const CODE_SEGMENT_PATTERN = /(```[\s\S]*?```|`[^`\n]*`)/
+// [1], [1, 2], [1][2] 형태 (이미 링크인 [n](url) 및 [[n]](url)은 제외)
+const CITATION_PATTERN = /(?<!\[)\[(\d+(?:\s*,\s*\d+)*)\](?![(\]])/g
+
+/**
+ * 청크의 cppreference URL
+ * 수집 시 원본 URL이 없으면 원본 문서 제목으로 cppreference 검색 URL 생성
+ */
+export function getSourceUrl(doc: RetrievedDocument): string {
+  const url = doc.metadata.url
+  if (typeof url === 'string' && /^https?:\/\//.test(url)) {
+    return url
+  }
+
+  const originalTitle = doc.metadata.originalTitle
+  const title = typeof originalTitle === 'string' && originalTitle ? originalTitle : doc.title
+  return `${CPPREFERENCE_BASE_URL}/mwiki/index.php?search=${encodeURIComponent(title)}`
+}
+
+/**
+ * 검색 결과를 컨텍스트 순서대로 [n] 번호가 붙은 출처 목록으로 변환
+ */
+export function toCitedSources(documents: RetrievedDocument[]): CitedSource[] {
+  return documents.map((doc, index) => ({
+    index: index + 1,
+    id: doc.id,
+    title: doc.title,
+    versionId: doc.versionId,
+    url: getSourceUrl(doc),
+    similarity: doc.similarity,
+  }))
+}
+
+/**
+ * LLM 출력의 인라인 [n] 표기를 출처 URL 마크다운 링크로 변환
+ * 출처 목록에 없는 번호는 그대로 둠
+ */
+export function linkCitations(content: string, sources: CitedSource[]): string {
+  if (sources.length === 0) return content
+
+  const urls = new Map(sources.map((source) => [source.index, source.url]))
+
+  return content
+    .split(CODE_SEGMENT_PATTERN)
+    .map((segment, i) => {
+      // split 결과의 홀수 인덱스는 코드 구간
+      if (i % 2 === 1) return segment
+
+      return segment.replace(CITATION_PATTERN, (match, numbers: string) => {
+        const indices = numbers.split(',').map((n) => Number(n.trim()))
+        if (!indices.every((n) => urls.has(n))) return match
+        return indices.map((n) => `[[${n}]](${urls.get(n)})`).join('')
+      })
+    })
+    .join('')
+}
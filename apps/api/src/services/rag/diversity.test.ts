@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest'
+import { diversifyDocuments, getDocumentGroupKey, groupByDocument, maximalMarginalRelevance } from './diversity.js'
+import type { RetrievedDocument } from './types.js'
+
+function doc(id: string, score: number, content: string, originalTitle?: string): RetrievedDocument {
+  return {
+    id,
+    versionId: 'cpp20',
+    title: originalTitle ? `${originalTitle} (Part ${id})` : id,
+    content,
+    metadata: originalTitle ? { originalTitle } : {},
+    similarity: score,
+    score,
+    matchedBy: ['vector'],
+  }
+}
+
+const RANGES = 'std::ranges::sort sorts the elements of a range using a projection and a comparator'
+const RANGES_DUPLICATE = 'std::ranges::sort sorts the elements of a range using a projection and a comparator object'
+const FORMAT = 'std::format produces formatted text from a format string and arguments, like printf but type safe'
+
+describe('groupByDocument', () => {
+  it('keeps the top chunks of each source document', () => {
+    const docs = [
+      doc('1', 0.9, 'a', 'std::vector'),
+      doc('2', 0.8, 'b', 'std::vector'),
+      doc('3', 0.7, 'c', 'std::map'),
+      doc('4', 0.6, 'd', 'std::vector'),
+    ]
+
+    expect(groupByDocument(docs).map((d) => d.id)).toEqual(['1', '3'])
+    expect(groupByDocument(docs, 2).map((d) => d.id)).toEqual(['1', '2', '3'])
+  })
+
+  it('drops duplicate ids', () => {
+    const docs = [doc('1', 0.9, 'a'), doc('1', 0.5, 'a'), doc('2', 0.4, 'b')]
+    expect(groupByDocument(docs, 5).map((d) => d.id)).toEqual(['1', '2'])
+  })
+
+  it('groups by version and original title', () => {
+    expect(getDocumentGroupKey(doc('1', 1, 'a', 'std::span'))).toBe('cpp20:std::span')
+    expect(getDocumentGroupKey(doc('plain', 1, 'a'))).toBe('cpp20:plain')
+  })
+})
+
+describe('maximalMarginalRelevance', () => {
+  const docs = [doc('ranges', 1.0, RANGES), doc('ranges-dup', 0.95, RANGES_DUPLICATE), doc('format', 0.6, FORMAT)]
+
+  it('prefers a different topic over a near-duplicate', () => {
+    expect(maximalMarginalRelevance(docs, 2, 0.5).map((d) => d.id)).toEqual(['ranges', 'format'])
+  })
+
+  it('falls back to relevance order with lambda = 1', () => {
+    expect(maximalMarginalRelevance(docs, 2, 1).map((d) => d.id)).toEqual(['ranges', 'ranges-dup'])
+  })
+
+  it('returns at most limit documents', () => {
+    expect(maximalMarginalRelevance(docs, 10)).toHaveLength(3)
+    expect(maximalMarginalRelevance([docs[0]], 0)).toHaveLength(0)
+  })
+})
+
+describe('diversifyDocuments', () => {
+  it('sorts by score, groups by document, then applies MMR', () => {
+    const docs = [
+      doc('format', 0.6, FORMAT, 'std::format'),
+      doc('ranges-2', 0.95, RANGES_DUPLICATE, 'std::ranges::sort'),
+      doc('ranges-1', 1.0, RANGES, 'std::ranges::sort'),
+    ]
+
+    expect(diversifyDocuments(docs, { limit: 5, lambda: 0.5 }).map((d) => d.id)).toEqual(['ranges-1', 'format'])
+  })
+})
@@ -0,0 +1,111 @@
+import { tokenize } from '../../lib/text.js'
+import { hashTokens } from '../embedding/local.js'
+import type { RetrievedDocument } from './types.js'
+
+// 문서 간 유사도 계산용 해시 벡터 차원 (검색용 1536차원보다 작게)
+const SIMILARITY_DIMENSIONS = 256
+
+export interface DiversifyOptions {
+  limit: number
+  lambda?: number // MMR 관련성 가중치 (1 = 관련성만, 0 = 다양성만), 기본 0.7
+  maxChunksPerDocument?: number // 같은 원본 문서(originalTitle)에서 허용할 청크 수, 기본 1
+}
+
+const DEFAULT_LAMBDA = 0.7
+const DEFAULT_MAX_CHUNKS_PER_DOCUMENT = 1
+
+/**
+ * 청크가 속한 원본 문서 키 ("Title (Part n/m)" 청크는 metadata.originalTitle 공유)
+ */
+export function getDocumentGroupKey(doc: RetrievedDocument): string {
+  const originalTitle = doc.metadata.originalTitle
+  const title = typeof originalTitle === 'string' && originalTitle ? originalTitle : doc.title
+  return `${doc.versionId}:${title}`
+}
+
+/**
+ * 같은 원본 문서의 청크를 묶어 점수 상위 maxPerGroup개만 유지 (입력 순서 = 점수 순서 가정)
+ * id 중복도 함께 제거
+ */
+export function groupByDocument(
+  documents: RetrievedDocument[],
+  maxPerGroup = DEFAULT_MAX_CHUNKS_PER_DOCUMENT
+): RetrievedDocument[] {
+  const seenIds = new Set<string>()
+  const groupCounts = new Map<string, number>()
+  const result: RetrievedDocument[] = []
+
+  for (const doc of documents) {
+    if (seenIds.has(doc.id)) continue
+    seenIds.add(doc.id)
+
+    const key = getDocumentGroupKey(doc)
+    const count = groupCounts.get(key) ?? 0
+    if (count >= maxPerGroup) continue
+
+    groupCounts.set(key, count + 1)
+    result.push(doc)
+  }
+
+  return result
+}
+
+function dot(a: number[], b: number[]): number {
+  let sum = 0
+  for (let i = 0; i < a.length; i++) sum += a[i] * b[i]
+  return sum
+}
+
+/**
+ * Maximal Marginal Relevance
+ * 매 단계 λ·관련성 − (1−λ)·(이미 선택된 문서와의 최대 유사도)가 가장 큰 문서를 선택
+ * 문서 간 유사도는 본문 해시 벡터의 코사인 유사도 (임베딩 모델과 무관하게 동작)
+ */
+export function maximalMarginalRelevance(
+  documents: RetrievedDocument[],
+  limit: number,
+  lambda = DEFAULT_LAMBDA
+): RetrievedDocument[] {
+  if (documents.length <= 1) return documents.slice(0, limit)
+
+  const maxScore = Math.max(...documents.map((d) => d.score), Number.EPSILON)
+  const relevance = documents.map((d) => d.score / maxScore)
+  const vectors = documents.map((d) => hashTokens(tokenize(d.content), SIMILARITY_DIMENSIONS))
+
+  const selected: number[] = []
+  const remaining = new Set(documents.map((_, index) => index))
+
+  while (selected.length < limit && remaining.size > 0) {
+    let bestIndex = -1
+    let bestValue = -Infinity
+
+    for (const index of remaining) {
+      const redundancy = selected.length
+        ? Math.max(...selected.map((s) => dot(vectors[index], vectors[s])))
+        : 0
+      const value = lambda * relevance[index] - (1 - lambda) * redundancy
+
+      if (value > bestValue) {
+        bestValue = value
+        bestIndex = index
+      }
+    }
+
+    selected.push(bestIndex)
+    remaining.delete(bestIndex)
+  }
+
+  return selected.map((index) => documents[index])
+}
+
+/**
+ * 원본 문서 단위 그룹핑 후 MMR로 다양한 주제를 선택
+ */
+export function diversifyDocuments(
+  documents: RetrievedDocument[],
+  options: DiversifyOptions
+): RetrievedDocument[] {
+  const sorted = [...documents].sort((a, b) => b.score - a.score)
+  const grouped = groupByDocument(sorted, options.maxChunksPerDocument)
+  return maximalMarginalRelevance(grouped, options.limit, options.lambda)
+}
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest'
+import { reciprocalRankFusion } from './fusion.js'
+import type { RetrievedDocument } from './types.js'
+
+function doc(id: string, matchedBy: RetrievedDocument['matchedBy'], similarity = 0.5): RetrievedDocument {
+  return { id, versionId: 'cpp20', title: id, content: id, metadata: {}, similarity, score: similarity, matchedBy }
+}
+
+describe('reciprocalRankFusion', () => {
+  it('scores each document by the sum of 1 / (k + rank)', () => {
+    const vector = [doc('a', ['vector']), doc('b', ['vector'])]
+    const lexical = [doc('b', ['lexical']), doc('c', ['lexical'])]
+
+    const fused = reciprocalRankFusion([vector, lexical], 10, 60)
+
+    expect(fused.map((d) => d.id)).toEqual(['b', 'a', 'c'])
+    expect(fused[0].score).toBeCloseTo(1 / 62 + 1 / 61)
+    expect(fused[1].score).toBeCloseTo(1 / 61)
+    expect(fused[2].score).toBeCloseTo(1 / 62)
+  })
+
+  it('merges matchedBy and keeps the best similarity', () => {
+    const fused = reciprocalRankFusion(
+      [[doc('a', ['vector'], 0.8)], [doc('a', ['lexical'], 0.3)]],
+      10
+    )
+
+    expect(fused).toHaveLength(1)
+    expect(fused[0].matchedBy).toEqual(['vector', 'lexical'])
+    expect(fused[0].similarity).toBe(0.8)
+  })
+
+  it('applies the limit after fusing', () => {
+    const ranking = ['a', 'b', 'c', 'd'].map((id) => doc(id, ['vector']))
+    expect(reciprocalRankFusion([ranking], 2).map((d) => d.id)).toEqual(['a', 'b'])
+  })
+
+  it('does not mutate the input documents', () => {
+    const input = doc('a', ['vector'], 0.9)
+    reciprocalRankFusion([[input], [doc('a', ['lexical'])]], 10)
+
+    expect(input.score).toBe(0.9)
+    expect(input.matchedBy).toEqual(['vector'])
+  })
+})
@@ -0,0 +1,34 @@
+import type { RetrievedDocument } from './types.js'
+
+// RRF 상수 (Cormack et al. 2009 권장값)
+const DEFAULT_RRF_K = 60
+
+/**
+ * Reciprocal Rank Fusion
+ * 여러 랭킹 리스트를 순위만으로 결합: score = Σ 1 / (k + rank)
+ * 점수 스케일이 다른 벡터/어휘 검색 결과를 정규화 없이 합칠 수 있음
+ */
+export function reciprocalRankFusion(
+  rankings: RetrievedDocument[][],
+  limit: number,
+  k = DEFAULT_RRF_K
+): RetrievedDocument[] {
+  const fused = new Map<string, RetrievedDocument>()
+
+  for (const ranking of rankings) {
+    ranking.forEach((doc, index) => {
+      const contribution = 1 / (k + index + 1)
+      const existing = fused.get(doc.id)
+
+      if (existing) {
+        existing.score += contribution
+        existing.similarity = Math.max(existing.similarity, doc.similarity)
+        existing.matchedBy = [...new Set([...existing.matchedBy, ...doc.matchedBy])]
+      } else {
+        fused.set(doc.id, { ...doc, score: contribution })
+      }
+    })
+  }
+
+  return [...fused.values()].sort((a, b) => b.score - a.score).slice(0, limit)
+}
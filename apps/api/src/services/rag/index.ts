@@ -1,5 +1,23 @@
 export * from './types.js'
 export * from './chunker.js'
+export * from './tokenizer.js'
 export { DocumentRetriever } from './retriever.js'
+export { reciprocalRankFusion } from './fusion.js'
+export * from './diversity.js'
+export * from './citations.js'
+export * from './query-rewriter.js'
+export * from './version-markers.js'
 export { DocumentProcessor } from './processor.js'
-export type { IngestDocumentInput, IngestResult, BatchIngestResult } from './processor.js'
+export type {
+  IngestDocumentInput,
+  IngestResult,
+  IngestStatus,
+  BatchIngestResult,
+  EmbeddingModelStats,
+  SourceDocumentFilters,
+  SourceDocumentSummary,
+  SourceDocumentChunk,
+  SourceDocument,
+  SourceDocumentMetadataPatch,
+} from './processor.js'
+export * from './reembed.js'
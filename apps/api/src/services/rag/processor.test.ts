@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { LocalEmbeddingProvider } from '../embedding/local.js'
+import { DocumentProcessor } from './processor.js'
+import type { ChunkMetadata } from './types.js'
+
+// 기존 청크가 없는 상태에서 replace_document_chunks 호출 인자를 기록
+function createSupabase(calls: Array<{ p_chunks: Array<{ metadata: ChunkMetadata }> }>): SupabaseClient {
+  const query = {
+    select: () => query,
+    eq: () => query,
+    then: (resolve: (value: unknown) => void) => resolve({ data: [], error: null }),
+  }
+  return {
+    from: () => query,
+    rpc: async (_name: string, args: { p_chunks: Array<{ metadata: ChunkMetadata }> }) => {
+      calls.push(args)
+      return { data: args.p_chunks.map((_, i) => ({ id: `chunk-${i}` })), error: null }
+    },
+  } as unknown as SupabaseClient
+}
+
+describe('DocumentProcessor.ingestDocument', () => {
+  it('merges parsed document markers with the markers found in each chunk', async () => {
+    const calls: Array<{ p_chunks: Array<{ metadata: ChunkMetadata }> }> = []
+    const processor = new DocumentProcessor(createSupabase(calls), new LocalEmbeddingProvider())
+
+    await processor.ingestDocument({
+      versionId: 'cpp20',
+      title: 'std::result_of',
+      content: '# std::result_of\n\nDeduces the return type of an invocation (until C++20).',
+      metadata: {
+        category: 'library',
+        url: 'https://en.cppreference.com/w/cpp/types/result_of.html',
+        versionMarkers: [
+          { version: 'cpp11', type: 'since' },
+          { version: 'cpp17', type: 'deprecated' },
+        ],
+      },
+    })
+
+    const [chunk] = calls[0].p_chunks
+    expect(chunk.metadata.versionMarkers).toEqual([
+      { version: 'cpp11', type: 'since' },
+      { version: 'cpp17', type: 'deprecated' },
+      { version: 'cpp20', type: 'until' },
+    ])
+  })
+})
@@ -1,25 +1,100 @@
+import { createHash } from 'crypto'
 import type { SupabaseClient } from '@supabase/supabase-js'
 import type { CppVersionId } from '@shuguridan/shared'
 import type { EmbeddingProvider } from '../embedding/types.js'
-import { chunkText, estimateTokenCount } from './chunker.js'
-import type { ChunkMetadata } from './types.js'
+import { chunkHtml, chunkMarkdown, chunkPlainText, type ChunkingStrategy } from './chunker.js'
+import { countTokens } from './tokenizer.js'
+import { extractVersionMarkers, mergeVersionMarkers } from './version-markers.js'
+import type { ChunkMetadata, ChunkingOptions, DocumentSourceType } from './types.js'
 
 export interface IngestDocumentInput {
   versionId: CppVersionId
   title: string
   content: string
+  sourceType?: DocumentSourceType // 기본: 'markdown'
+  sourceKey?: string // 원본 문서 식별 키 (기본: metadata.url > title)
   metadata?: Partial<ChunkMetadata>
 }
 
+// created: 새 원본, updated: 내용이 바뀌어 청크 교체, unchanged: 같은 내용이라 건너뜀
+export type IngestStatus = 'created' | 'updated' | 'unchanged'
+
 export interface IngestResult {
   documentId: string
-  chunksCreated: number
+  sourceKey: string
+  status: IngestStatus
+  chunksCreated: number // unchanged인 경우 0
   totalTokens: number
 }
 
 export interface BatchIngestResult {
   successful: IngestResult[]
   failed: Array<{ input: IngestDocumentInput; error: string }>
+  created: number
+  updated: number
+  unchanged: number
+}
+
+export interface SourceDocumentFilters {
+  versionId?: CppVersionId
+  category?: ChunkMetadata['category']
+  url?: string // 부분 일치
+  search?: string // 제목 부분 일치
+}
+
+// 원본 문서 = 같은 (version_id, source_key)를 가진 청크 묶음, id는 첫 청크 id
+export interface SourceDocumentSummary {
+  id: string
+  versionId: string
+  sourceKey: string
+  title: string
+  url: string | null
+  category: string | null
+  chunkCount: number
+  contentLength: number
+  embeddingModels: string[]
+  createdAt: string
+}
+
+export interface SourceDocumentChunk {
+  id: string
+  title: string
+  content: string
+  metadata: Record<string, unknown>
+  chunkIndex: number
+  embeddingModel: string | null
+  embeddingDimensions: number | null
+  createdAt: string
+}
+
+export interface SourceDocument {
+  id: string
+  versionId: string
+  sourceKey: string
+  contentHash: string | null
+  chunks: SourceDocumentChunk[]
+}
+
+// null = 키 삭제
+export type SourceDocumentMetadataPatch = {
+  [K in 'category' | 'section' | 'feature' | 'url']?: ChunkMetadata[K] | null
+}
+
+export interface EmbeddingModelStats {
+  model: string // 'unknown' = 모델 정보가 없는 행
+  dimensions: number | null
+  documentCount: number
+}
+
+const DEFAULT_SOURCE_TYPE: DocumentSourceType = 'markdown'
+const CHUNKING_OPTIONS: ChunkingOptions = { maxTokens: 500, overlapTokens: 50 }
+
+// 원본 형식별 청킹 전략 (PDF 추출 텍스트는 제목/코드 구조가 남아 있지 않음)
+const CHUNKING_STRATEGIES: Record<DocumentSourceType, ChunkingStrategy> = {
+  markdown: chunkMarkdown,
+  html: chunkHtml,
+  text: chunkPlainText,
+  pdf: chunkPlainText,
 }
 
 export class DocumentProcessor {
@@ -31,79 +106,95 @@ export class DocumentProcessor {
     this.embeddingProvider = embeddingProvider
   }
 
+  /**
+   * 원본 문서 단위 upsert
+   * 같은 (버전, sourceKey)에 같은 내용 해시가 있으면 임베딩 없이 건너뛰고,
+   * 내용이 바뀌었으면 기존 청크를 새 청크로 한 트랜잭션에서 교체
+   */
   async ingestDocument(input: IngestDocumentInput): Promise<IngestResult> {
     const { versionId, title, content, metadata = {} } = input
+    const sourceType = input.sourceType ?? DEFAULT_SOURCE_TYPE
+    const sourceKey = getSourceKey(input)
+    const contentHash = hashDocument(input, sourceType)
+    const totalTokens = countTokens(content)
 
-    // Check if content needs chunking
-    const tokenCount = estimateTokenCount(content)
-    const needsChunking = tokenCount > 500
-
-    if (!needsChunking) {
-      // Single document, no chunking needed
-      const embedding = await this.embeddingProvider.embed(content)
-
-      const { data, error } = await this.supabase
-        .from('spec_documents')
-        .insert({
-          version_id: versionId,
-          title,
-          content,
-          embedding,
-          metadata: {
-            ...metadata,
-            chunkIndex: 0,
-            totalChunks: 1,
-          },
-        })
-        .select('id')
-        .single()
-
-      if (error) {
-        throw new Error(`Failed to insert document: ${error.message}`)
-      }
+    const { data: existing, error: lookupError } = await this.supabase
+      .from('spec_documents')
+      .select('id, content_hash, metadata')
+      .eq('version_id', versionId)
+      .eq('source_key', sourceKey)
+
+    if (lookupError) {
+      throw new Error(`Failed to look up existing document: ${lookupError.message}`)
+    }
 
+    const existingRows = (existing || []) as Array<{
+      id: string
+      content_hash: string | null
+      metadata: Record<string, unknown>
+    }>
+
+    if (existingRows.length > 0 && existingRows.every((row) => row.content_hash === contentHash)) {
+      const firstChunk = existingRows.find((row) => row.metadata?.chunkIndex === 0) ?? existingRows[0]
       return {
-        documentId: data.id,
-        chunksCreated: 1,
-        totalTokens: tokenCount,
+        documentId: firstChunk.id,
+        sourceKey,
+        status: 'unchanged',
+        chunksCreated: 0,
+        totalTokens,
       }
     }
 
-    // Chunk the content
-    const chunks = chunkText(content, { maxTokens: 500, overlapTokens: 50 })
+    const chunks = CHUNKING_STRATEGIES[sourceType](content, CHUNKING_OPTIONS)
+    if (chunks.length === 0) {
+      throw new Error('Document has no content to ingest')
+    }
+
     const totalChunks = chunks.length
+    // 문서 단위 표기(수집 시 파싱한 HTML 클래스 표기, 제목의 "(since C++11)")는 모든 청크에 적용
+    const documentMarkers = mergeVersionMarkers(metadata.versionMarkers ?? [], extractVersionMarkers(title))
 
     // Generate embeddings for all chunks
-    const embeddings = await this.embeddingProvider.embedBatch(chunks)
+    const embeddings = await this.embeddingProvider.embedBatch(chunks.map((chunk) => chunk.content))
 
-    // Prepare insert data
-    const insertData = chunks.map((chunkContent, index) => ({
-      version_id: versionId,
-      title: `${title} (Part ${index + 1}/${totalChunks})`,
-      content: chunkContent,
+    // Prepare chunk rows (단일 청크는 원래 제목 유지)
+    const chunkRows = chunks.map((chunk, index) => ({
+      title: totalChunks === 1 ? title : `${title} (Part ${index + 1}/${totalChunks})`,
+      content: chunk.content,
       embedding: embeddings[index],
+      embedding_model: this.embeddingProvider.model,
+      embedding_dimensions: this.embeddingProvider.dimensions,
       metadata: {
         ...metadata,
-        originalTitle: title,
+        ...(totalChunks > 1 ? { originalTitle: title } : {}),
+        sourceType,
+        headingPath: chunk.headingPath,
+        versionMarkers: mergeVersionMarkers(documentMarkers, extractVersionMarkers(chunk.content)),
         chunkIndex: index,
         totalChunks,
       },
     }))
 
-    // Insert all chunks
-    const { data, error } = await this.supabase
-      .from('spec_documents')
-      .insert(insertData)
-      .select('id')
+    // Replace all chunks of this source atomically
+    const { data, error } = await this.supabase.rpc('replace_document_chunks', {
+      p_version_id: versionId,
+      p_source_key: sourceKey,
+      p_content_hash: contentHash,
+      p_chunks: chunkRows,
+    })
 
     if (error) {
-      throw new Error(`Failed to insert document chunks: ${error.message}`)
+      throw new Error(`Failed to store document chunks: ${error.message}`)
     }
 
+    const ids = (data || []) as Array<{ id: string }>
+
     return {
-      documentId: data[0].id,
+      documentId: ids[0].id,
+      sourceKey,
+      status: existingRows.length > 0 ? 'updated' : 'created',
       chunksCreated: totalChunks,
-      totalTokens: tokenCount,
+      totalTokens,
     }
   }
 
@@ -111,6 +202,9 @@ export class DocumentProcessor {
     const results: BatchIngestResult = {
       successful: [],
       failed: [],
+      created: 0,
+      updated: 0,
+      unchanged: 0,
     }
 
     // Process in parallel with concurrency limit
@@ -124,6 +218,7 @@ export class DocumentProcessor {
       batchResults.forEach((result, index) => {
         if (result.status === 'fulfilled') {
           results.successful.push(result.value)
+          results[result.value.status]++
         } else {
           results.failed.push({
             input: batch[index],
@@ -136,6 +231,198 @@ export class DocumentProcessor {
     return results
   }
 
+  async listDocuments(
+    filters: SourceDocumentFilters,
+    limit: number,
+    offset: number
+  ): Promise<{ documents: SourceDocumentSummary[]; total: number }> {
+    const { data, error } = await this.supabase.rpc('list_source_documents', {
+      filter_version: filters.versionId ?? null,
+      filter_category: filters.category ?? null,
+      filter_url: filters.url ?? null,
+      search_title: filters.search ?? null,
+      page_limit: limit,
+      page_offset: offset,
+    })
+
+    if (error) {
+      throw new Error(`Failed to list documents: ${error.message}`)
+    }
+
+    const rows = (data || []) as Array<{
+      id: string
+      version_id: string
+      source_key: string
+      title: string
+      url: string | null
+      category: string | null
+      chunk_count: number | string
+      content_length: number | string
+      embedding_models: string[]
+      created_at: string
+      total_count: number | string
+    }>
+
+    return {
+      documents: rows.map((row) => ({
+        id: row.id,
+        versionId: row.version_id,
+        sourceKey: row.source_key,
+        title: row.title,
+        url: row.url,
+        category: row.category,
+        chunkCount: Number(row.chunk_count),
+        contentLength: Number(row.content_length),
+        embeddingModels: row.embedding_models,
+        createdAt: row.created_at,
+      })),
+      // 페이지가 비어 있으면 window count를 알 수 없으므로 offset 기준으로 계산
+      total: rows.length > 0 ? Number(rows[0].total_count) : offset,
+    }
+  }
+
+  /**
+   * 원본 문서의 모든 청크 (id는 원본 문서의 어느 청크 id여도 됨)
+   */
+  async getDocument(id: string): Promise<SourceDocument | null> {
+    const source = await this.resolveSource(id)
+    if (!source) return null
+
+    const { data, error } = await this.supabase
+      .from('spec_documents')
+      .select('id, title, content, metadata, content_hash, embedding_model, embedding_dimensions, created_at')
+      .eq('version_id', source.versionId)
+      .eq('source_key', source.sourceKey)
+
+    if (error) {
+      throw new Error(`Failed to fetch document chunks: ${error.message}`)
+    }
+
+    const rows = (data || []) as Array<{
+      id: string
+      title: string
+      content: string
+      metadata: Record<string, unknown> | null
+      content_hash: string | null
+      embedding_model: string | null
+      embedding_dimensions: number | null
+      created_at: string
+    }>
+    if (rows.length === 0) return null
+
+    const chunks = rows
+      .map((row) => ({
+        id: row.id,
+        title: row.title,
+        content: row.content,
+        metadata: row.metadata ?? {},
+        chunkIndex: typeof row.metadata?.chunkIndex === 'number' ? row.metadata.chunkIndex : 0,
+        embeddingModel: row.embedding_model,
+        embeddingDimensions: row.embedding_dimensions,
+        createdAt: row.created_at,
+      }))
+      .sort((a, b) => a.chunkIndex - b.chunkIndex)
+
+    return {
+      id: chunks[0].id,
+      versionId: source.versionId,
+      sourceKey: source.sourceKey,
+      contentHash: rows[0].content_hash,
+      chunks,
+    }
+  }
+
+  /**
+   * 원본 문서의 모든 청크 metadata 수정
+   */
+  async updateDocumentMetadata(
+    id: string,
+    patch: SourceDocumentMetadataPatch
+  ): Promise<SourceDocument | null> {
+    const source = await this.resolveSource(id)
+    if (!source) return null
+
+    const { error } = await this.supabase.rpc('patch_source_document_metadata', {
+      p_version_id: source.versionId,
+      p_source_key: source.sourceKey,
+      p_patch: patch,
+    })
+
+    if (error) {
+      throw new Error(`Failed to update document metadata: ${error.message}`)
+    }
+
+    return this.getDocument(id)
+  }
+
+  /**
+   * 원본 문서와 모든 청크 삭제 (삭제된 청크 수 반환, 없으면 null)
+   */
+  async deleteDocument(id: string): Promise<number | null> {
+    const source = await this.resolveSource(id)
+    if (!source) return null
+
+    const { data, error } = await this.supabase
+      .from('spec_documents')
+      .delete()
+      .eq('version_id', source.versionId)
+      .eq('source_key', source.sourceKey)
+      .select('id')
+
+    if (error) {
+      throw new Error(`Failed to delete document: ${error.message}`)
+    }
+
+    return data?.length || 0
+  }
+
+  /**
+   * 원본 문서의 청크를 현재 임베딩 모델로 다시 임베딩 (청크 내용은 유지)
+   */
+  async reembedDocument(id: string): Promise<{ chunksReembedded: number; model: string } | null> {
+    const document = await this.getDocument(id)
+    if (!document) return null
+
+    const embeddings = await this.embeddingProvider.embedBatch(
+      document.chunks.map((chunk) => chunk.content)
+    )
+
+    const results = await Promise.all(
+      document.chunks.map((chunk, index) =>
+        this.supabase
+          .from('spec_documents')
+          .update({
+            embedding: embeddings[index],
+            embedding_model: this.embeddingProvider.model,
+            embedding_dimensions: this.embeddingProvider.dimensions,
+          })
+          .eq('id', chunk.id)
+      )
+    )
+
+    const failed = results.find((result) => result.error)
+    if (failed?.error) {
+      throw new Error(`Failed to update embeddings: ${failed.error.message}`)
+    }
+
+    return { chunksReembedded: document.chunks.length, model: this.embeddingProvider.model }
+  }
+
+  private async resolveSource(id: string): Promise<{ versionId: string; sourceKey: string } | null> {
+    const { data, error } = await this.supabase
+      .from('spec_documents')
+      .select('version_id, source_key')
+      .eq('id', id)
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Failed to fetch document: ${error.message}`)
+    }
+    if (!data) return null
+
+    return { versionId: data.version_id, sourceKey: data.source_key }
+  }
+
   async deleteByVersion(versionId: CppVersionId): Promise<number> {
     const { data, error } = await this.supabase
       .from('spec_documents')
@@ -167,4 +454,68 @@ export class DocumentProcessor {
 
     return count || 0
   }
+
+  /**
+   * 버전별 검색 가능한 문서 청크 수 (현재 임베딩 모델 기준)
+   */
+  async getVersionDocumentCounts(): Promise<Partial<Record<CppVersionId, number>>> {
+    const { data, error } = await this.supabase.rpc('version_document_counts', {
+      filter_model: this.embeddingProvider.model,
+    })
+
+    if (error) {
+      throw new Error(`Failed to count documents by version: ${error.message}`)
+    }
+
+    const counts: Partial<Record<CppVersionId, number>> = {}
+    for (const row of (data || []) as Array<{ version_id: CppVersionId; document_count: number | string }>) {
+      counts[row.version_id] = Number(row.document_count)
+    }
+    return counts
+  }
+
+  /**
+   * 임베딩 모델별 문서 수
+   */
+  async getEmbeddingModelStats(): Promise<EmbeddingModelStats[]> {
+    const { data, error } = await this.supabase.rpc('embedding_model_stats')
+
+    if (error) {
+      throw new Error(`Failed to get embedding model stats: ${error.message}`)
+    }
+
+    return (data || []).map((row: {
+      embedding_model: string
+      embedding_dimensions: number | null
+      document_count: number | string
+    }) => ({
+      model: row.embedding_model,
+      dimensions: row.embedding_dimensions,
+      documentCount: Number(row.document_count),
+    }))
+  }
+}
+
+/**
+ * 원본 문서 식별 키 (migration 00007의 기존 행 backfill 규칙과 동일)
+ */
+function getSourceKey(input: IngestDocumentInput): string {
+  return input.sourceKey || input.metadata?.url || input.title
+}
+
+/**
+ * 청크 결과에 영향을 주는 입력 전체의 해시
+ */
+function hashDocument(input: IngestDocumentInput, sourceType: DocumentSourceType): string {
+  return createHash('sha256')
+    .update(
+      JSON.stringify({
+        title: input.title,
+        sourceType,
+        chunking: CHUNKING_OPTIONS,
+        metadata: input.metadata ?? {},
+        content: input.content,
+      })
+    )
+    .digest('hex')
 }
@@ -0,0 +1,141 @@
+import { z } from 'zod'
+import type { CppVersionId } from '@shuguridan/shared'
+import type { ChatMessage, LLMProvider, LLMResponse } from '../llm/types.js'
+import { UsageAccumulator } from '../usage/index.js'
+
+// 재작성 프롬프트에 포함할 최근 메시지 수와 메시지당 길이
+const MAX_HISTORY_MESSAGES = 8
+const MAX_MESSAGE_CHARS = 1000
+const DEFAULT_MAX_SUB_QUERIES = 3
+
+export interface SearchQuery {
+  query: string
+  filterVersion?: CppVersionId // 없으면 호출 측의 기본 버전 목록 전체
+}
+
+export interface RewrittenQuery {
+  standalone: string // 대화 맥락 없이 이해 가능한 검색 질의
+  subQueries: SearchQuery[] // 확장 질의 (버전별/측면별)
+  rewritten: boolean // LLM 재작성 여부 (false = 마지막 사용자 메시지 그대로)
+}
+
+export interface QueryRewriteOptions {
+  versions: CppVersionId[] // 대화 대상 버전 (확장 질의의 버전 후보)
+  expand?: boolean // 하위 질의로 확장 (기본: false)
+  maxSubQueries?: number
+}
+
+const rewriteSchema = z.object({
+  standaloneQuery: z.string().min(1),
+  subQueries: z
+    .array(
+      z.object({
+        query: z.string().min(1),
+        version: z.string().optional(),
+      })
+    )
+    .optional()
+    .default([]),
+})
+
+function formatHistory(messages: ChatMessage[]): string {
+  return messages
+    .slice(-MAX_HISTORY_MESSAGES)
+    .map((message) => {
+      const content = message.content.length > MAX_MESSAGE_CHARS
+        ? `${message.content.slice(0, MAX_MESSAGE_CHARS)}...`
+        : message.content
+      return `${message.role === 'user' ? 'User' : 'Assistant'}: ${content}`
+    })
+    .join('\n\n')
+}
+
+function buildRewritePrompt(messages: ChatMessage[], options: Required<QueryRewriteOptions>): string {
+  const expansion = options.expand
+    ? `
+Also split the question into at most ${options.maxSubQueries} focused sub-queries for document search
+(e.g. one per C++ version or per feature when the question compares several).
+Set "version" to one of ${options.versions.join(', ')} when a sub-query is about a specific version.`
+    : `
+Return an empty "subQueries" array.`
+
+  return `Rewrite the last user message of the conversation into a standalone search query
+for C++ standard documentation (cppreference). Resolve pronouns and references
+("the second one", "그거", "that feature") using the conversation history.
+Keep C++ identifiers (std::..., keywords, attributes) exactly as written.
+Write the query in English unless it only makes sense in the original language.
+${expansion}
+
+Conversation (${options.versions.join(' → ')}):
+${formatHistory(messages)}
+
+Respond ONLY with JSON in a \`\`\`json code block:
+{"standaloneQuery": "...", "subQueries": [{"query": "...", "version": "${options.versions[0]}"}]}`
+}
+
+/**
+ * 멀티턴 대화를 검색용 단독 질의로 재작성하고, 선택적으로 하위 질의로 확장
+ * 재작성 실패 시 마지막 사용자 메시지를 그대로 사용
+ */
+export class QueryRewriter {
+  private llmProvider: LLMProvider
+  private usage = new UsageAccumulator()
+
+  constructor(llmProvider: LLMProvider) {
+    this.llmProvider = llmProvider
+  }
+
+  async rewrite(messages: ChatMessage[], options: QueryRewriteOptions): Promise<RewrittenQuery> {
+    const lastUserMessage = [...messages].reverse().find((m) => m.role === 'user')
+    const fallback: RewrittenQuery = {
+      standalone: lastUserMessage?.content ?? '',
+      subQueries: [],
+      rewritten: false,
+    }
+
+    if (!lastUserMessage) return fallback
+
+    const expand = options.expand ?? false
+    // 첫 질문은 이미 단독 질의이므로 확장하지 않으면 LLM 호출 생략
+    if (!expand && messages.length === 1) return fallback
+
+    try {
+      const response = await this.llmProvider.generateStructured(
+        buildRewritePrompt(messages, {
+          versions: options.versions,
+          expand,
+          maxSubQueries: options.maxSubQueries ?? DEFAULT_MAX_SUB_QUERIES,
+        }),
+        rewriteSchema,
+        { maxRepairs: 1 }
+      )
+      this.usage.add(response)
+
+      const allowedVersions = new Set<string>(options.versions)
+      const subQueries = expand
+        ? response.data.subQueries
+            .slice(0, options.maxSubQueries ?? DEFAULT_MAX_SUB_QUERIES)
+            .map((sub) => ({
+              query: sub.query,
+              // 대화 대상이 아닌 버전은 무시하고 전체 버전으로 검색
+              filterVersion: sub.version && allowedVersions.has(sub.version)
+                ? (sub.version as CppVersionId)
+                : undefined,
+            }))
+        : []
+
+      return {
+        standalone: response.data.standaloneQuery,
+        subQueries,
+        rewritten: true,
+      }
+    } catch (error) {
+      console.error('Query rewrite failed, using last user message:', error)
+      return fallback
+    }
+  }
+
+  getUsage(): Omit<LLMResponse, 'content'> | null {
+    return this.usage.get()
+  }
+}
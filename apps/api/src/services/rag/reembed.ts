@@ -0,0 +1,185 @@
+import { v4 as uuidv4 } from 'uuid'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { CppVersionId } from '@shuguridan/shared'
+import type { EmbeddingProvider } from '../embedding/types.js'
+import { UsageTracker } from '../usage/index.js'
+
+export type ReembedJobStatus = 'pending' | 'processing' | 'completed' | 'failed'
+
+export interface ReembedJob {
+  id: string
+  targetModel: string
+  targetDimensions: number
+  versionId: CppVersionId | null
+  status: ReembedJobStatus
+  total: number
+  processed: number
+  failed: number
+  error?: string
+  createdAt: Date
+  updatedAt: Date
+}
+
+export interface ReembedOptions {
+  versionId?: CppVersionId
+  batchSize?: number
+}
+
+const DEFAULT_BATCH_SIZE = 50
+const UPDATE_CONCURRENCY = 10
+
+// In-memory job storage (upload job-manager와 동일하게 1시간 후 정리)
+const jobs = new Map<string, ReembedJob>()
+const JOB_TTL_MS = 60 * 60 * 1000
+
+/**
+ * 대상 모델과 다른 모델로 임베딩된 행 (모델 정보가 없는 행 포함)
+ */
+function staleRowsFilter(model: string): string {
+  return `embedding_model.is.null,embedding_model.neq."${model}"`
+}
+
+export function getReembedJob(jobId: string): ReembedJob | null {
+  return jobs.get(jobId) || null
+}
+
+export function getActiveReembedJob(): ReembedJob | null {
+  for (const job of jobs.values()) {
+    if (job.status === 'pending' || job.status === 'processing') return job
+  }
+  return null
+}
+
+export function getReembedProgress(job: ReembedJob): number {
+  return job.total > 0 ? Math.round(((job.processed + job.failed) / job.total) * 100) : 100
+}
+
+/**
+ * 코퍼스를 현재 임베딩 모델로 다시 임베딩하는 백그라운드 작업 시작
+ * 행 단위로 embedding/embedding_model을 함께 갱신하므로, 진행 중에도 검색은
+ * 활성 모델로 이미 변환된 행만 대상으로 하여 벡터가 섞이지 않음
+ */
+export function startReembedJob(
+  supabase: SupabaseClient,
+  embeddingProvider: EmbeddingProvider,
+  options: ReembedOptions = {}
+): ReembedJob {
+  const active = getActiveReembedJob()
+  if (active) {
+    throw new Error(`Re-embed job ${active.id} is already running`)
+  }
+
+  const now = new Date()
+  const job: ReembedJob = {
+    id: uuidv4(),
+    targetModel: embeddingProvider.model,
+    targetDimensions: embeddingProvider.dimensions,
+    versionId: options.versionId ?? null,
+    status: 'pending',
+    total: 0,
+    processed: 0,
+    failed: 0,
+    createdAt: now,
+    updatedAt: now,
+  }
+
+  jobs.set(job.id, job)
+  setTimeout(() => jobs.delete(job.id), JOB_TTL_MS)
+
+  // Start background processing (don't await)
+  runReembedJob(job, supabase, embeddingProvider, options.batchSize ?? DEFAULT_BATCH_SIZE).catch(
+    (error) => {
+      console.error('Re-embed job failed:', error)
+      job.status = 'failed'
+      job.error = error instanceof Error ? error.message : 'Unknown error'
+      job.updatedAt = new Date()
+    }
+  )
+
+  return job
+}
+
+async function runReembedJob(
+  job: ReembedJob,
+  supabase: SupabaseClient,
+  embeddingProvider: EmbeddingProvider,
+  batchSize: number
+): Promise<void> {
+  let countQuery = supabase
+    .from('spec_documents')
+    .select('id', { count: 'exact', head: true })
+    .or(staleRowsFilter(job.targetModel))
+  if (job.versionId) countQuery = countQuery.eq('version_id', job.versionId)
+
+  const { count, error: countError } = await countQuery
+  if (countError) {
+    throw new Error(`Failed to count documents: ${countError.message}`)
+  }
+
+  job.total = count || 0
+  job.status = 'processing'
+  job.updatedAt = new Date()
+
+  // id 기준 keyset pagination (실패한 행이 반복 조회되지 않도록)
+  let lastId: string | null = null
+
+  while (true) {
+    let query = supabase
+      .from('spec_documents')
+      .select('id, content')
+      .or(staleRowsFilter(job.targetModel))
+      .order('id', { ascending: true })
+      .limit(batchSize)
+    if (job.versionId) query = query.eq('version_id', job.versionId)
+    if (lastId) query = query.gt('id', lastId)
+
+    const { data, error } = await query
+    if (error) {
+      throw new Error(`Failed to fetch documents: ${error.message}`)
+    }
+
+    const rows = (data || []) as Array<{ id: string; content: string }>
+    if (rows.length === 0) break
+    lastId = rows[rows.length - 1].id
+
+    let embeddings: number[][]
+    try {
+      embeddings = await embeddingProvider.embedBatch(rows.map((row) => row.content))
+    } catch (embedError) {
+      console.error('Re-embed batch failed:', embedError)
+      job.failed += rows.length
+      job.updatedAt = new Date()
+      continue
+    }
+
+    for (let i = 0; i < rows.length; i += UPDATE_CONCURRENCY) {
+      const slice = rows.slice(i, i + UPDATE_CONCURRENCY)
+      const results = await Promise.all(
+        slice.map((row, index) =>
+          supabase
+            .from('spec_documents')
+            .update({
+              embedding: embeddings[i + index],
+              embedding_model: job.targetModel,
+              embedding_dimensions: job.targetDimensions,
+            })
+            .eq('id', row.id)
+        )
+      )
+
+      for (const result of results) {
+        if (result.error) {
+          job.failed++
+        } else {
+          job.processed++
+        }
+      }
+      job.updatedAt = new Date()
+    }
+  }
+
+  await new UsageTracker(supabase).recordEmbedding({ route: 'ingest/reembed' }, embeddingProvider)
+
+  job.status = job.failed > 0 && job.processed === 0 ? 'failed' : 'completed'
+  job.updatedAt = new Date()
+}
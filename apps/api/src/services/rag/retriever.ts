@@ -1,9 +1,33 @@
 import type { SupabaseClient } from '@supabase/supabase-js'
 import type { EmbeddingProvider } from '../embedding/types.js'
-import type { RetrievedDocument, RetrievalOptions } from './types.js'
+import { reciprocalRankFusion } from './fusion.js'
+import { diversifyDocuments, type DiversifyOptions } from './diversity.js'
+import { getSourceUrl } from './citations.js'
+import { formatVersionMarkers } from './version-markers.js'
+import type { SearchQuery } from './query-rewriter.js'
+import type {
+  RetrievedDocument,
+  RetrievalOptions,
+  RetrievalMode,
+  VersionLifecycleFilter,
+  VersionMarker,
+} from './types.js'
 
 const DEFAULT_THRESHOLD = 0.5
 const DEFAULT_LIMIT = 10
+const DEFAULT_MODE: RetrievalMode = 'hybrid'
+// hybrid 모드에서 각 검색 경로가 가져올 후보 수 (limit 배수)
+const HYBRID_CANDIDATE_MULTIPLIER = 3
+// 다양화(MMR) 시 가져올 후보 수 (limit 배수)
+const DIVERSIFY_CANDIDATE_MULTIPLIER = 3
+
+interface DocumentRow {
+  id: string
+  version_id: string
+  title: string
+  content: string
+  metadata: Record<string, unknown>
+}
 
 export class DocumentRetriever {
   private supabase: SupabaseClient
@@ -21,36 +45,123 @@ export class DocumentRetriever {
     const threshold = options.threshold ?? DEFAULT_THRESHOLD
     const limit = options.limit ?? DEFAULT_LIMIT
     const filterVersion = options.filterVersion ?? null
+    const lifecycle = options.lifecycle ?? null
+    const mode = options.mode ?? DEFAULT_MODE
+    const diversify = options.diversify !== false
+
+    const candidateLimit = diversify ? limit * DIVERSIFY_CANDIDATE_MULTIPLIER : limit
+    const candidates = await this.search(query, mode, threshold, candidateLimit, filterVersion, lifecycle)
+
+    if (!diversify) return candidates
+
+    return this.diversify(candidates, {
+      limit,
+      lambda: options.mmrLambda,
+      maxChunksPerDocument: options.maxChunksPerDocument,
+    })
+  }
+
+  /**
+   * 같은 페이지의 "Part n/m" 청크를 원본 문서 단위로 묶고 MMR로 다양한 주제를 선택
+   * 여러 번의 검색 결과를 합친 경우에도 사용 가능 (id 중복 제거 포함)
+   */
+  diversify(documents: RetrievedDocument[], options: DiversifyOptions): RetrievedDocument[] {
+    return diversifyDocuments(documents, options)
+  }
+
+  private async search(
+    query: string,
+    mode: RetrievalMode,
+    threshold: number,
+    limit: number,
+    filterVersion: string | null,
+    lifecycle: VersionLifecycleFilter | null
+  ): Promise<RetrievedDocument[]> {
+    if (mode === 'vector') {
+      return this.vectorSearch(query, threshold, limit, filterVersion, lifecycle)
+    }
 
+    if (mode === 'lexical') {
+      return this.lexicalSearch(query, limit, filterVersion, lifecycle)
+    }
+
+    // Hybrid: 두 경로의 후보를 RRF로 결합
+    const candidateLimit = limit * HYBRID_CANDIDATE_MULTIPLIER
+    const [vectorResults, lexicalResults] = await Promise.all([
+      this.vectorSearch(query, threshold, candidateLimit, filterVersion, lifecycle),
+      this.lexicalSearch(query, candidateLimit, filterVersion, lifecycle),
+    ])
+
+    return reciprocalRankFusion([vectorResults, lexicalResults], limit)
+  }
+
+  private async vectorSearch(
+    query: string,
+    threshold: number,
+    limit: number,
+    filterVersion: string | null,
+    lifecycle: VersionLifecycleFilter | null
+  ): Promise<RetrievedDocument[]> {
     // Generate embedding for the query
     const queryEmbedding = await this.embeddingProvider.embed(query)
 
     // Call the similarity search function
+    // 다른 모델로 생성된 벡터와 섞이지 않도록 현재 임베딩 모델의 행만 검색
     const { data, error } = await this.supabase.rpc('match_documents', {
       query_embedding: queryEmbedding,
       match_threshold: threshold,
       match_count: limit,
       filter_version: filterVersion,
+      filter_model: this.embeddingProvider.model,
+      filter_lifecycle: lifecycle,
     })
 
     if (error) {
       throw new Error(`Failed to retrieve documents: ${error.message}`)
     }
 
-    return (data || []).map((doc: {
-      id: string
-      version_id: string
-      title: string
-      content: string
-      metadata: Record<string, unknown>
-      similarity: number
-    }) => ({
+    return (data || []).map((doc: DocumentRow & { similarity: number }) => ({
       id: doc.id,
       versionId: doc.version_id,
       title: doc.title,
       content: doc.content,
       metadata: doc.metadata,
       similarity: doc.similarity,
+      score: doc.similarity,
+      matchedBy: ['vector'],
+    }))
+  }
+
+  /**
+   * Full-text + title trigram search (match_documents_lexical)
+   * std::launder, [[nodiscard]], P0135R1 같은 정확한 식별자 검색용
+   */
+  private async lexicalSearch(
+    query: string,
+    limit: number,
+    filterVersion: string | null,
+    lifecycle: VersionLifecycleFilter | null
+  ): Promise<RetrievedDocument[]> {
+    const { data, error } = await this.supabase.rpc('match_documents_lexical', {
+      query_text: query,
+      match_count: limit,
+      filter_version: filterVersion,
+      filter_lifecycle: lifecycle,
+    })
+
+    if (error) {
+      throw new Error(`Failed to retrieve documents (lexical): ${error.message}`)
+    }
+
+    return (data || []).map((doc: DocumentRow & { score: number }) => ({
+      id: doc.id,
+      versionId: doc.version_id,
+      title: doc.title,
+      content: doc.content,
+      metadata: doc.metadata,
+      similarity: Math.min(1, doc.score),
+      score: doc.score,
+      matchedBy: ['lexical'],
     }))
   }
 
@@ -74,6 +185,41 @@ export class DocumentRetriever {
     return results
   }
 
+  /**
+   * 여러 질의(재작성/확장 질의)의 결과를 RRF로 합친 뒤 원본 문서 단위로 다양화
+   * filterVersion이 없는 질의는 versions의 각 버전으로 검색
+   */
+  async retrieveQueries(
+    queries: SearchQuery[],
+    versions: string[],
+    options: Omit<RetrievalOptions, 'filterVersion'> = {}
+  ): Promise<RetrievedDocument[]> {
+    const limit = options.limit ?? DEFAULT_LIMIT
+    const searches = queries.flatMap((search) =>
+      search.filterVersion
+        ? [{ query: search.query, version: search.filterVersion as string }]
+        : versions.map((version) => ({ query: search.query, version }))
+    )
+    // 같은 질의/버전 조합은 한 번만 검색
+    const uniqueSearches = [...new Map(searches.map((s) => [`${s.version}:${s.query}`, s])).values()]
+
+    const rankings = await Promise.all(
+      uniqueSearches.map(({ query, version }) =>
+        this.retrieve(query, {
+          ...options,
+          filterVersion: version as RetrievalOptions['filterVersion'],
+        })
+      )
+    )
+
+    const fused = reciprocalRankFusion(rankings, limit * DIVERSIFY_CANDIDATE_MULTIPLIER)
+    return this.diversify(fused, {
+      limit,
+      lambda: options.mmrLambda,
+      maxChunksPerDocument: options.maxChunksPerDocument,
+    })
+  }
+
   formatContextForLLM(documents: RetrievedDocument[]): string {
     if (documents.length === 0) {
       return 'No relevant documents found.'
@@ -81,9 +227,19 @@ export class DocumentRetriever {
 
     return documents
       .map((doc, index) => {
-        const header = `[Document ${index + 1}] ${doc.title} (${doc.versionId})`
+        // 본문에서 [n]으로 인용하도록 번호를 붙임 (toCitedSources와 같은 순서)
+        const header = `[${index + 1}] ${doc.title} (${doc.versionId})`
         const similarity = `Relevance: ${(doc.similarity * 100).toFixed(1)}%`
-        return `${header}\n${similarity}\n\n${doc.content}`
+        const source = `Source: ${getSourceUrl(doc)}`
+        const headingPath = doc.metadata.headingPath
+        const section = Array.isArray(headingPath) && headingPath.length > 0
+          ? `\nSection: ${headingPath.join(' > ')}`
+          : ''
+        const markers = doc.metadata.versionMarkers as VersionMarker[] | undefined
+        const versions = Array.isArray(markers) && markers.length > 0
+          ? `\nVersions: ${formatVersionMarkers(markers)}`
+          : ''
+        return `${header}\n${similarity}\n${source}${section}${versions}\n\n${doc.content}`
       })
       .join('\n\n---\n\n')
   }
@@ -0,0 +1,25 @@
+import { Tiktoken } from 'js-tiktoken/lite'
+import cl100k_base from 'js-tiktoken/ranks/cl100k_base'
+
+// text-embedding-3-* / GPT-4 계열이 사용하는 BPE 인코딩
+let encoder: Tiktoken | null = null
+
+function getEncoder(): Tiktoken {
+  if (!encoder) {
+    encoder = new Tiktoken(cl100k_base)
+  }
+  return encoder
+}
+
+export function encodeTokens(text: string): number[] {
+  // 문서에 <|endoftext|> 같은 특수 토큰 문자열이 있어도 일반 텍스트로 취급
+  return getEncoder().encode(text, [], [])
+}
+
+export function decodeTokens(tokens: number[]): string {
+  return getEncoder().decode(tokens)
+}
+
+export function countTokens(text: string): number {
+  return encodeTokens(text).length
+}
@@ -7,11 +7,25 @@ export interface DocumentChunk {
   metadata: ChunkMetadata
 }
 
+// 수집 원본 형식 (청킹 전략 선택 기준)
+export type DocumentSourceType = 'markdown' | 'html' | 'text' | 'pdf'
+
+export type VersionMarkerType = 'since' | 'until' | 'deprecated'
+
+// cppreference 개정 표기 ('removed in'은 until로 저장)
+export interface VersionMarker {
+  version: CppVersionId
+  type: VersionMarkerType
+}
+
 export interface ChunkMetadata {
   category: 'language' | 'library' | 'compiler'
   section: string
   feature?: string
   url?: string
+  sourceType?: DocumentSourceType
+  headingPath?: string[] // 청크가 속한 제목 경로
+  versionMarkers?: VersionMarker[] // 원본 HTML 표기 + 청크 본문/제목의 (since/until/deprecated in C++NN) 표기
   chunkIndex: number
   totalChunks: number
 }
@@ -22,13 +36,44 @@ export interface RetrievedDocument {
   title: string
   content: string
   metadata: Record<string, unknown>
+  similarity: number // 벡터 코사인 유사도 (어휘 검색만으로 찾은 경우 어휘 점수 0..1)
+  score: number // 검색 모드별 정렬 점수 (hybrid: RRF 점수)
+  matchedBy: Array<'vector' | 'lexical'> // 문서를 찾은 검색 경로
+}
+
+/**
+ * LLM 컨텍스트에 [n] 번호로 포함된 출처
+ */
+export interface CitedSource {
+  index: number // 컨텍스트/본문의 [n] 번호 (1부터)
+  id: string
+  title: string
+  versionId: string
+  url: string // cppreference 문서 URL (원본 URL이 없으면 검색 URL)
   similarity: number
 }
 
+export type RetrievalMode = 'vector' | 'lexical' | 'hybrid'
+
 export interface RetrievalOptions {
-  threshold?: number
+  threshold?: number // 벡터 검색에만 적용
   limit?: number
   filterVersion?: CppVersionId
+  mode?: RetrievalMode // 기본: 'hybrid'
+  diversify?: boolean // 원본 문서 그룹핑 + MMR 다양화 (기본: true)
+  mmrLambda?: number // 0..1, 클수록 관련성 우선 (기본: 0.7)
+  maxChunksPerDocument?: number // 같은 원본 문서에서 허용할 청크 수 (기본: 1)
+  lifecycle?: VersionLifecycleFilter // 청크 버전 표기 기반 필터 (version_id 필터와 별개)
+}
+
+/**
+ * 청크의 versionMarkers 기반 필터 (조건은 AND)
+ * 예: { validIn: 'cpp17', removedBy: 'cpp20' } = C++17에서 유효하지만 C++20까지 제거된 내용
+ */
+export interface VersionLifecycleFilter {
+  validIn?: CppVersionId // 해당 버전에서 유효한 내용 포함 (전부 이후에 추가되었거나 이전에 제거된 청크 제외)
+  removedBy?: CppVersionId // until 표기 ≤ removedBy (validIn이 있으면 validIn 이후 제거)
+  deprecatedBy?: CppVersionId // deprecated 표기 ≤ deprecatedBy
 }
 
 export interface ChunkingOptions {
@@ -0,0 +1,58 @@
+import { compareVersions, type CppVersionId } from '@shuguridan/shared'
+import type { VersionMarker, VersionMarkerType } from './types.js'
+
+// cppreference 본문의 개정 표기: (since C++17), (until C++20), (deprecated in C++17), (removed in C++20)
+const MARKER_PATTERN = /\((since|until|deprecated in|removed in) C\+\+(\d{2})\)/gi
+
+const MARKER_TYPES: Record<string, VersionMarkerType> = {
+  'since': 'since',
+  'until': 'until',
+  'deprecated in': 'deprecated',
+  'removed in': 'until',
+}
+
+/**
+ * 텍스트에서 버전 표기 추출 (중복 제거, 등장 순서 유지)
+ * 청크 단위로 호출해 청크별 metadata.versionMarkers로 저장
+ */
+export function extractVersionMarkers(text: string): VersionMarker[] {
+  const markers: VersionMarker[] = []
+  const seen = new Set<string>()
+
+  for (const match of text.matchAll(MARKER_PATTERN)) {
+    const type = MARKER_TYPES[match[1].toLowerCase()]
+    const version = `cpp${match[2]}` as CppVersionId
+    const key = `${type}:${version}`
+    if (seen.has(key)) continue
+    seen.add(key)
+    markers.push({ version, type })
+  }
+
+  return markers
+}
+
+/**
+ * 두 마커 목록을 합침 (중복 제거)
+ */
+export function mergeVersionMarkers(...lists: VersionMarker[][]): VersionMarker[] {
+  const merged = new Map<string, VersionMarker>()
+  for (const marker of lists.flat()) {
+    merged.set(`${marker.type}:${marker.version}`, marker)
+  }
+  return [...merged.values()]
+}
+
+/**
+ * LLM 컨텍스트용 표기 (예: "since C++11, deprecated in C++17, until C++20")
+ */
+export function formatVersionMarkers(markers: VersionMarker[]): string {
+  const labels: Record<VersionMarkerType, string> = {
+    since: 'since',
+    until: 'until',
+    deprecated: 'deprecated in',
+  }
+  return [...markers]
+    .sort((a, b) => compareVersions(a.version, b.version))
+    .map((marker) => `${labels[marker.type]} C++${marker.version.slice(3)}`)
+    .join(', ')
+}
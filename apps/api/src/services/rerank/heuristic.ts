@@ -0,0 +1,70 @@
+import { tokenize } from '../../lib/text.js'
+import type { RetrievedDocument } from '../rag/types.js'
+import type { RerankOptions, RerankedDocument, Reranker } from './types.js'
+
+const DEFAULT_TOP_N = 20
+
+// 최종 점수 가중치
+const CONTENT_COVERAGE_WEIGHT = 0.4
+const TITLE_COVERAGE_WEIGHT = 0.3
+const RETRIEVAL_SCORE_WEIGHT = 0.3
+
+// 질의에서 의미 없는 토큰 (한/영 공통)
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'how', 'in', 'is', 'it',
+  'of', 'on', 'or', 'the', 'to', 'what', 'when', 'which', 'with', 'cpp', 'c',
+  '무엇', '어떻게', '있나요', '인가요', '차이', '대해',
+])
+
+function queryTerms(query: string): Set<string> {
+  return new Set(tokenize(query).filter((t) => t.length > 1 && !STOPWORDS.has(t)))
+}
+
+function coverage(terms: Set<string>, tokens: Set<string>): number {
+  if (terms.size === 0) return 0
+  let hits = 0
+  for (const term of terms) {
+    if (tokens.has(term)) hits++
+  }
+  return hits / terms.size
+}
+
+/**
+ * Local heuristic reranker (네트워크/LLM 호출 없음)
+ * 질의 용어가 제목/본문에 얼마나 등장하는지와 원래 검색 점수를 결합
+ * 질의 용어가 제목에 전혀 없는 주변 페이지(tangential page)는 순위가 내려감
+ */
+export class HeuristicReranker implements Reranker {
+  name = 'heuristic'
+
+  async rerank(
+    query: string,
+    documents: RetrievedDocument[],
+    options: RerankOptions = {}
+  ): Promise<RerankedDocument[]> {
+    const topN = options.topN ?? DEFAULT_TOP_N
+    const candidates = documents.slice(0, topN)
+    const rest = documents.slice(topN)
+
+    const terms = queryTerms(query)
+    const maxScore = Math.max(...candidates.map((d) => d.score), Number.EPSILON)
+
+    const reranked = candidates
+      .map((doc) => {
+        const titleTokens = new Set(tokenize(String(doc.metadata.originalTitle ?? doc.title)))
+        const contentTokens = new Set(tokenize(doc.content))
+        const rerankScore =
+          CONTENT_COVERAGE_WEIGHT * coverage(terms, contentTokens) +
+          TITLE_COVERAGE_WEIGHT * coverage(terms, titleTokens) +
+          RETRIEVAL_SCORE_WEIGHT * (doc.score / maxScore)
+        return { ...doc, rerankScore }
+      })
+      .sort((a, b) => b.rerankScore - a.rerankScore)
+
+    return [...reranked, ...rest.map((doc) => ({ ...doc, rerankScore: 0 }))]
+  }
+
+  getUsage(): null {
+    return null
+  }
+}
@@ -0,0 +1,43 @@
+import { HeuristicReranker } from './heuristic.js'
+import { LLMReranker } from './llm.js'
+import type { LLMProvider } from '../llm/types.js'
+import type { Reranker, RerankerConfig } from './types.js'
+
+/**
+ * Create a reranker based on configuration
+ * 'none'이면 null (재순위화 생략)
+ */
+export function createReranker(config: RerankerConfig, llmProvider?: LLMProvider): Reranker | null {
+  switch (config.provider) {
+    case 'heuristic':
+      return new HeuristicReranker()
+
+    case 'llm':
+      if (!llmProvider) throw new Error('LLM provider required for LLM reranker')
+      return new LLMReranker(llmProvider)
+
+    case 'none':
+      return null
+
+    default:
+      throw new Error(`Unknown reranker: ${config.provider}`)
+  }
+}
+
+/**
+ * Get default reranker from environment (RERANKER=heuristic|llm|none, 기본: none)
+ */
+export function getDefaultReranker(llmProvider?: LLMProvider): Reranker | null {
+  const provider = (process.env.RERANKER || 'none') as RerankerConfig['provider']
+
+  if (provider === 'llm' && !llmProvider) {
+    console.warn('LLM reranker selected but no LLM provider available, falling back to heuristic')
+    return new HeuristicReranker()
+  }
+
+  return createReranker({ provider }, llmProvider)
+}
+
+export * from './types.js'
+export { HeuristicReranker } from './heuristic.js'
+export { LLMReranker } from './llm.js'
@@ -0,0 +1,96 @@
+import { z } from 'zod'
+import type { LLMProvider, LLMResponse } from '../llm/types.js'
+import type { RetrievedDocument } from '../rag/types.js'
+import { UsageAccumulator } from '../usage/index.js'
+import type { RerankOptions, RerankedDocument, Reranker } from './types.js'
+
+const DEFAULT_TOP_N = 15
+// 후보당 프롬프트에 포함할 본문 길이
+const MAX_EXCERPT_CHARS = 600
+
+const rerankScoresSchema = z.object({
+  scores: z.array(
+    z.object({
+      index: z.number().int().min(0),
+      score: z.number().min(0).max(10),
+    })
+  ),
+})
+
+function buildRerankPrompt(query: string, documents: RetrievedDocument[]): string {
+  const candidates = documents
+    .map((doc, index) => {
+      const excerpt = doc.content.slice(0, MAX_EXCERPT_CHARS).replace(/\s+/g, ' ')
+      return `[${index}] ${doc.title} (${doc.versionId})\n${excerpt}`
+    })
+    .join('\n\n')
+
+  return `Rate how useful each candidate document is for answering the query.
+Score from 0 (unrelated or only tangentially related) to 10 (directly answers the query).
+A page that merely mentions a term from the query is tangential.
+
+Query: ${query}
+
+Candidates:
+${candidates}
+
+Respond ONLY with JSON in a \`\`\`json code block:
+{"scores": [{"index": 0, "score": 7}, ...]}
+Include every candidate index exactly once.`
+}
+
+/**
+ * LLM-based reranker
+ * 상위 N개 후보를 한 번의 구조화 출력 호출로 채점 (실패 시 원래 순서 유지)
+ */
+export class LLMReranker implements Reranker {
+  name = 'llm'
+  private llmProvider: LLMProvider
+  private usage = new UsageAccumulator()
+
+  constructor(llmProvider: LLMProvider) {
+    this.llmProvider = llmProvider
+  }
+
+  async rerank(
+    query: string,
+    documents: RetrievedDocument[],
+    options: RerankOptions = {}
+  ): Promise<RerankedDocument[]> {
+    const topN = options.topN ?? DEFAULT_TOP_N
+    const candidates = documents.slice(0, topN)
+    const rest = documents.slice(topN).map((doc) => ({ ...doc, rerankScore: 0 }))
+
+    if (candidates.length <= 1) {
+      return [...candidates.map((doc) => ({ ...doc, rerankScore: 1 })), ...rest]
+    }
+
+    try {
+      const response = await this.llmProvider.generateStructured(
+        buildRerankPrompt(query, candidates),
+        rerankScoresSchema,
+        { maxRepairs: 1 }
+      )
+      this.usage.add(response)
+
+      const scores = new Map<number, number>()
+      for (const { index, score } of response.data.scores) {
+        if (index < candidates.length) scores.set(index, score / 10)
+      }
+
+      // 점수가 누락된 후보는 최하위로
+      const reranked = candidates
+        .map((doc, index) => ({ ...doc, rerankScore: scores.get(index) ?? 0 }))
+        .sort((a, b) => b.rerankScore - a.rerankScore)
+
+      return [...reranked, ...rest]
+    } catch (error) {
+      console.error('LLM rerank failed, keeping retrieval order:', error)
+      return [...candidates.map((doc) => ({ ...doc, rerankScore: doc.score })), ...rest]
+    }
+  }
+
+  getUsage(): Omit<LLMResponse, 'content'> | null {
+    return this.usage.get()
+  }
+}
@@ -0,0 +1,30 @@
+import type { RetrievedDocument } from '../rag/types.js'
+import type { LLMResponse } from '../llm/types.js'
+
+export interface RerankedDocument extends RetrievedDocument {
+  rerankScore: number // 0..1
+}
+
+export interface RerankOptions {
+  topN?: number // 재점수화할 상위 후보 수 (나머지는 원래 순서대로 뒤에 붙음)
+}
+
+/**
+ * 검색 후보를 질의 기준으로 다시 점수화하는 단계
+ */
+export interface Reranker {
+  name: string
+  rerank(
+    query: string,
+    documents: RetrievedDocument[],
+    options?: RerankOptions
+  ): Promise<RerankedDocument[]>
+  /**
+   * 생성 이후 누적된 LLM 사용량 (LLM 기반 구현만 해당)
+   */
+  getUsage(): Omit<LLMResponse, 'content'> | null
+}
+
+export interface RerankerConfig {
+  provider: 'heuristic' | 'llm' | 'none'
+}
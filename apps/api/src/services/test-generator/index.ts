@@ -1,4 +1,3 @@
-import Anthropic from '@anthropic-ai/sdk'
 import type {
   TestGeneratorService,
   TestGenerateRequest,
@@ -15,27 +14,22 @@ import {
   getTestGenerationUserPrompt,
 } from './prompts.js'
 import {
-  parseLLMTestOutput,
+  llmTestOutputSchema,
   convertToGeneratedTests,
   compareOutputs,
 } from './parser.js'
 import { getDefaultCompilerProvider } from '../compiler/index.js'
-
-const DEFAULT_MODEL = 'claude-sonnet-4-5-20250929'
-const DEFAULT_MAX_TOKENS = 4096
+import { getDefaultLLMProvider, StructuredOutputError } from '../llm/index.js'
+import type { LLMOverrides, LLMProvider } from '../llm/types.js'
 
 /**
  * LLM 기반 테스트 생성 서비스
  */
 export class LLMTestGenerator implements TestGeneratorService {
-  private client: Anthropic
-  private model: string
-  private maxTokens: number
-
-  constructor(apiKey: string, model = DEFAULT_MODEL, maxTokens = DEFAULT_MAX_TOKENS) {
-    this.client = new Anthropic({ apiKey })
-    this.model = model
-    this.maxTokens = maxTokens
+  private llmProvider: LLMProvider
+
+  constructor(llmProvider: LLMProvider) {
+    this.llmProvider = llmProvider
   }
 
   /**
@@ -56,35 +50,30 @@ export class LLMTestGenerator implements TestGeneratorService {
         request.outputLanguage
       )
 
-      const response = await this.client.messages.create({
-        model: this.model,
-        max_tokens: this.maxTokens,
-        messages: [{ role: 'user', content: userPrompt }],
-        system: systemPrompt,
+      const response = await this.llmProvider.generateStructured(userPrompt, llmTestOutputSchema, {
+        systemPrompt,
       })
+      const llm = { provider: response.provider, model: response.model, usage: response.usage }
 
-      const textBlock = response.content.find((block) => block.type === 'text')
-      const responseText = textBlock?.type === 'text' ? textBlock.text : ''
+      const tests = convertToGeneratedTests(response.data).slice(0, request.maxTestCases || 5)
 
-      const llmOutput = parseLLMTestOutput(responseText)
-
-      if (!llmOutput) {
+      return {
+        success: true,
+        tests,
+        generationTimeMs: Date.now() - startTime,
+        llm,
+      }
+    } catch (error) {
+      if (error instanceof StructuredOutputError) {
         return {
           success: false,
           tests: [],
           generationTimeMs: Date.now() - startTime,
-          error: 'Failed to parse LLM response',
+          error: `Failed to parse LLM response: ${error.issues.slice(0, 3).join('; ')}`,
+          llm: error.response,
         }
       }
 
-      const tests = convertToGeneratedTests(llmOutput)
-
-      return {
-        success: true,
-        tests,
-        generationTimeMs: Date.now() - startTime,
-      }
-    } catch (error) {
       return {
         success: false,
         tests: [],
@@ -282,15 +271,15 @@ export class LLMTestGenerator implements TestGeneratorService {
 /**
  * 기본 테스트 생성기 인스턴스 가져오기
  */
-export function getTestGenerator(): LLMTestGenerator | null {
-  const apiKey = process.env.ANTHROPIC_API_KEY
+export function getTestGenerator(overrides: LLMOverrides = {}): LLMTestGenerator | null {
+  const llmProvider = getDefaultLLMProvider(overrides)
 
-  if (!apiKey) {
-    console.warn('ANTHROPIC_API_KEY not set, test generator unavailable')
+  if (!llmProvider) {
+    console.warn('No LLM provider configured, test generator unavailable')
     return null
   }
 
-  return new LLMTestGenerator(apiKey)
+  return new LLMTestGenerator(llmProvider)
 }
 
 // 타입 re-export
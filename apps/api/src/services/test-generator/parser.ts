@@ -1,62 +1,31 @@
+import { z } from 'zod'
 import type { LLMTestOutput, GeneratedTest } from './types.js'
 import { v4 as uuidv4 } from 'uuid'
+import { extractJsonFromResponse } from '../llm/structured.js'
 
 /**
- * LLM 출력에서 JSON 블록 추출
+ * LLM 테스트 생성 출력 스키마
+ * 일부 모델은 빈 필드를 null로 채우므로 undefined로 정규화
  */
-export function extractJsonFromResponse(response: string): string | null {
-  // Try to find JSON in code blocks first
-  const codeBlockMatch = response.match(/```(?:json)?\s*([\s\S]*?)```/i)
-  if (codeBlockMatch) {
-    return codeBlockMatch[1].trim()
-  }
-
-  // Try to find raw JSON object
-  const jsonMatch = response.match(/\{[\s\S]*\}/)
-  if (jsonMatch) {
-    return jsonMatch[0]
-  }
-
-  return null
-}
-
-/**
- * LLM 출력 파싱
- */
-export function parseLLMTestOutput(response: string): LLMTestOutput | null {
-  const jsonStr = extractJsonFromResponse(response)
-  if (!jsonStr) {
-    console.error('Failed to extract JSON from response')
-    return null
-  }
-
-  try {
-    const parsed = JSON.parse(jsonStr)
-
-    // Validate structure
-    if (!parsed.tests || !Array.isArray(parsed.tests)) {
-      console.error('Invalid response structure: missing tests array')
-      return null
-    }
-
-    // Validate each test
-    const validatedTests = parsed.tests.filter((test: unknown) => {
-      if (typeof test !== 'object' || test === null) return false
-      const t = test as Record<string, unknown>
-      return (
-        typeof t.name === 'string' &&
-        typeof t.description === 'string' &&
-        (t.type === 'unit' || t.type === 'io') &&
-        Array.isArray(t.assertions)
-      )
-    })
-
-    return { tests: validatedTests }
-  } catch (error) {
-    console.error('Failed to parse JSON:', error)
-    return null
-  }
-}
+const optionalString = z
+  .string()
+  .nullish()
+  .transform((value) => value ?? undefined)
+
+export const llmTestOutputSchema = z.object({
+  tests: z
+    .array(
+      z.object({
+        name: z.string().min(1),
+        description: z.string(),
+        type: z.enum(['unit', 'io']),
+        input: optionalString,
+        expectedOutput: optionalString,
+        assertions: z.array(z.string()),
+      })
+    )
+    .min(1, 'At least one test is required'),
+}) satisfies z.ZodType<LLMTestOutput, z.ZodTypeDef, unknown>
 
 /**
  * LLM 출력을 GeneratedTest 배열로 변환
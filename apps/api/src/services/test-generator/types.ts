@@ -1,4 +1,5 @@
 import type { CppVersionId } from '@shuguridan/shared'
+import type { LLMResponse } from '../llm/types.js'
 
 /**
  * 테스트 생성 요청
@@ -34,6 +35,7 @@ export interface TestGenerateResponse {
   tests: GeneratedTest[]
   generationTimeMs: number
   error?: string
+  llm?: Omit<LLMResponse, 'content'> // 사용한 프로바이더/모델과 토큰 사용량
 }
 
 /**
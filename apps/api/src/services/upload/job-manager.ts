@@ -1,4 +1,5 @@
 import { v4 as uuidv4 } from 'uuid'
+import type { IngestStatus } from '../rag/processor.js'
 
 export type JobStatus = 'pending' | 'processing' | 'completed' | 'failed'
 
@@ -6,6 +7,7 @@ export interface FileResult {
   filename: string
   status: 'pending' | 'processing' | 'completed' | 'failed'
   documentId?: string
+  ingestStatus?: IngestStatus
   chunksCreated?: number
   totalTokens?: number
   error?: string
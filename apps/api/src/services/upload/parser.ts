@@ -1,20 +1,31 @@
 import pdf from 'pdf-parse'
+import type { DocumentSourceType } from '../rag/types.js'
 
 export interface ParsedFile {
   filename: string
   content: string
   mimeType: string
+  sourceType: DocumentSourceType // 청킹 전략 선택용
   size: number
 }
 
-export type SupportedMimeType = 'text/plain' | 'text/markdown' | 'application/pdf'
+export type SupportedMimeType = 'text/plain' | 'text/markdown' | 'text/html' | 'application/pdf'
 
 const SUPPORTED_EXTENSIONS: Record<string, SupportedMimeType> = {
   '.txt': 'text/plain',
   '.md': 'text/markdown',
+  '.html': 'text/html',
+  '.htm': 'text/html',
   '.pdf': 'application/pdf',
 }
 
+const SOURCE_TYPES: Record<SupportedMimeType, DocumentSourceType> = {
+  'text/plain': 'text',
+  'text/markdown': 'markdown',
+  'text/html': 'html',
+  'application/pdf': 'pdf',
+}
+
 export function getSupportedMimeType(filename: string): SupportedMimeType | null {
   const ext = filename.toLowerCase().slice(filename.lastIndexOf('.'))
   return SUPPORTED_EXTENSIONS[ext] || null
@@ -31,7 +42,7 @@ export async function parseFile(
   const mimeType = getSupportedMimeType(filename)
 
   if (!mimeType) {
-    throw new Error(`Unsupported file type: ${filename}. Supported types: .md, .txt, .pdf`)
+    throw new Error(`Unsupported file type: ${filename}. Supported types: .md, .txt, .html, .pdf`)
   }
 
   const buffer = await file.arrayBuffer()
@@ -49,6 +60,7 @@ export async function parseFile(
     filename,
     content,
     mimeType,
+    sourceType: SOURCE_TYPES[mimeType],
     size,
   }
 }
@@ -0,0 +1,22 @@
+import type { LLMResponse } from '../llm/types.js'
+
+/**
+ * 한 요청 안에서 여러 번 호출되는 보조 LLM(재순위화, 질의 재작성)의 토큰 사용량 합산
+ * 라우트가 getUsage() 결과를 UsageTracker로 한 번에 기록
+ */
+export class UsageAccumulator {
+  private usage: Omit<LLMResponse, 'content'> | null = null
+
+  add(response: Omit<LLMResponse, 'content'>): void {
+    if (!this.usage) {
+      this.usage = { provider: response.provider, model: response.model, usage: { ...response.usage } }
+      return
+    }
+    this.usage.usage.inputTokens += response.usage.inputTokens
+    this.usage.usage.outputTokens += response.usage.outputTokens
+  }
+
+  get(): Omit<LLMResponse, 'content'> | null {
+    return this.usage ? { ...this.usage, usage: { ...this.usage.usage } } : null
+  }
+}
@@ -0,0 +1,3 @@
+export * from './types.js'
+export { UsageTracker, estimateCost } from './tracker.js'
+export { UsageAccumulator } from './accumulator.js'
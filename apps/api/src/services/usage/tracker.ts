@@ -0,0 +1,202 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { LLMResponse } from '../llm/types.js'
+import { getModelInfo } from '../llm/models.js'
+import type { EmbeddingProvider } from '../embedding/types.js'
+import { getEmbeddingModelInfo } from '../embedding/models.js'
+import type {
+  UsageAggregate,
+  UsageCallType,
+  UsageContext,
+  UsageGroupBy,
+  UsageQuery,
+  UsageRecord,
+  UsageRecordInput,
+  UsageSummary,
+} from './types.js'
+
+const DEFAULT_LIST_LIMIT = 50
+
+/**
+ * 모델 레지스트리 가격 기준 예상 비용 (USD)
+ * 레지스트리에 없는 모델(로컬 모델 등)은 0으로 계산
+ */
+export function estimateCost(
+  callType: UsageCallType,
+  model: string,
+  inputTokens: number,
+  outputTokens: number
+): number {
+  if (callType === 'embedding') {
+    const info = getEmbeddingModelInfo(model)
+    return info ? inputTokens * info.costPerToken : 0
+  }
+
+  const info = getModelInfo(model)
+  return info
+    ? inputTokens * info.inputCostPerToken + outputTokens * info.outputCostPerToken
+    : 0
+}
+
+/**
+ * LLM/임베딩 호출별 토큰 사용량과 비용을 llm_usage 테이블에 기록
+ * 기록 실패가 본 요청을 실패시키지 않도록 오류는 로그만 남김
+ */
+export class UsageTracker {
+  private supabase: SupabaseClient
+
+  constructor(supabase: SupabaseClient) {
+    this.supabase = supabase
+  }
+
+  async record(input: UsageRecordInput): Promise<void> {
+    const estimatedCost = input.cacheHit
+      ? 0
+      : estimateCost(input.callType, input.model, input.inputTokens, input.outputTokens)
+
+    const { error } = await this.supabase.from('llm_usage').insert({
+      route: input.route,
+      project_id: input.projectId ?? null,
+      call_type: input.callType,
+      provider: input.provider,
+      model: input.model,
+      input_tokens: input.inputTokens,
+      output_tokens: input.outputTokens,
+      estimated_cost: estimatedCost,
+      cache_hit: input.cacheHit ?? false,
+    })
+
+    if (error) {
+      console.error('Failed to record usage:', error.message)
+    }
+  }
+
+  async recordCompletion(
+    context: UsageContext,
+    response: Omit<LLMResponse, 'content'>,
+    cacheHit = false
+  ): Promise<void> {
+    await this.record({
+      ...context,
+      callType: 'completion',
+      provider: response.provider,
+      model: response.model,
+      inputTokens: response.usage.inputTokens,
+      outputTokens: response.usage.outputTokens,
+      cacheHit,
+    })
+  }
+
+  /**
+   * 임베딩 프로바이더에 누적된 사용량을 한 건으로 기록
+   */
+  async recordEmbedding(context: UsageContext, provider: EmbeddingProvider): Promise<void> {
+    const usage = provider.getUsage()
+    if (usage.requests === 0) return
+
+    await this.record({
+      ...context,
+      callType: 'embedding',
+      provider: provider.name,
+      model: provider.model,
+      inputTokens: usage.inputTokens,
+      outputTokens: 0,
+    })
+  }
+
+  async list(
+    query: UsageQuery = {},
+    limit = DEFAULT_LIST_LIMIT,
+    offset = 0
+  ): Promise<{ records: UsageRecord[]; total: number }> {
+    let request = this.supabase
+      .from('llm_usage')
+      .select('*', { count: 'exact' })
+      .order('created_at', { ascending: false })
+      .range(offset, offset + limit - 1)
+
+    if (query.from) request = request.gte('created_at', query.from)
+    if (query.to) request = request.lt('created_at', query.to)
+    if (query.projectId) request = request.eq('project_id', query.projectId)
+    if (query.route) request = request.eq('route', query.route)
+
+    const { data, count, error } = await request
+
+    if (error) {
+      throw new Error(`Failed to list usage: ${error.message}`)
+    }
+
+    const records = (data || []).map((row: {
+      id: string
+      route: string
+      project_id: string | null
+      call_type: UsageCallType
+      provider: string
+      model: string
+      input_tokens: number
+      output_tokens: number
+      estimated_cost: number | string
+      cache_hit: boolean
+      created_at: string
+    }) => ({
+      id: row.id,
+      route: row.route,
+      projectId: row.project_id,
+      callType: row.call_type,
+      provider: row.provider,
+      model: row.model,
+      inputTokens: row.input_tokens,
+      outputTokens: row.output_tokens,
+      estimatedCost: Number(row.estimated_cost),
+      cacheHit: row.cache_hit,
+      createdAt: row.created_at,
+    }))
+
+    return { records, total: count || 0 }
+  }
+
+  /**
+   * 일/프로젝트/모델 단위 집계 (llm_usage_summary RPC)
+   */
+  async summarize(groupBy: UsageGroupBy, query: UsageQuery = {}): Promise<UsageSummary> {
+    const { data, error } = await this.supabase.rpc('llm_usage_summary', {
+      group_by: groupBy,
+      from_ts: query.from ?? null,
+      to_ts: query.to ?? null,
+      filter_project: query.projectId ?? null,
+      filter_route: query.route ?? null,
+    })
+
+    if (error) {
+      throw new Error(`Failed to summarize usage: ${error.message}`)
+    }
+
+    const groups: UsageAggregate[] = (data || []).map((row: {
+      group_key: string
+      calls: number | string
+      input_tokens: number | string
+      output_tokens: number | string
+      estimated_cost: number | string
+      cache_hits: number | string
+    }) => ({
+      key: row.group_key,
+      calls: Number(row.calls),
+      inputTokens: Number(row.input_tokens),
+      outputTokens: Number(row.output_tokens),
+      estimatedCost: Number(row.estimated_cost),
+      cacheHits: Number(row.cache_hits),
+    }))
+
+    const totals = groups.reduce(
+      (acc, g) => ({
+        calls: acc.calls + g.calls,
+        inputTokens: acc.inputTokens + g.inputTokens,
+        outputTokens: acc.outputTokens + g.outputTokens,
+        estimatedCost: acc.estimatedCost + g.estimatedCost,
+        cacheHits: acc.cacheHits + g.cacheHits,
+      }),
+      { calls: 0, inputTokens: 0, outputTokens: 0, estimatedCost: 0, cacheHits: 0 }
+    )
+
+    return { groupBy, totals, groups }
+  }
+}
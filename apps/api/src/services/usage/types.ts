@@ -0,0 +1,48 @@
+export type UsageCallType = 'completion' | 'embedding'
+
+/**
+ * 사용량을 기록할 요청 컨텍스트
+ */
+export interface UsageContext {
+  route: string // 예: 'generate', 'chat', 'ingest'
+  projectId?: string | null
+}
+
+export interface UsageRecordInput extends UsageContext {
+  callType: UsageCallType
+  provider: string
+  model: string
+  inputTokens: number
+  outputTokens: number
+  cacheHit?: boolean
+}
+
+export interface UsageRecord extends UsageRecordInput {
+  id: string
+  estimatedCost: number // USD
+  createdAt: string
+}
+
+export type UsageGroupBy = 'day' | 'project' | 'model'
+
+export interface UsageQuery {
+  from?: string // ISO date (inclusive)
+  to?: string // ISO date (exclusive)
+  projectId?: string
+  route?: string
+}
+
+export interface UsageAggregate {
+  key: string
+  calls: number
+  inputTokens: number
+  outputTokens: number
+  estimatedCost: number
+  cacheHits: number
+}
+
+export interface UsageSummary {
+  groupBy: UsageGroupBy
+  totals: Omit<UsageAggregate, 'key'>
+  groups: UsageAggregate[]
+}
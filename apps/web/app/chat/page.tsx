@@ -7,16 +7,10 @@ import MindmapViewer from '@/components/mindmap/MindmapViewer'
 import { Sidebar } from '@/components/layout/Sidebar'
 import { useSidebar } from '@/lib/sidebar-context'
 import { ResizableDivider } from '@/components/ui/ResizableDivider'
+import { listVersions } from '@shuguridan/shared'
 
 // 사용 가능한 C++ 버전 목록
-const AVAILABLE_VERSIONS = [
-  { id: 'cpp11', name: 'C++11', year: 2011 },
-  { id: 'cpp14', name: 'C++14', year: 2014 },
-  { id: 'cpp17', name: 'C++17', year: 2017 },
-  { id: 'cpp20', name: 'C++20', year: 2020 },
-  { id: 'cpp23', name: 'C++23', year: 2023 },
-  { id: 'cpp26', name: 'C++26', year: 2026 },
-]
+const AVAILABLE_VERSIONS = listVersions({ supportedOnly: true })
 
 /**
  * 메인 컨텐츠 컴포넌트 (ChatProvider 내부에서 사용)
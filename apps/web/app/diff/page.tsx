@@ -3,14 +3,9 @@
 import { useState } from 'react'
 import { MainLayout } from '@/components/layout'
 import { analyzeDiff, type DiffResult, type DiffItem } from '@/lib/api'
+import { listVersions } from '@shuguridan/shared'
 
-const versions = [
-  { id: 'cpp11', name: 'C++11' },
-  { id: 'cpp14', name: 'C++14' },
-  { id: 'cpp17', name: 'C++17' },
-  { id: 'cpp20', name: 'C++20' },
-  { id: 'cpp23', name: 'C++23' },
-]
+const versions = listVersions({ supportedOnly: true })
 
 const categoryLabels = {
   newFeatures: '새로운 기능',
@@ -18,6 +13,12 @@ const categoryLabels = {
   deprecated: '비권장 (Deprecated)',
   removed: '제거됨 (Removed)',
   libraryChanges: '라이브러리 변경',
+  // 다운그레이드(백포트)
+  unavailable: '사용 불가 기능',
+  unavailableLibrary: '사용 불가 라이브러리',
+  revertedBehavior: '동작 복귀',
+  undeprecated: '비권장 해제',
+  restored: '복원됨',
 }
 
 const categoryColors = {
@@ -26,6 +27,45 @@ const categoryColors = {
   deprecated: 'bg-orange-50 border-orange-200 text-orange-800',
   removed: 'bg-red-50 border-red-200 text-red-800',
   libraryChanges: 'bg-blue-50 border-blue-200 text-blue-800',
+  unavailable: 'bg-red-50 border-red-200 text-red-800',
+  unavailableLibrary: 'bg-blue-50 border-blue-200 text-blue-800',
+  revertedBehavior: 'bg-yellow-50 border-yellow-200 text-yellow-800',
+  undeprecated: 'bg-orange-50 border-orange-200 text-orange-800',
+  restored: 'bg-green-50 border-green-200 text-green-800',
+}
+
+const categoryDotColors: Record<keyof typeof categoryLabels, string> = {
+  newFeatures: 'bg-green-500',
+  behaviorChanges: 'bg-yellow-500',
+  deprecated: 'bg-orange-500',
+  removed: 'bg-red-500',
+  libraryChanges: 'bg-blue-500',
+  unavailable: 'bg-red-500',
+  unavailableLibrary: 'bg-blue-500',
+  revertedBehavior: 'bg-yellow-500',
+  undeprecated: 'bg-orange-500',
+  restored: 'bg-green-500',
+}
+
+// 요약 카운트 (다운그레이드는 백포트 관점)
+function getStats(result: DiffResult): Array<{ label: string; count: number; color: string }> {
+  if (result.backport) {
+    return [
+      { label: '사용 불가', count: result.backport.unavailable.length, color: 'text-red-600' },
+      { label: '라이브러리', count: result.backport.unavailableLibrary.length, color: 'text-blue-600' },
+      { label: '동작 복귀', count: result.backport.revertedBehavior.length, color: 'text-yellow-600' },
+      { label: '비권장 해제', count: result.backport.undeprecated.length, color: 'text-orange-600' },
+      { label: '복원됨', count: result.backport.restored.length, color: 'text-green-600' },
+    ]
+  }
+
+  return [
+    { label: '새 기능', count: result.diff.newFeatures.length, color: 'text-green-600' },
+    { label: '동작 변경', count: result.diff.behaviorChanges.length, color: 'text-yellow-600' },
+    { label: '비권장', count: result.diff.deprecated?.length || 0, color: 'text-orange-600' },
+    { label: '제거됨', count: result.diff.removed?.length || 0, color: 'text-red-600' },
+    { label: '라이브러리', count: result.diff.libraryChanges.length, color: 'text-blue-600' },
+  ]
 }
 
 function DiffItemCard({ item, category }: { item: DiffItem; category: string }) {
@@ -92,8 +132,8 @@ function DiffItemCard({ item, category }: { item: DiffItem; category: string })
 }
 
 export default function DiffPage() {
-  const [sourceVersion, setSourceVersion] = useState('cpp11')
-  const [targetVersion, setTargetVersion] = useState('cpp14')
+  const [sourceVersion, setSourceVersion] = useState('cpp17')
+  const [targetVersion, setTargetVersion] = useState('cpp20')
   const [result, setResult] = useState<DiffResult | null>(null)
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
@@ -173,43 +213,31 @@ export default function DiffPage() {
         <>
           {/* Summary */}
           <div className="card p-5 mb-6">
-            <h3 className="font-medium text-gray-900 mb-2">분석 결과</h3>
+            <h3 className="font-medium text-gray-900 mb-2">
+              {result.direction === 'downgrade' ? '백포트 분석 결과' : '분석 결과'}
+            </h3>
             <p className="text-sm text-gray-600">{result.summary}</p>
             <div className="flex gap-4 mt-4 flex-wrap">
               <div className="text-center">
                 <p className="text-2xl font-semibold text-primary-600">{result.totalChanges}</p>
                 <p className="text-xs text-gray-500">총 변경사항</p>
               </div>
-              <div className="text-center">
-                <p className="text-2xl font-semibold text-green-600">{result.diff.newFeatures.length}</p>
-                <p className="text-xs text-gray-500">새 기능</p>
-              </div>
-              <div className="text-center">
-                <p className="text-2xl font-semibold text-yellow-600">{result.diff.behaviorChanges.length}</p>
-                <p className="text-xs text-gray-500">동작 변경</p>
-              </div>
-              <div className="text-center">
-                <p className="text-2xl font-semibold text-orange-600">{result.diff.deprecated?.length || 0}</p>
-                <p className="text-xs text-gray-500">비권장</p>
-              </div>
-              <div className="text-center">
-                <p className="text-2xl font-semibold text-red-600">{result.diff.removed?.length || 0}</p>
-                <p className="text-xs text-gray-500">제거됨</p>
-              </div>
-              <div className="text-center">
-                <p className="text-2xl font-semibold text-blue-600">{result.diff.libraryChanges.length}</p>
-                <p className="text-xs text-gray-500">라이브러리</p>
-              </div>
+              {getStats(result).map((stat) => (
+                <div key={stat.label} className="text-center">
+                  <p className={`text-2xl font-semibold ${stat.color}`}>{stat.count}</p>
+                  <p className="text-xs text-gray-500">{stat.label}</p>
+                </div>
+              ))}
             </div>
           </div>
 
           {/* Categories */}
           <div className="space-y-6">
-            {(Object.entries(result.diff) as [keyof typeof categoryLabels, DiffItem[]][]).map(([key, items]) => (
+            {(Object.entries(result.backport ?? result.diff) as [keyof typeof categoryLabels, DiffItem[]][]).map(([key, items]) => (
               items.length > 0 && (
                 <div key={key}>
                   <h3 className="font-medium text-gray-900 mb-3 flex items-center gap-2">
-                    <span className={`w-3 h-3 rounded-full ${key === 'newFeatures' ? 'bg-green-500' : key === 'behaviorChanges' ? 'bg-yellow-500' : key === 'deprecated' ? 'bg-orange-500' : key === 'removed' ? 'bg-red-500' : 'bg-blue-500'}`} />
+                    <span className={`w-3 h-3 rounded-full ${categoryDotColors[key]}`} />
                     {categoryLabels[key]}
                     <span className="text-sm font-normal text-gray-500">({items.length})</span>
                   </h3>
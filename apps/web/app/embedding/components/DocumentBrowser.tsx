@@ -0,0 +1,378 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import {
+  listKnowledgeDocuments,
+  getKnowledgeDocument,
+  updateKnowledgeDocumentMetadata,
+  deleteKnowledgeDocument,
+  reembedKnowledgeDocument,
+  type DocumentCategory,
+  type KnowledgeDocument,
+  type KnowledgeDocumentSummary,
+  type Pagination,
+} from '@/lib/api'
+
+const PAGE_SIZE = 20
+
+const CATEGORY_OPTIONS: Array<{ id: DocumentCategory; name: string }> = [
+  { id: 'language', name: '언어' },
+  { id: 'library', name: '라이브러리' },
+  { id: 'compiler', name: '컴파일러' },
+]
+
+interface DocumentBrowserProps {
+  versions: Array<{ id: string; name: string }>
+  refreshKey?: number // 변경 시 목록 다시 조회 (업로드 완료 등)
+  onChange?: () => void // 삭제/수정 후 통계 갱신용
+}
+
+interface MetadataForm {
+  category: DocumentCategory | ''
+  section: string
+  feature: string
+  url: string
+}
+
+function getMetadataForm(document: KnowledgeDocument): MetadataForm {
+  const metadata = document.chunks[0]?.metadata ?? {}
+  const text = (value: unknown) => (typeof value === 'string' ? value : '')
+  return {
+    category: (text(metadata.category) as DocumentCategory) || '',
+    section: text(metadata.section),
+    feature: text(metadata.feature),
+    url: text(metadata.url),
+  }
+}
+
+/**
+ * 지식 베이스 관리 (원본 문서 목록/청크 조회/메타데이터 수정/삭제/재임베딩)
+ */
+export function DocumentBrowser({ versions, refreshKey, onChange }: DocumentBrowserProps) {
+  const [versionId, setVersionId] = useState('')
+  const [category, setCategory] = useState<DocumentCategory | ''>('')
+  const [url, setUrl] = useState('')
+  const [search, setSearch] = useState('')
+  const [offset, setOffset] = useState(0)
+
+  const [documents, setDocuments] = useState<KnowledgeDocumentSummary[]>([])
+  const [pagination, setPagination] = useState<Pagination | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const [selected, setSelected] = useState<KnowledgeDocument | null>(null)
+  const [form, setForm] = useState<MetadataForm | null>(null)
+  const [expandedChunk, setExpandedChunk] = useState<string | null>(null)
+  const [busy, setBusy] = useState<'save' | 'delete' | 'reembed' | null>(null)
+  const [notice, setNotice] = useState<string | null>(null)
+
+  const loadDocuments = useCallback(async () => {
+    try {
+      setLoading(true)
+      setError(null)
+      const result = await listKnowledgeDocuments({
+        versionId: versionId || undefined,
+        category: category || undefined,
+        url: url.trim() || undefined,
+        search: search.trim() || undefined,
+        limit: PAGE_SIZE,
+        offset,
+      })
+      setDocuments(result.documents)
+      setPagination(result.pagination)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '문서 목록을 불러오지 못했습니다.')
+    } finally {
+      setLoading(false)
+    }
+  }, [versionId, category, url, search, offset])
+
+  useEffect(() => {
+    loadDocuments()
+  }, [loadDocuments, refreshKey])
+
+  // 필터가 바뀌면 첫 페이지부터
+  useEffect(() => {
+    setOffset(0)
+  }, [versionId, category, url, search])
+
+  const selectDocument = async (id: string) => {
+    try {
+      setError(null)
+      setNotice(null)
+      const document = await getKnowledgeDocument(id)
+      setSelected(document)
+      setForm(getMetadataForm(document))
+      setExpandedChunk(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '문서를 불러오지 못했습니다.')
+    }
+  }
+
+  const handleSave = async () => {
+    if (!selected || !form) return
+    try {
+      setBusy('save')
+      setNotice(null)
+      const document = await updateKnowledgeDocumentMetadata(selected.id, {
+        category: form.category || null,
+        section: form.section.trim() || null,
+        feature: form.feature.trim() || null,
+        url: form.url.trim() || null,
+      })
+      setSelected(document)
+      setForm(getMetadataForm(document))
+      setNotice('메타데이터를 저장했습니다.')
+      await loadDocuments()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '저장 실패')
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!selected) return
+    if (!confirm(`"${selected.sourceKey}" 문서와 청크 ${selected.chunks.length}개를 삭제할까요?`)) return
+    try {
+      setBusy('delete')
+      await deleteKnowledgeDocument(selected.id)
+      setSelected(null)
+      setForm(null)
+      await loadDocuments()
+      onChange?.()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '삭제 실패')
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const handleReembed = async () => {
+    if (!selected) return
+    try {
+      setBusy('reembed')
+      setNotice(null)
+      const result = await reembedKnowledgeDocument(selected.id)
+      setNotice(`${result.chunksReembedded}개 청크를 ${result.model} 모델로 다시 임베딩했습니다.`)
+      await selectDocument(selected.id)
+      await loadDocuments()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '재임베딩 실패')
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const total = pagination?.total ?? 0
+  const page = Math.floor(offset / PAGE_SIZE) + 1
+  const totalPages = Math.max(1, Math.ceil(total / PAGE_SIZE))
+
+  return (
+    <div className="card p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="font-medium text-gray-900 dark:text-white">지식 베이스 문서</h3>
+        <span className="text-sm text-gray-500 dark:text-gray-400">{total.toLocaleString()}개 문서</span>
+      </div>
+
+      {/* Filters */}
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-3 mb-4">
+        <select className="select" value={versionId} onChange={(e) => setVersionId(e.target.value)}>
+          <option value="">전체 버전</option>
+          {versions.map((v) => (
+            <option key={v.id} value={v.id}>
+              {v.name}
+            </option>
+          ))}
+        </select>
+        <select
+          className="select"
+          value={category}
+          onChange={(e) => setCategory(e.target.value as DocumentCategory | '')}
+        >
+          <option value="">전체 카테고리</option>
+          {CATEGORY_OPTIONS.map((c) => (
+            <option key={c.id} value={c.id}>
+              {c.name}
+            </option>
+          ))}
+        </select>
+        <input
+          className="input"
+          placeholder="소스 URL 포함..."
+          value={url}
+          onChange={(e) => setUrl(e.target.value)}
+        />
+        <input
+          className="input"
+          placeholder="제목 검색..."
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+        />
+      </div>
+
+      {error && <p className="mb-4 text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        {/* Document List */}
+        <div>
+          <div className="border border-gray-200 dark:border-gray-700 rounded-lg divide-y divide-gray-200 dark:divide-gray-700 max-h-[480px] overflow-y-auto">
+            {loading && documents.length === 0 ? (
+              <p className="p-4 text-sm text-gray-500 dark:text-gray-400 text-center">불러오는 중...</p>
+            ) : documents.length === 0 ? (
+              <p className="p-4 text-sm text-gray-500 dark:text-gray-400 text-center">문서가 없습니다.</p>
+            ) : (
+              documents.map((doc) => (
+                <button
+                  key={doc.id}
+                  onClick={() => selectDocument(doc.id)}
+                  className={`w-full text-left p-3 hover:bg-gray-50 dark:hover:bg-gray-700/50 ${
+                    selected?.sourceKey === doc.sourceKey && selected?.versionId === doc.versionId
+                      ? 'bg-primary-50 dark:bg-primary-900/20'
+                      : ''
+                  }`}
+                >
+                  <p className="text-sm font-medium text-gray-900 dark:text-white truncate">{doc.title}</p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                    {doc.versionId.replace('cpp', 'C++')} · {doc.category || '미분류'} · {doc.chunkCount} chunks
+                    {doc.url ? ` · ${doc.url}` : ''}
+                  </p>
+                </button>
+              ))
+            )}
+          </div>
+
+          {/* Pagination */}
+          <div className="flex items-center justify-between mt-3 text-sm">
+            <button
+              onClick={() => setOffset(Math.max(0, offset - PAGE_SIZE))}
+              disabled={offset === 0 || loading}
+              className="btn-secondary text-sm"
+            >
+              이전
+            </button>
+            <span className="text-gray-600 dark:text-gray-400">
+              {page} / {totalPages}
+            </span>
+            <button
+              onClick={() => setOffset(offset + PAGE_SIZE)}
+              disabled={offset + PAGE_SIZE >= total || loading}
+              className="btn-secondary text-sm"
+            >
+              다음
+            </button>
+          </div>
+        </div>
+
+        {/* Document Detail */}
+        <div>
+          {selected && form ? (
+            <div className="space-y-4">
+              <div>
+                <p className="text-sm font-medium text-gray-900 dark:text-white break-all">{selected.sourceKey}</p>
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  {selected.versionId.replace('cpp', 'C++')} · 청크 {selected.chunks.length}개
+                  {selected.contentHash ? ` · ${selected.contentHash.slice(0, 12)}` : ''}
+                </p>
+              </div>
+
+              {/* Metadata Form */}
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="label">카테고리</label>
+                  <select
+                    className="select"
+                    value={form.category}
+                    onChange={(e) => setForm({ ...form, category: e.target.value as DocumentCategory | '' })}
+                  >
+                    <option value="">없음</option>
+                    {CATEGORY_OPTIONS.map((c) => (
+                      <option key={c.id} value={c.id}>
+                        {c.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="label">섹션</label>
+                  <input
+                    className="input"
+                    value={form.section}
+                    onChange={(e) => setForm({ ...form, section: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <label className="label">기능</label>
+                  <input
+                    className="input"
+                    value={form.feature}
+                    onChange={(e) => setForm({ ...form, feature: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <label className="label">URL</label>
+                  <input
+                    className="input"
+                    value={form.url}
+                    onChange={(e) => setForm({ ...form, url: e.target.value })}
+                  />
+                </div>
+              </div>
+
+              <div className="flex gap-2">
+                <button onClick={handleSave} disabled={busy !== null} className="btn-primary text-sm">
+                  {busy === 'save' ? '저장 중...' : '메타데이터 저장'}
+                </button>
+                <button onClick={handleReembed} disabled={busy !== null} className="btn-secondary text-sm">
+                  {busy === 'reembed' ? '임베딩 중...' : '재임베딩'}
+                </button>
+                <button
+                  onClick={handleDelete}
+                  disabled={busy !== null}
+                  className="btn-secondary text-sm text-red-600 dark:text-red-400"
+                >
+                  {busy === 'delete' ? '삭제 중...' : '삭제'}
+                </button>
+              </div>
+
+              {notice && <p className="text-sm text-green-600 dark:text-green-400">{notice}</p>}
+
+              {/* Chunks */}
+              <div className="space-y-2 max-h-[320px] overflow-y-auto">
+                {selected.chunks.map((chunk) => {
+                  const headingPath = Array.isArray(chunk.metadata.headingPath)
+                    ? (chunk.metadata.headingPath as string[]).join(' > ')
+                    : ''
+                  const expanded = expandedChunk === chunk.id
+                  return (
+                    <div key={chunk.id} className="p-3 bg-gray-50 dark:bg-gray-800 rounded">
+                      <button
+                        onClick={() => setExpandedChunk(expanded ? null : chunk.id)}
+                        className="w-full text-left"
+                      >
+                        <p className="text-xs font-medium text-gray-700 dark:text-gray-300">
+                          #{chunk.chunkIndex + 1} {headingPath && `· ${headingPath}`}
+                        </p>
+                        <p className="text-xs text-gray-500 dark:text-gray-400">
+                          {chunk.content.length.toLocaleString()}자 · {chunk.embeddingModel || 'unknown'}
+                          {chunk.embeddingDimensions ? ` (${chunk.embeddingDimensions}d)` : ''}
+                        </p>
+                      </button>
+                      <pre className="mt-2 text-xs text-gray-700 dark:text-gray-300 whitespace-pre-wrap break-words">
+                        {expanded ? chunk.content : `${chunk.content.slice(0, 200)}${chunk.content.length > 200 ? '…' : ''}`}
+                      </pre>
+                    </div>
+                  )
+                })}
+              </div>
+            </div>
+          ) : (
+            <p className="text-sm text-gray-500 dark:text-gray-400 text-center py-8">
+              문서를 선택하면 청크와 메타데이터를 볼 수 있습니다.
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1 @@
+export { DocumentBrowser } from './DocumentBrowser'
@@ -10,15 +10,10 @@ import {
   type EmbeddingStats,
   type FileResult,
 } from '@/lib/api'
+import { listVersions } from '@shuguridan/shared'
+import { DocumentBrowser } from './components'
 
-const SUPPORTED_VERSIONS = [
-  { id: 'cpp11', name: 'C++11' },
-  { id: 'cpp14', name: 'C++14' },
-  { id: 'cpp17', name: 'C++17' },
-  { id: 'cpp20', name: 'C++20' },
-  { id: 'cpp23', name: 'C++23' },
-  { id: 'cpp26', name: 'C++26' },
-]
+const SUPPORTED_VERSIONS = listVersions({ supportedOnly: true })
 
 export default function EmbeddingPage() {
   const [files, setFiles] = useState<File[]>([])
@@ -30,6 +25,7 @@ export default function EmbeddingPage() {
   const [progress, setProgress] = useState<UploadProgress | null>(null)
   const [stats, setStats] = useState<EmbeddingStats | null>(null)
   const [loadingStats, setLoadingStats] = useState(true)
+  const [documentsKey, setDocumentsKey] = useState(0)
   const fileInputRef = useRef<HTMLInputElement>(null)
   const folderInputRef = useRef<HTMLInputElement>(null)
 
@@ -51,6 +47,7 @@ export default function EmbeddingPage() {
           clearInterval(interval)
           setUploading(false)
           loadStats() // Refresh stats
+          setDocumentsKey((key) => key + 1)
         }
       } catch {
         clearInterval(interval)
@@ -76,7 +73,7 @@ export default function EmbeddingPage() {
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const selectedFiles = Array.from(e.target.files || [])
     const validFiles = selectedFiles.filter((f) =>
-      /\.(md|txt|pdf)$/i.test(f.name)
+      /\.(md|txt|html?|pdf)$/i.test(f.name)
     )
     setFiles((prev) => [...prev, ...validFiles])
     setError(null)
@@ -86,7 +83,7 @@ export default function EmbeddingPage() {
     e.preventDefault()
     const droppedFiles = Array.from(e.dataTransfer.files)
     const validFiles = droppedFiles.filter((f) =>
-      /\.(md|txt|pdf)$/i.test(f.name)
+      /\.(md|txt|html?|pdf)$/i.test(f.name)
     )
     setFiles((prev) => [...prev, ...validFiles])
     setError(null)
@@ -212,7 +209,7 @@ export default function EmbeddingPage() {
                 ref={fileInputRef}
                 type="file"
                 multiple
-                accept=".md,.txt,.pdf"
+                accept=".md,.txt,.html,.htm,.pdf"
                 onChange={handleFileChange}
                 className="hidden"
               />
@@ -220,7 +217,7 @@ export default function EmbeddingPage() {
                 ref={folderInputRef}
                 type="file"
                 multiple
-                accept=".md,.txt,.pdf"
+                accept=".md,.txt,.html,.htm,.pdf"
                 onChange={handleFileChange}
                 className="hidden"
                 {...({ webkitdirectory: '', directory: '' } as React.InputHTMLAttributes<HTMLInputElement>)}
@@ -232,7 +229,7 @@ export default function EmbeddingPage() {
                 파일을 드래그하거나 클릭하여 선택
               </p>
               <p className="text-sm text-gray-500 dark:text-gray-400">
-                지원 형식: .md, .txt, .pdf
+                지원 형식: .md, .txt, .html, .pdf
               </p>
             </div>
 
@@ -355,7 +352,9 @@ export default function EmbeddingPage() {
                       </p>
                       {file.status === 'completed' && (
                         <p className="text-xs text-gray-500 dark:text-gray-400">
-                          {file.chunksCreated} chunks, {file.totalTokens} tokens
+                          {file.ingestStatus === 'unchanged'
+                            ? '변경 없음 (건너뜀)'
+                            : `${file.ingestStatus === 'updated' ? '갱신' : '신규'} · ${file.chunksCreated} chunks, ${file.totalTokens} tokens`}
                         </p>
                       )}
                       {file.status === 'failed' && file.error && (
@@ -437,7 +436,7 @@ export default function EmbeddingPage() {
             <ul className="text-sm text-gray-600 dark:text-gray-400 space-y-2">
               <li className="flex gap-2">
                 <span className="text-primary-500">*</span>
-                <span>지원 형식: Markdown, 텍스트, PDF</span>
+                <span>지원 형식: Markdown, 텍스트, HTML, PDF</span>
               </li>
               <li className="flex gap-2">
                 <span className="text-primary-500">*</span>
@@ -455,6 +454,11 @@ export default function EmbeddingPage() {
           </div>
         </div>
       </div>
+
+      {/* Knowledge Base Browser */}
+      <div className="mt-6">
+        <DocumentBrowser versions={SUPPORTED_VERSIONS} refreshKey={documentsKey} onChange={loadStats} />
+      </div>
     </MainLayout>
   )
 }
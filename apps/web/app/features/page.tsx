@@ -0,0 +1,233 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { MainLayout } from '@/components/layout'
+import { getFeatureMatrix, type CompilerId, type FeatureMatrix, type FeatureMatrixFilters } from '@/lib/api'
+import { getVersionName, isCppVersionId, listVersions } from '@shuguridan/shared'
+
+const versions = listVersions({ supportedOnly: true })
+
+const compilerLabels: Record<CompilerId, string> = {
+  gcc: 'GCC',
+  clang: 'Clang',
+  msvc: 'MSVC',
+}
+
+// MSVC는 cl.exe 버전 (19.29 = VS 2019 16.11)
+const compilerVersionPlaceholders: Record<CompilerId, string> = {
+  gcc: '예: 9',
+  clang: '예: 14',
+  msvc: '예: 19.29',
+}
+
+function formatStandard(id: string): string {
+  return isCppVersionId(id) ? getVersionName(id) : id
+}
+
+export default function FeaturesPage() {
+  const [standard, setStandard] = useState('')
+  const [category, setCategory] = useState<'' | 'language' | 'library'>('')
+  const [query, setQuery] = useState('')
+  const [compiler, setCompiler] = useState<'' | CompilerId>('')
+  const [compilerVersion, setCompilerVersion] = useState('')
+  const [availability, setAvailability] = useState<'' | 'true' | 'false'>('')
+  const [matrix, setMatrix] = useState<FeatureMatrix | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadMatrix = async () => {
+    const useToolchain = compiler !== '' && compilerVersion.trim() !== ''
+    if (compiler && !useToolchain) {
+      setError('컴파일러 버전을 입력하세요.')
+      return
+    }
+
+    const filters: FeatureMatrixFilters = {
+      standard: standard || undefined,
+      category: category || undefined,
+      q: query.trim() || undefined,
+      compiler: useToolchain ? (compiler as CompilerId) : undefined,
+      compilerVersion: useToolchain ? compilerVersion.trim() : undefined,
+      available: useToolchain && availability ? availability === 'true' : undefined,
+    }
+
+    setLoading(true)
+    setError(null)
+
+    try {
+      setMatrix(await getFeatureMatrix(filters))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '조회 중 오류가 발생했습니다.')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  // 최초 1회 전체 매트릭스 로드
+  useEffect(() => {
+    loadMatrix()
+  }, []) // eslint-disable-line react-hooks/exhaustive-deps
+
+  const toolchain = matrix?.toolchain
+  const availableCount = matrix?.rows.filter((row) => row.available).length ?? 0
+
+  return (
+    <MainLayout title="기능 지원 현황" description="C++ 기능별 도입 표준, 기능 테스트 매크로, 컴파일러 최소 버전">
+      {/* Filters */}
+      <div className="card p-5 mb-6">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label className="label">도입 표준</label>
+            <select className="select" value={standard} onChange={(e) => setStandard(e.target.value)}>
+              <option value="">전체</option>
+              {versions.map((v) => (
+                <option key={v.id} value={v.id}>{v.name}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="label">분류</label>
+            <select
+              className="select"
+              value={category}
+              onChange={(e) => setCategory(e.target.value as '' | 'language' | 'library')}
+            >
+              <option value="">전체</option>
+              <option value="language">언어</option>
+              <option value="library">라이브러리</option>
+            </select>
+          </div>
+
+          <div>
+            <label className="label">검색</label>
+            <input
+              className="input"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && loadMatrix()}
+              placeholder="기능 이름 또는 매크로 (예: optional, __cpp_concepts)"
+            />
+          </div>
+
+          <div>
+            <label className="label">툴체인</label>
+            <div className="flex gap-2">
+              <select
+                className="select"
+                value={compiler}
+                onChange={(e) => setCompiler(e.target.value as '' | CompilerId)}
+              >
+                <option value="">선택 안 함</option>
+                {(Object.keys(compilerLabels) as CompilerId[]).map((id) => (
+                  <option key={id} value={id}>{compilerLabels[id]}</option>
+                ))}
+              </select>
+              <input
+                className="input"
+                value={compilerVersion}
+                onChange={(e) => setCompilerVersion(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && loadMatrix()}
+                placeholder={compiler ? compilerVersionPlaceholders[compiler] : '버전'}
+                disabled={!compiler}
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="label">사용 가능 여부</label>
+            <select
+              className="select"
+              value={availability}
+              onChange={(e) => setAvailability(e.target.value as '' | 'true' | 'false')}
+              disabled={!compiler}
+            >
+              <option value="">전체</option>
+              <option value="true">사용 가능</option>
+              <option value="false">사용 불가</option>
+            </select>
+          </div>
+
+          <div className="flex items-end">
+            <button onClick={loadMatrix} disabled={loading} className="btn-primary px-6 w-full">
+              {loading ? '조회 중...' : '조회'}
+            </button>
+          </div>
+        </div>
+
+        {error && (
+          <p className="text-sm text-red-600 mt-3">{error}</p>
+        )}
+      </div>
+
+      {/* Matrix */}
+      {matrix && (
+        <div className="card overflow-hidden">
+          <div className="px-5 py-3 border-b border-surface-border text-sm text-gray-600">
+            {matrix.rows.length}개 기능
+            {toolchain && (
+              <span className="ml-2">
+                · {compilerLabels[toolchain.compiler]} {toolchain.version}에서 {availableCount}개 사용 가능
+              </span>
+            )}
+          </div>
+
+          {matrix.rows.length === 0 ? (
+            <p className="p-12 text-center text-gray-500">조건에 맞는 기능이 없습니다.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50 text-left text-xs text-gray-500">
+                  <tr>
+                    <th className="px-4 py-2 font-medium">기능</th>
+                    <th className="px-4 py-2 font-medium">표준</th>
+                    <th className="px-4 py-2 font-medium">기능 테스트 매크로</th>
+                    {matrix.compilers.map((id) => (
+                      <th key={id} className="px-4 py-2 font-medium text-center">{compilerLabels[id]}</th>
+                    ))}
+                    {toolchain && <th className="px-4 py-2 font-medium text-center">사용 가능</th>}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-surface-border">
+                  {matrix.rows.map((row) => (
+                    <tr key={row.id} className="hover:bg-gray-50">
+                      <td className="px-4 py-2">
+                        <p className="font-medium text-gray-900">{row.title}</p>
+                        <p className="text-xs text-gray-500">
+                          {row.category === 'language' ? '언어' : '라이브러리'}
+                          {row.notes && <span className="ml-2">{row.notes}</span>}
+                        </p>
+                      </td>
+                      <td className="px-4 py-2 whitespace-nowrap">{formatStandard(row.standard)}</td>
+                      <td className="px-4 py-2 font-mono text-xs whitespace-nowrap">
+                        {row.macro ? `${row.macro.name} >= ${row.macro.value}L` : '-'}
+                      </td>
+                      {matrix.compilers.map((id) => {
+                        const minimum = row.support[id]
+                        const highlight = toolchain?.compiler === id
+                          ? row.available ? 'bg-green-50 text-green-800' : 'bg-red-50 text-red-800'
+                          : ''
+                        return (
+                          <td key={id} className={`px-4 py-2 text-center whitespace-nowrap ${highlight}`}>
+                            {minimum ?? <span className="text-gray-400">미지원</span>}
+                          </td>
+                        )
+                      })}
+                      {toolchain && (
+                        <td className="px-4 py-2 text-center">
+                          {row.available
+                            ? <span className="text-green-600 font-medium">✓</span>
+                            : <span className="text-red-600 font-medium">✗</span>}
+                        </td>
+                      )}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+    </MainLayout>
+  )
+}
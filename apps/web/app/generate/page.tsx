@@ -3,14 +3,9 @@
 import { useState } from 'react'
 import { MainLayout } from '@/components/layout'
 import { generateDocument, type GenerationResult } from '@/lib/api'
+import { listVersions } from '@shuguridan/shared'
 
-const versions = [
-  { id: 'cpp11', name: 'C++11' },
-  { id: 'cpp14', name: 'C++14' },
-  { id: 'cpp17', name: 'C++17' },
-  { id: 'cpp20', name: 'C++20' },
-  { id: 'cpp23', name: 'C++23' },
-]
+const versions = listVersions({ supportedOnly: true })
 
 const docTypes = [
   { id: 'migration_guide', name: '마이그레이션 가이드', desc: '버전 업그레이드 가이드' },
@@ -213,9 +208,27 @@ export default function GeneratePage() {
 
               {/* Footer */}
               <div className="p-4 border-t border-surface-border flex items-center justify-between">
-                <p className="text-xs text-gray-500">
-                  RAG 참조 문서: {result.ragSourcesUsed}개
-                </p>
+                <div className="text-xs text-gray-500">
+                  <p>RAG 참조 문서: {result.ragSourcesUsed}개</p>
+                  {result.sources.length > 0 && (
+                    <ol className="mt-1 space-y-0.5">
+                      {result.sources.map((source) => (
+                        <li key={source.id}>
+                          [{source.index}]{' '}
+                          <a
+                            href={source.url}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="text-primary hover:underline"
+                          >
+                            {source.title}
+                          </a>{' '}
+                          ({source.versionId.replace('cpp', 'C++')}, {Math.round(source.similarity * 100)}%)
+                        </li>
+                      ))}
+                    </ol>
+                  )}
+                </div>
                 <div className="flex gap-2">
                   <button
                     onClick={() => navigator.clipboard.writeText(result.content)}
@@ -263,6 +276,7 @@ function formatMarkdown(text: string): string {
     .replace(/\*(.+?)\*/g, '<em>$1</em>')
     .replace(/`([^`]+)`/g, '<code>$1</code>')
     .replace(/```(\w+)?\n([\s\S]*?)```/g, '<pre><code>$2</code></pre>')
+    .replace(/\[((?:\[[^\]]*\]|[^[\]])+)\]\((https?:\/\/[^)\s]+)\)/g, '<a href="$2" target="_blank" rel="noopener noreferrer">$1</a>')
     .replace(/^- (.+)$/gm, '<li>$1</li>')
     .replace(/(<li>.*<\/li>\n?)+/g, '<ul>$&</ul>')
     .replace(/\n\n/g, '</p><p>')
@@ -5,6 +5,7 @@ import { Sidebar } from '@/components/layout/Sidebar'
 import { useSidebar } from '@/lib/sidebar-context'
 import { FileUpload, CodeEditor, DiffViewer, ExplanationPanel, CompilePanel, TestPanel, type Change } from './components'
 import { computeChanges, groupSimilarChanges } from './lib/computeChanges'
+import { listVersions } from '@shuguridan/shared'
 
 // Extract pure code from markdown if needed
 function extractCode(text: string): string {
@@ -16,16 +17,7 @@ function extractCode(text: string): string {
   return text
 }
 
-const VERSIONS = [
-  { id: 'cpp98', name: 'C++98' },
-  { id: 'cpp03', name: 'C++03' },
-  { id: 'cpp11', name: 'C++11' },
-  { id: 'cpp14', name: 'C++14' },
-  { id: 'cpp17', name: 'C++17' },
-  { id: 'cpp20', name: 'C++20' },
-  { id: 'cpp23', name: 'C++23' },
-  { id: 'cpp26', name: 'C++26' },
-]
+const VERSIONS = listVersions()
 
 const SAMPLE_CODE = `#include <iostream>
 #include <vector>
@@ -140,6 +132,7 @@ export default function ModernizePage() {
           code,
           filename: filename || undefined,
           outputLanguage,
+          includeChanges: true,
         }),
       })
 
@@ -154,9 +147,11 @@ export default function ModernizePage() {
       const modernizedCodeRaw = data.data?.modernizedCode || data.data?.content || code
       const modernizedCodeClean = extractCode(modernizedCodeRaw)
 
-      // Compute real changes by comparing original and modernized code
-      const rawChanges = computeChanges(code, modernizedCodeClean, outputLanguage)
-      const changes = groupSimilarChanges(rawChanges)
+      // Prefer the LLM's validated change list, fall back to local pattern matching
+      const serverChanges: Omit<Change, 'id'>[] | null = data.data?.changes ?? null
+      const changes: Change[] = serverChanges && serverChanges.length > 0
+        ? serverChanges.map((change, index) => ({ ...change, id: String(index) }))
+        : groupSimilarChanges(computeChanges(code, modernizedCodeClean, outputLanguage))
 
       setResult({
         id: data.data?.id || 'result-1',
@@ -14,14 +14,9 @@ import {
   type ProjectDocument,
   type ExportFormat,
 } from '@/lib/api'
+import { listVersions } from '@shuguridan/shared'
 
-const versions = [
-  { id: 'cpp11', name: 'C++11' },
-  { id: 'cpp14', name: 'C++14' },
-  { id: 'cpp17', name: 'C++17' },
-  { id: 'cpp20', name: 'C++20' },
-  { id: 'cpp23', name: 'C++23' },
-]
+const versions = listVersions({ supportedOnly: true })
 
 type TabType = 'documents' | 'history'
 
@@ -4,14 +4,9 @@ import { useState, useEffect } from 'react'
 import Link from 'next/link'
 import { MainLayout } from '@/components/layout'
 import { getProjects, createProject, updateProject, deleteProject, type Project } from '@/lib/api'
+import { listVersions } from '@shuguridan/shared'
 
-const versions = [
-  { id: 'cpp11', name: 'C++11' },
-  { id: 'cpp14', name: 'C++14' },
-  { id: 'cpp17', name: 'C++17' },
-  { id: 'cpp20', name: 'C++20' },
-  { id: 'cpp23', name: 'C++23' },
-]
+const versions = listVersions({ supportedOnly: true })
 
 export default function ProjectsPage() {
   const [projects, setProjects] = useState<Project[]>([])
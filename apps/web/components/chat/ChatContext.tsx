@@ -8,6 +8,16 @@ const API_BASE = process.env.NEXT_PUBLIC_API_URL ||
     ? 'https://shuguridanapi-production.up.railway.app'
     : 'http://localhost:3001')
 
+// 응답에 인용된 참고 문서
+export interface ChatSource {
+  index: number
+  id: string
+  title: string
+  versionId: string
+  url: string
+  similarity: number
+}
+
 // 메시지 타입
 export interface ChatMessage {
   id: string
@@ -15,6 +25,7 @@ export interface ChatMessage {
   content: string
   timestamp: Date
   isStreaming?: boolean
+  sources?: ChatSource[]
 }
 
 // 응답 모드 타입
@@ -34,7 +45,7 @@ type ChatAction =
   | { type: 'SET_VERSIONS'; sourceVersion: string; targetVersion: string }
   | { type: 'ADD_MESSAGE'; message: ChatMessage }
   | { type: 'UPDATE_MESSAGE'; id: string; content: string }
-  | { type: 'FINISH_STREAMING'; id: string }
+  | { type: 'FINISH_STREAMING'; id: string; content?: string; sources?: ChatSource[] }
   | { type: 'SET_LOADING'; isLoading: boolean }
   | { type: 'CLEAR_MESSAGES' }
   | { type: 'SET_RESPONSE_MODE'; mode: ResponseMode }
@@ -74,7 +85,15 @@ function chatReducer(state: ChatState, action: ChatAction): ChatState {
       return {
         ...state,
         messages: state.messages.map((msg) =>
-          msg.id === action.id ? { ...msg, isStreaming: false } : msg
+          msg.id === action.id
+            ? {
+                ...msg,
+                // 완료 이벤트의 본문은 [n] 인용이 출처 링크로 변환된 버전
+                content: action.content ?? msg.content,
+                sources: action.sources ?? msg.sources,
+                isStreaming: false,
+              }
+            : msg
         ),
       }
     case 'SET_LOADING':
@@ -193,7 +212,12 @@ export function ChatProvider({ children }: { children: ReactNode }) {
                     content: data.content,
                   })
                 } else if (data.type === 'done') {
-                  dispatch({ type: 'FINISH_STREAMING', id: assistantMessageId })
+                  dispatch({
+                    type: 'FINISH_STREAMING',
+                    id: assistantMessageId,
+                    content: data.content,
+                    sources: data.sources,
+                  })
                 }
               } catch {
                 // JSON 파싱 에러 무시
@@ -97,6 +97,29 @@ function ChatMessage({ message }: ChatMessageProps) {
           </div>
         )}
 
+        {/* 참고 문서 */}
+        {!isUser && !message.isStreaming && message.sources && message.sources.length > 0 && (
+          <div className="mt-3 pt-2 border-t border-slate-200 text-xs text-slate-500">
+            <div className="font-medium mb-1">참고 문서</div>
+            <ol className="space-y-0.5">
+              {message.sources.map((source) => (
+                <li key={source.id}>
+                  [{source.index}]{' '}
+                  <a
+                    href={source.url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-primary hover:underline"
+                  >
+                    {source.title}
+                  </a>{' '}
+                  ({source.versionId.replace('cpp', 'C++')}, {Math.round(source.similarity * 100)}%)
+                </li>
+              ))}
+            </ol>
+          </div>
+        )}
+
         {/* 스트리밍 인디케이터 */}
         {message.isStreaming && message.content && (
           <span className="inline-block w-2 h-4 ml-1 bg-primary-500 animate-pulse" />
@@ -23,6 +23,15 @@ const navigation = [
       </svg>
     ),
   },
+  {
+    name: '기능 지원 현황',
+    href: '/features',
+    icon: (
+      <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M3 10h18M3 14h18M10 3v18M5 3h14a2 2 0 012 2v14a2 2 0 01-2 2H5a2 2 0 01-2-2V5a2 2 0 012-2z" />
+      </svg>
+    ),
+  },
   {
     name: '마인드맵 & 챗봇',
     href: '/chat',
@@ -26,6 +26,8 @@ import CategoryNode from './CategoryNode'
 import DiffNode from './DiffNode'
 import {
   applyDagreLayout,
+  convertToReactFlowEdges,
+  isRelationEdge,
   type MindmapData,
 } from './mindmapUtils'
 
@@ -42,10 +44,11 @@ interface MindmapViewerProps {
   onNodeClick?: (nodeData: { label: string; description?: string; category?: string }) => void
 }
 
-// 부모-자식 관계 맵 생성
+// 부모-자식 관계 맵 생성 (관계 교차 엣지 제외)
 function buildParentChildMap(edges: Edge[]): Map<string, string[]> {
   const map = new Map<string, string[]>()
   edges.forEach((edge) => {
+    if (isRelationEdge(edge)) return
     const children = map.get(edge.source) || []
     children.push(edge.target)
     map.set(edge.source, children)
@@ -152,14 +155,7 @@ function MindmapViewerInner({
           position: node.position,
         }))
 
-        const flowEdges: Edge[] = data.edges.map((edge) => ({
-          id: edge.id,
-          source: edge.source,
-          target: edge.target,
-          type: 'smoothstep',
-          animated: false,
-          style: { stroke: '#94a3b8', strokeWidth: 2 },
-        }))
+        const flowEdges = convertToReactFlowEdges(data.edges)
 
         setAllNodes(flowNodes)
         setAllEdges(flowEdges)
@@ -209,8 +205,12 @@ function MindmapViewerInner({
       (edge) => visibleNodeIds.has(edge.source) && visibleNodeIds.has(edge.target)
     )
 
-    // Dagre 레이아웃 적용 (LR: 좌에서 우로)
-    const layoutedNodes = applyDagreLayout(filteredNodes, filteredEdges, 'LR')
+    // Dagre 레이아웃 적용 (LR: 좌에서 우로) - 관계 엣지는 트리 배치에서 제외
+    const layoutedNodes = applyDagreLayout(
+      filteredNodes,
+      filteredEdges.filter((edge) => !isRelationEdge(edge)),
+      'LR'
+    )
 
     setNodes(layoutedNodes)
     setEdges(filteredEdges)
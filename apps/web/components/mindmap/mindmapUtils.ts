@@ -19,7 +19,8 @@ export interface MindmapEdge {
   id: string
   source: string
   target: string
-  type?: string
+  type?: string // 'relation': 항목 간 관계 교차 엣지 (트리 구조/레이아웃에는 포함하지 않음)
+  label?: string
 }
 
 export interface MindmapData {
@@ -38,6 +39,12 @@ export const CATEGORY_COLORS: Record<string, string> = {
   deprecated: '#f97316',
   removed: '#ef4444',
   libraryChanges: '#3b82f6',
+  // 다운그레이드(백포트)
+  unavailable: '#ef4444',
+  unavailableLibrary: '#3b82f6',
+  revertedBehavior: '#eab308',
+  undeprecated: '#f97316',
+  restored: '#22c55e',
 }
 
 // 카테고리별 배경색 (투명도 포함)
@@ -47,6 +54,11 @@ export const CATEGORY_BG_COLORS: Record<string, string> = {
   deprecated: 'rgba(249, 115, 22, 0.1)',
   removed: 'rgba(239, 68, 68, 0.1)',
   libraryChanges: 'rgba(59, 130, 246, 0.1)',
+  unavailable: 'rgba(239, 68, 68, 0.1)',
+  unavailableLibrary: 'rgba(59, 130, 246, 0.1)',
+  revertedBehavior: 'rgba(234, 179, 8, 0.1)',
+  undeprecated: 'rgba(249, 115, 22, 0.1)',
+  restored: 'rgba(34, 197, 94, 0.1)',
 }
 
 /**
@@ -110,18 +122,47 @@ export function convertToReactFlowNodes(nodes: MindmapNode[]): Node[] {
   }))
 }
 
+// 관계 종류 한글명
+export const RELATION_LABELS: Record<string, string> = {
+  requires: '의존',
+  supersedes: '대체',
+  deprecates: '비권장화',
+  related: '관련',
+  'replacement-for': '대체 수단',
+}
+
+export function isRelationEdge(edge: Edge): boolean {
+  return edge.data?.relation === true
+}
+
 /**
  * API 엣지를 React Flow 엣지로 변환
  */
 export function convertToReactFlowEdges(edges: MindmapEdge[]): Edge[] {
-  return edges.map((edge) => ({
-    id: edge.id,
-    source: edge.source,
-    target: edge.target,
-    type: 'smoothstep',
-    animated: false,
-    style: { stroke: '#94a3b8', strokeWidth: 2 },
-  }))
+  return edges.map((edge) => {
+    if (edge.type === 'relation') {
+      return {
+        id: edge.id,
+        source: edge.source,
+        target: edge.target,
+        type: 'default',
+        animated: false,
+        label: edge.label ? RELATION_LABELS[edge.label] || edge.label : undefined,
+        labelStyle: { fill: '#6366f1', fontSize: 11 },
+        style: { stroke: '#6366f1', strokeWidth: 1.5, strokeDasharray: '6 4' },
+        data: { relation: true },
+      }
+    }
+
+    return {
+      id: edge.id,
+      source: edge.source,
+      target: edge.target,
+      type: 'smoothstep',
+      animated: false,
+      style: { stroke: '#94a3b8', strokeWidth: 2 },
+    }
+  })
 }
 
 // filterByLevel 함수는 개별 노드 펼침/접기로 대체되어 제거됨
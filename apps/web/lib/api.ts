@@ -1,3 +1,5 @@
+import type { CppVersionInfo, DiffItemRelation } from '@shuguridan/shared'
+
 // Production: Railway API URL, Development: localhost
 const API_BASE = process.env.NEXT_PUBLIC_API_URL ||
   (typeof window !== 'undefined' && window.location.hostname !== 'localhost'
@@ -9,6 +11,13 @@ interface ApiResponse<T> {
   data?: T
   error?: string
   meta?: Record<string, unknown>
+  pagination?: Pagination
+}
+
+export interface Pagination {
+  total: number
+  limit: number
+  offset: number
 }
 
 async function fetchApi<T>(
@@ -45,6 +54,7 @@ export interface DiffItem {
     explanation: string
   }>
   references?: string[]
+  relations?: DiffItemRelation[]
 }
 
 export interface DiffCategory {
@@ -55,14 +65,34 @@ export interface DiffCategory {
   libraryChanges: DiffItem[]
 }
 
+// 다운그레이드(백포트) 관점으로 뒤집은 카테고리
+export interface BackportCategory {
+  unavailable: DiffItem[]
+  unavailableLibrary: DiffItem[]
+  revertedBehavior: DiffItem[]
+  undeprecated: DiffItem[]
+  restored: DiffItem[]
+}
+
 export interface DiffResult {
   source: string
   target: string
+  direction: 'upgrade' | 'downgrade'
   diff: DiffCategory
+  backport?: BackportCategory
   summary: string
   totalChanges: number
 }
 
+export interface CitedSource {
+  index: number // 본문의 [n] 번호
+  id: string
+  title: string
+  versionId: string
+  url: string
+  similarity: number
+}
+
 export interface GenerationResult {
   id: string
   sourceVersion: string
@@ -70,15 +100,33 @@ export interface GenerationResult {
   docType: string
   content: string
   format: string
+  model: string
   ragSourcesUsed: number
+  sources: CitedSource[]
   generationTimeMs: number
   cached: boolean
   createdAt: string
 }
 
+export interface ModelInfo {
+  id: string
+  provider: 'openai' | 'anthropic' | 'local'
+  label: string
+  contextWindow: number
+  maxOutputTokens: number
+  inputCostPerToken: number
+  outputCostPerToken: number
+  available: boolean
+}
+
 // API Functions
-export async function getVersions(): Promise<string[]> {
-  const res = await fetchApi<{ versions: string[] }>('/api/versions')
+export async function getModels(): Promise<ModelInfo[]> {
+  const res = await fetchApi<{ models: ModelInfo[] }>('/api/models')
+  return res.data?.models || []
+}
+
+export async function getVersions(): Promise<CppVersionInfo[]> {
+  const res = await fetchApi<{ versions: CppVersionInfo[]; compiler: string | null }>('/api/versions')
   return res.data?.versions || []
 }
 
@@ -110,9 +158,13 @@ export async function generateDocument(params: {
     outputFormat?: 'bullet' | 'table' | 'prose' | 'mixed'
     useRag?: boolean
     ragLimit?: number
+    cacheMode?: 'use' | 'bypass' | 'invalidate'
+    rerank?: boolean
   }
   code?: string
   filename?: string
+  model?: string
+  temperature?: number
 }): Promise<GenerationResult> {
   const res = await fetchApi<GenerationResult>('/api/generate', {
     method: 'POST',
@@ -122,18 +174,35 @@ export async function generateDocument(params: {
   return res.data
 }
 
+export interface ModernizationChange {
+  lineStart: number
+  lineEnd: number
+  type: 'modify' | 'add' | 'delete'
+  originalSnippet: string
+  modernizedSnippet: string
+  explanation: string
+  category: string
+}
+
 export async function modernizeCode(params: {
   sourceVersion: string
   targetVersion: string
   code: string
   filename?: string
   outputLanguage?: 'ko' | 'en'
+  cacheMode?: 'use' | 'bypass' | 'invalidate'
+  includeChanges?: boolean
+  model?: string
+  temperature?: number
 }): Promise<{
   id: string
   sourceVersion: string
   targetVersion: string
   modernizedCode: string
+  changes: ModernizationChange[] | null
+  model: string
   ragSourcesUsed: number
+  sources: CitedSource[]
   generationTimeMs: number
   cached: boolean
 }> {
@@ -142,7 +211,10 @@ export async function modernizeCode(params: {
     sourceVersion: string
     targetVersion: string
     modernizedCode: string
+    changes: ModernizationChange[] | null
+    model: string
     ragSourcesUsed: number
+    sources: CitedSource[]
     generationTimeMs: number
     cached: boolean
   }>('/api/generate/modernize', {
@@ -242,6 +314,7 @@ export interface ExportResult {
 export async function exportDocument(params: {
   documentId: string
   format: ExportFormat
+  references?: CitedSource[] // 생성 결과의 sources (참고 문헌 섹션)
   includeMetadata?: boolean
   includeTableOfContents?: boolean
   theme?: 'light' | 'dark'
@@ -275,6 +348,7 @@ export interface FileResult {
   filename: string
   status: 'pending' | 'processing' | 'completed' | 'failed'
   documentId?: string
+  ingestStatus?: 'created' | 'updated' | 'unchanged'
   chunksCreated?: number
   totalTokens?: number
   error?: string
@@ -339,3 +413,149 @@ export async function getEmbeddingStats(): Promise<EmbeddingStats> {
   if (!res.data) throw new Error('Failed to get stats')
   return res.data
 }
+
+// Knowledge Base Types
+export type DocumentCategory = 'language' | 'library' | 'compiler'
+
+export interface KnowledgeDocumentSummary {
+  id: string
+  versionId: string
+  sourceKey: string
+  title: string
+  url: string | null
+  category: string | null
+  chunkCount: number
+  contentLength: number
+  embeddingModels: string[]
+  createdAt: string
+}
+
+export interface KnowledgeDocumentChunk {
+  id: string
+  title: string
+  content: string
+  metadata: Record<string, unknown>
+  chunkIndex: number
+  embeddingModel: string | null
+  embeddingDimensions: number | null
+  createdAt: string
+}
+
+export interface KnowledgeDocument {
+  id: string
+  versionId: string
+  sourceKey: string
+  contentHash: string | null
+  chunks: KnowledgeDocumentChunk[]
+}
+
+export interface KnowledgeDocumentFilters {
+  versionId?: string
+  category?: DocumentCategory
+  url?: string
+  search?: string
+  limit?: number
+  offset?: number
+}
+
+// null = 항목 삭제
+export type KnowledgeDocumentMetadataPatch = {
+  category?: DocumentCategory | null
+  section?: string | null
+  feature?: string | null
+  url?: string | null
+}
+
+// Knowledge Base API Functions
+export async function listKnowledgeDocuments(
+  filters: KnowledgeDocumentFilters = {}
+): Promise<{ documents: KnowledgeDocumentSummary[]; pagination: Pagination }> {
+  const params = new URLSearchParams()
+  for (const [key, value] of Object.entries(filters)) {
+    if (value !== undefined && value !== '') params.set(key, String(value))
+  }
+  const res = await fetchApi<KnowledgeDocumentSummary[]>(`/api/ingest/documents?${params}`)
+  return {
+    documents: res.data || [],
+    pagination: res.pagination || { total: 0, limit: filters.limit ?? 50, offset: filters.offset ?? 0 },
+  }
+}
+
+export async function getKnowledgeDocument(id: string): Promise<KnowledgeDocument> {
+  const res = await fetchApi<KnowledgeDocument>(`/api/ingest/documents/${id}`)
+  if (!res.data) throw new Error('Document not found')
+  return res.data
+}
+
+export async function updateKnowledgeDocumentMetadata(
+  id: string,
+  patch: KnowledgeDocumentMetadataPatch
+): Promise<KnowledgeDocument> {
+  const res = await fetchApi<KnowledgeDocument>(`/api/ingest/documents/${id}`, {
+    method: 'PATCH',
+    body: JSON.stringify(patch),
+  })
+  if (!res.data) throw new Error('Failed to update document')
+  return res.data
+}
+
+export async function deleteKnowledgeDocument(id: string): Promise<{ deletedCount: number }> {
+  const res = await fetchApi<{ deletedCount: number }>(`/api/ingest/documents/${id}`, {
+    method: 'DELETE',
+  })
+  if (!res.data) throw new Error('Failed to delete document')
+  return res.data
+}
+
+export async function reembedKnowledgeDocument(
+  id: string
+): Promise<{ chunksReembedded: number; model: string }> {
+  const res = await fetchApi<{ chunksReembedded: number; model: string }>(
+    `/api/ingest/documents/${id}/reembed`,
+    { method: 'POST' }
+  )
+  if (!res.data) throw new Error('Failed to re-embed document')
+  return res.data
+}
+
+// Feature Availability Types
+export type CompilerId = 'gcc' | 'clang' | 'msvc'
+
+export interface FeatureMatrixRow {
+  id: string
+  title: string
+  standard: string
+  category: 'language' | 'library'
+  diffItemId?: string
+  macro?: { name: string; value: number }
+  support: Record<CompilerId, string | null> // 최소 지원 버전 (null = 미지원)
+  notes?: string
+  diff?: { source: string; target: string; changeType: string }
+  available?: boolean // toolchain 지정 시
+}
+
+export interface FeatureMatrix {
+  compilers: CompilerId[]
+  toolchain?: { compiler: CompilerId; version: string }
+  rows: FeatureMatrixRow[]
+}
+
+export interface FeatureMatrixFilters {
+  standard?: string // 쉼표 구분 (cpp20,cpp23)
+  category?: 'language' | 'library'
+  q?: string
+  compiler?: CompilerId
+  compilerVersion?: string
+  available?: boolean
+}
+
+// Feature Availability API Functions
+export async function getFeatureMatrix(filters: FeatureMatrixFilters = {}): Promise<FeatureMatrix> {
+  const params = new URLSearchParams()
+  for (const [key, value] of Object.entries(filters)) {
+    if (value !== undefined && value !== '') params.set(key, String(value))
+  }
+  const res = await fetchApi<FeatureMatrix>(`/api/features/matrix?${params}`)
+  if (!res.data) throw new Error('No data returned')
+  return res.data
+}
@@ -1,2 +1,2 @@
 export * from './types.js'
-export * from './constants.js'
+export * from './versions.js'
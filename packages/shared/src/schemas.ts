@@ -0,0 +1,14 @@
+import { z } from 'zod'
+import { CPP_VERSION_IDS, SUPPORTED_VERSIONS } from './versions.js'
+import type { CppVersionId } from './types.js'
+
+/**
+ * 레지스트리에서 생성한 zod 스키마 (@shuguridan/shared/schemas)
+ * 웹 번들에 zod가 포함되지 않도록 별도 진입점으로 분리
+ */
+
+// 모든 버전 (문서 수집, 검색 필터, diff 데이터)
+export const cppVersionIdSchema = z.enum(CPP_VERSION_IDS)
+
+// 앱에서 선택 가능한 버전 (채팅, 생성, 컴파일, 업로드)
+export const supportedVersionIdSchema = z.enum(SUPPORTED_VERSIONS as [CppVersionId, ...CppVersionId[]])
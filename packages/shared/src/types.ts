@@ -1,5 +1,7 @@
-// C++ Version Types
-export type CppVersionId = 'cpp98' | 'cpp03' | 'cpp11' | 'cpp14' | 'cpp17' | 'cpp20' | 'cpp23' | 'cpp26'
+import type { CPP_VERSION_IDS } from './versions.js'
+
+// C++ Version Types (목록과 순서는 versions.ts의 레지스트리가 기준)
+export type CppVersionId = (typeof CPP_VERSION_IDS)[number]
 
 export interface CppVersion {
   id: CppVersionId
@@ -7,6 +9,24 @@ export interface CppVersion {
   year: number
   standardDoc: string
   features: string[]
+  order: number // 발행 순서 (비교/정렬용)
+  stdFlag: string // GCC/Clang -std 플래그
+  status: 'published' | 'draft'
+  supported: boolean // 문서 수집/채팅/생성 등 앱에서 선택 가능한 버전
+}
+
+// GET /api/versions 응답 (레지스트리 + 서버 상태)
+export interface CppVersionCapabilities {
+  diffData: {
+    asSource: CppVersionId[] // 이 버전에서 시작하는 diff 데이터의 타겟 버전
+    asTarget: CppVersionId[] // 이 버전으로 끝나는 diff 데이터의 소스 버전
+  }
+  compiler: boolean // 현재 컴파일러 provider의 지원 여부
+  ragDocuments: number | null // 임베딩된 문서 청크 수 (DB 조회 실패 시 null)
+}
+
+export interface CppVersionInfo extends CppVersion {
+  capabilities: CppVersionCapabilities
 }
 
 // Diff Types
@@ -18,6 +38,17 @@ export interface DiffCategory {
   libraryChanges: DiffItem[]
 }
 
+export type DiffDirection = 'upgrade' | 'downgrade'
+
+// 다운그레이드(백포트) 관점으로 뒤집은 카테고리
+export interface BackportCategory {
+  unavailable: DiffItem[] // newFeatures: 하위 표준에 없는 언어 기능 (대체 구현 필요)
+  unavailableLibrary: DiffItem[] // libraryChanges: 하위 표준 라이브러리에 없음
+  revertedBehavior: DiffItem[] // behaviorChanges: 하위 표준의 동작으로 되돌아감
+  undeprecated: DiffItem[] // deprecated: 하위 표준에서는 비권장이 아님
+  restored: DiffItem[] // removed: 하위 표준에서 다시 사용 가능
+}
+
 export interface DiffItem {
   id: string
   title: string
@@ -26,6 +57,16 @@ export interface DiffItem {
   impact: 'compile-time' | 'runtime' | 'ub' | 'memory-model'
   examples?: CodeExample[]
   references?: string[]
+  relations?: DiffItemRelation[]
+}
+
+// requires: 이 항목이 대상에 의존 / supersedes: 대상을 대체(재정의) / deprecates: 대상을 비권장으로 만듦
+// related: 관련 항목 / replacement-for: 제거·비권장된 대상의 대체 수단
+export type DiffRelationType = 'requires' | 'supersedes' | 'deprecates' | 'related' | 'replacement-for'
+
+export interface DiffItemRelation {
+  type: DiffRelationType
+  target: string // 같은 파일의 항목 id 또는 다른 표준의 "<version>:<id>" (예: cpp20:concepts)
 }
 
 export interface CodeExample {
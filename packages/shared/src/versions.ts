@@ -1,5 +1,14 @@
 import type { CppVersion, CppVersionId } from './types.js'
 
+/**
+ * C++ 버전 레지스트리
+ * API 라우트 검증, 웹 선택 목록, 버전 비교는 모두 여기서 파생
+ * DB의 cpp_versions 시드(00002, 00003)도 이 목록과 맞춰야 함
+ */
+
+// 발행 순서대로 정렬된 전체 버전 id
+export const CPP_VERSION_IDS = ['cpp98', 'cpp03', 'cpp11', 'cpp14', 'cpp17', 'cpp20', 'cpp23', 'cpp26'] as const
+
 export const CPP_VERSIONS: Record<CppVersionId, CppVersion> = {
   cpp98: {
     id: 'cpp98',
@@ -7,6 +16,10 @@ export const CPP_VERSIONS: Record<CppVersionId, CppVersion> = {
     year: 1998,
     standardDoc: 'ISO/IEC 14882:1998',
     features: ['STL', 'Templates', 'Exceptions', 'RTTI'],
+    order: 0,
+    stdFlag: '-std=c++98',
+    status: 'published',
+    supported: false,
   },
   cpp03: {
     id: 'cpp03',
@@ -14,6 +27,10 @@ export const CPP_VERSIONS: Record<CppVersionId, CppVersion> = {
     year: 2003,
     standardDoc: 'ISO/IEC 14882:2003',
     features: ['Value initialization fix', 'Standard library fixes'],
+    order: 1,
+    stdFlag: '-std=c++03',
+    status: 'published',
+    supported: false,
   },
   cpp11: {
     id: 'cpp11',
@@ -31,6 +48,10 @@ export const CPP_VERSIONS: Record<CppVersionId, CppVersion> = {
       'Variadic templates',
       'Thread support',
     ],
+    order: 2,
+    stdFlag: '-std=c++11',
+    status: 'published',
+    supported: true,
   },
   cpp14: {
     id: 'cpp14',
@@ -45,6 +66,10 @@ export const CPP_VERSIONS: Record<CppVersionId, CppVersion> = {
       'Digit separators',
       'std::make_unique',
     ],
+    order: 3,
+    stdFlag: '-std=c++14',
+    status: 'published',
+    supported: true,
   },
   cpp17: {
     id: 'cpp17',
@@ -61,6 +86,10 @@ export const CPP_VERSIONS: Record<CppVersionId, CppVersion> = {
       'Filesystem library',
       'Parallel algorithms',
     ],
+    order: 4,
+    stdFlag: '-std=c++17',
+    status: 'published',
+    supported: true,
   },
   cpp20: {
     id: 'cpp20',
@@ -77,6 +106,10 @@ export const CPP_VERSIONS: Record<CppVersionId, CppVersion> = {
       'std::span',
       'Calendar and timezone',
     ],
+    order: 5,
+    stdFlag: '-std=c++20',
+    status: 'published',
+    supported: true,
   },
   cpp23: {
     id: 'cpp23',
@@ -92,6 +125,10 @@ export const CPP_VERSIONS: Record<CppVersionId, CppVersion> = {
       'std::print',
       'Ranges improvements',
     ],
+    order: 6,
+    stdFlag: '-std=c++23',
+    status: 'published',
+    supported: true,
   },
   cpp26: {
     id: 'cpp26',
@@ -107,14 +144,34 @@ export const CPP_VERSIONS: Record<CppVersionId, CppVersion> = {
       'Pack indexing',
       'Text encoding',
     ],
+    order: 7,
+    stdFlag: '-std=c++2c', // c++26 uses c++2c in older compilers
+    status: 'draft',
+    supported: true,
   },
 }
 
-export const SUPPORTED_VERSIONS: CppVersionId[] = [
-  'cpp11',
-  'cpp14',
-  'cpp17',
-  'cpp20',
-  'cpp23',
-  'cpp26',
-]
+// 앱에서 선택 가능한 버전 (문서 수집/채팅/생성/컴파일 대상)
+export const SUPPORTED_VERSIONS: CppVersionId[] = CPP_VERSION_IDS.filter((id) => CPP_VERSIONS[id].supported)
+
+// 순서대로 정렬된 레지스트리 항목
+export function listVersions(options: { supportedOnly?: boolean } = {}): CppVersion[] {
+  const ids = options.supportedOnly ? SUPPORTED_VERSIONS : CPP_VERSION_IDS
+  return ids.map((id) => CPP_VERSIONS[id])
+}
+
+export function isCppVersionId(value: string): value is CppVersionId {
+  return (CPP_VERSION_IDS as readonly string[]).includes(value)
+}
+
+/**
+ * 발행 순서 비교 (a가 이전이면 음수, 같으면 0, 이후면 양수)
+ */
+export function compareVersions(a: CppVersionId, b: CppVersionId): number {
+  return CPP_VERSIONS[a].order - CPP_VERSIONS[b].order
+}
+
+// 표시용 이름 (cpp17 → C++17)
+export function getVersionName(id: CppVersionId): string {
+  return CPP_VERSIONS[id].name
+}
@@ -5,9 +5,11 @@
 
 import { readFile, writeFile } from 'fs/promises'
 import { join } from 'path'
+import { SUPPORTED_VERSIONS, type CppVersionId } from '@shuguridan/shared'
 import { parseHtmlDocument, type ParsedDocument } from './parse-html-docs.js'
 
-export type CppVersion = 'cpp11' | 'cpp14' | 'cpp17' | 'cpp20' | 'cpp23' | 'cpp26'
+// Versions to classify (supported versions in the shared registry; C++98/03 are not collected)
+export type CppVersion = Exclude<CppVersionId, 'cpp98' | 'cpp03'>
 
 export interface ClassificationResult {
   filename: string
@@ -153,7 +155,7 @@ const VERSION_URL_PATTERNS: Record<CppVersion, string[]> = {
 }
 
 // All C++ versions in order
-const ALL_VERSIONS: CppVersion[] = ['cpp11', 'cpp14', 'cpp17', 'cpp20', 'cpp23', 'cpp26']
+const ALL_VERSIONS = SUPPORTED_VERSIONS as CppVersion[]
 
 // Feature lists by version
 const VERSION_FEATURES: Record<CppVersion, string[]> = {
@@ -406,4 +408,4 @@ if (import.meta.url.endsWith(process.argv[1].replace(/\\/g, '/'))) {
   main().catch(console.error)
 }
 
-export { main as classifyDocs, ALL_VERSIONS, type CppVersion }
+export { main as classifyDocs, ALL_VERSIONS, VERSION_FEATURES, type CppVersion }
@@ -120,7 +120,8 @@ async function main() {
 
       console.log(
         `Batch ${Math.floor(i / BATCH_SIZE) + 1}/${Math.ceil(cpp26Docs.length / BATCH_SIZE)}: ` +
-        `${result.successful}/${result.totalProcessed} successful (${batchChunks} chunks)`
+        `${result.successful}/${result.totalProcessed} successful ` +
+        `(${result.created} new, ${result.updated} updated, ${result.unchanged} unchanged, ${batchChunks} chunks)`
       )
     } catch (err) {
       console.error(`Failed to ingest batch:`, err)
@@ -6,16 +6,14 @@
 import { readFile } from 'fs/promises'
 import { join } from 'path'
 import { parseHtmlDocument, type ParsedDocument } from './parse-html-docs.js'
-import type { ClassificationResult, CppVersion } from './classify-docs.js'
+import { ALL_VERSIONS, type ClassificationResult, type CppVersion } from './classify-docs.js'
+import { isCppVersionId } from '@shuguridan/shared'
 
 // Configuration
 const API_BASE = process.env.API_URL || 'http://localhost:3001'
 const BATCH_SIZE = 10 // Documents per batch
 const DELAY_MS = 1000 // Delay between batches to avoid rate limits
 
-// All C++ versions supported
-const ALL_VERSIONS: CppVersion[] = ['cpp11', 'cpp14', 'cpp17', 'cpp20', 'cpp23', 'cpp26']
-
 interface IngestDocumentInput {
   title: string
   content: string
@@ -25,12 +23,14 @@ interface IngestDocumentInput {
     url: string
     section?: string
     feature?: string
+    versionMarkers?: ParsedDocument['metadata']['versionMarkers']
   }
 }
 
 interface IngestResult {
   success: boolean
   documentId?: string
+  status?: 'created' | 'updated' | 'unchanged'
   chunksCreated?: number
   totalTokens?: number
   error?: string
@@ -40,6 +40,9 @@ interface BatchIngestResult {
   totalProcessed: number
   successful: number
   failed: number
+  created: number
+  updated: number
+  unchanged: number
   results: {
     successful: IngestResult[]
     failed: Array<{ error: string }>
@@ -110,6 +113,8 @@ function prepareDocument(
       category: mapCategory(doc.metadata.category),
       url: doc.metadata.url,
       feature: extractFeatureName(doc.metadata.url),
+      // 레지스트리에 없는 버전은 API 검증에서 거부되므로 제외
+      versionMarkers: doc.metadata.versionMarkers.filter(marker => isCppVersionId(marker.version)),
     },
   }
 }
@@ -202,6 +207,9 @@ async function embedDocuments(options: {
   let totalSuccess = 0
   let totalFailed = 0
   let totalChunks = 0
+  let totalCreated = 0
+  let totalUpdated = 0
+  let totalUnchanged = 0
 
   // Process in batches
   for (let i = 0; i < filtered.length; i += BATCH_SIZE) {
@@ -250,6 +258,9 @@ async function embedDocuments(options: {
         totalProcessed += result.totalProcessed
         totalSuccess += result.successful
         totalFailed += result.failed
+        totalCreated += result.created
+        totalUpdated += result.updated
+        totalUnchanged += result.unchanged
 
         // Calculate chunks from successful results
         const batchChunks = result.results.successful?.reduce(
@@ -260,7 +271,8 @@ async function embedDocuments(options: {
         console.log(
           `Batch ${Math.floor(i / BATCH_SIZE) + 1}: ` +
           `${result.successful}/${result.totalProcessed} successful ` +
-          `(${version}, ${batchChunks} chunks)`
+          `(${version}, ${result.created} new, ${result.updated} updated, ` +
+          `${result.unchanged} unchanged, ${batchChunks} chunks)`
         )
       } catch (err) {
         console.error(`Failed to ingest batch for ${version}:`, err)
@@ -279,6 +291,7 @@ async function embedDocuments(options: {
   console.log(`  Total processed: ${totalProcessed}`)
   console.log(`  Successful: ${totalSuccess}`)
   console.log(`  Failed: ${totalFailed}`)
+  console.log(`  Created: ${totalCreated}, Updated: ${totalUpdated}, Unchanged: ${totalUnchanged}`)
   console.log(`  Total chunks created: ${totalChunks}`)
 }
 
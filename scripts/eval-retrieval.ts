@@ -0,0 +1,328 @@
+/**
+ * Retrieval evaluation CLI
+ * Runs a golden query set through /api/rag/eval and reports recall@k, MRR and nDCG@k.
+ * With --fixture, indexes data/eval/corpus in memory and runs without the API or a database.
+ * With --baseline, compares against a previous report and fails on regressions (for CI).
+ */
+
+import { readFile, writeFile } from 'fs/promises'
+import { LocalEmbeddingProvider } from '../apps/api/src/services/embedding/local.js'
+import {
+  InMemoryRetriever,
+  RetrievalEvaluator,
+  loadFixtureCorpus,
+  loadGoldenQuerySet,
+  parseGoldenQuerySet,
+  type EvaluationOptions,
+  type GoldenQuerySet,
+} from '../apps/api/src/services/evaluation/index.js'
+
+// Configuration
+const API_BASE = process.env.API_URL || 'http://localhost:3001'
+const DEFAULT_SET = 'cppreference-core'
+const DEFAULT_MAX_DROP = 0.02
+
+type MetricsAtK = Record<string, number>
+
+interface EvaluationSummary {
+  queries: number
+  failed: number
+  recall: MetricsAtK
+  ndcg: MetricsAtK
+  mrr: number
+}
+
+interface QueryEvaluation {
+  id: string
+  query: string
+  recall: MetricsAtK
+  reciprocalRank: number
+  missing: Array<{ title?: string; url?: string }>
+  hits: Array<{ rank: number; title: string; url: string | null; expectedIndex: number | null }>
+  error?: string
+}
+
+interface EvaluationReport {
+  set: string
+  embeddingModel: string
+  options: { k: number[] } & Record<string, unknown>
+  summary: EvaluationSummary
+  queries: QueryEvaluation[]
+  durationMs: number
+  createdAt: string
+}
+
+interface CliOptions {
+  set?: string
+  file?: string
+  fixture?: string
+  provider: 'local' | 'default'
+  mode?: string
+  k?: number[]
+  threshold?: number
+  diversify?: boolean
+  output?: string
+  baseline?: string
+  maxDrop: number
+  verbose: boolean
+}
+
+/**
+ * Run the evaluation in process against a fixture corpus (local embeddings, no database)
+ */
+async function runFixtureEvaluation(options: CliOptions & { fixture: string }): Promise<EvaluationReport> {
+  let querySet: GoldenQuerySet | null
+  if (options.file) {
+    querySet = parseGoldenQuerySet(JSON.parse(await readFile(options.file, 'utf-8')), options.file)
+  } else {
+    querySet = await loadGoldenQuerySet(options.set ?? DEFAULT_SET)
+  }
+  if (!querySet) {
+    throw new Error(`Golden set not found: ${options.set}`)
+  }
+
+  const corpus = await loadFixtureCorpus(options.fixture)
+  if (!corpus) {
+    throw new Error(`Fixture corpus not found: data/eval/corpus/${options.fixture}.json`)
+  }
+
+  const embeddingProvider = new LocalEmbeddingProvider()
+  const retriever = await InMemoryRetriever.fromCorpus(corpus, embeddingProvider)
+  const evaluator = new RetrievalEvaluator(retriever, embeddingProvider.model)
+
+  return evaluator.evaluate(querySet, {
+    mode: options.mode as EvaluationOptions['mode'],
+    k: options.k,
+    threshold: options.threshold,
+    diversify: options.diversify,
+  })
+}
+
+/**
+ * Run the evaluation via the API
+ */
+async function runEvaluation(options: CliOptions): Promise<EvaluationReport> {
+  const body: Record<string, unknown> = {
+    embeddingProvider: options.provider,
+    mode: options.mode,
+    k: options.k,
+    threshold: options.threshold,
+    diversify: options.diversify,
+  }
+
+  if (options.file) {
+    body.goldenSet = JSON.parse(await readFile(options.file, 'utf-8'))
+  } else {
+    body.set = options.set ?? DEFAULT_SET
+  }
+
+  const response = await fetch(`${API_BASE}/api/rag/eval`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+  })
+
+  if (!response.ok) {
+    const errorText = await response.text()
+    throw new Error(`API error: ${response.status} - ${errorText}`)
+  }
+
+  const result = await response.json()
+  return result.data as EvaluationReport
+}
+
+function formatMetric(value: number): string {
+  return value.toFixed(3)
+}
+
+function printReport(report: EvaluationReport, verbose: boolean) {
+  const { summary } = report
+
+  console.log(`\n${'='.repeat(60)}`)
+  console.log(`Set: ${report.set} (${summary.queries} queries, ${summary.failed} failed)`)
+  console.log(`Embedding model: ${report.embeddingModel}`)
+  console.log(`Duration: ${(report.durationMs / 1000).toFixed(1)}s`)
+  console.log(`${'='.repeat(60)}`)
+
+  for (const k of report.options.k) {
+    console.log(
+      `  recall@${k}: ${formatMetric(summary.recall[k])}  ` +
+      `nDCG@${k}: ${formatMetric(summary.ndcg[k])}`
+    )
+  }
+  console.log(`  MRR: ${formatMetric(summary.mrr)}`)
+
+  if (!verbose) return
+
+  const maxK = Math.max(...report.options.k)
+  console.log('\nPer query:')
+  for (const query of report.queries) {
+    const status = query.error ? 'ERROR' : `recall@${maxK}=${formatMetric(query.recall[maxK])}`
+    console.log(`  [${query.id}] ${status} RR=${formatMetric(query.reciprocalRank)}`)
+    if (query.error) {
+      console.log(`    ${query.error}`)
+    }
+    for (const missing of query.missing) {
+      console.log(`    missing: ${missing.url || missing.title}`)
+    }
+    const firstHit = query.hits[0]
+    if (firstHit && firstHit.expectedIndex === null) {
+      console.log(`    top result: ${firstHit.title}${firstHit.url ? ` (${firstHit.url})` : ''}`)
+    }
+  }
+}
+
+/**
+ * Compare summary metrics with a baseline report
+ * Returns the metrics that dropped by more than maxDrop
+ */
+function compareWithBaseline(
+  report: EvaluationReport,
+  baseline: EvaluationReport,
+  maxDrop: number
+): string[] {
+  const rows: Array<{ name: string; before: number | undefined; after: number }> = []
+  for (const k of report.options.k) {
+    rows.push({ name: `recall@${k}`, before: baseline.summary.recall[k], after: report.summary.recall[k] })
+    rows.push({ name: `nDCG@${k}`, before: baseline.summary.ndcg[k], after: report.summary.ndcg[k] })
+  }
+  rows.push({ name: 'MRR', before: baseline.summary.mrr, after: report.summary.mrr })
+
+  console.log(`\nCompared with baseline (${baseline.createdAt}, ${baseline.embeddingModel}):`)
+  const regressions: string[] = []
+  for (const { name, before, after } of rows) {
+    if (before === undefined) {
+      console.log(`  ${name.padEnd(10)} ${formatMetric(after)} (not in baseline)`)
+      continue
+    }
+    const delta = after - before
+    const sign = delta >= 0 ? '+' : ''
+    const flag = delta < -maxDrop ? '  << regression' : ''
+    console.log(`  ${name.padEnd(10)} ${formatMetric(before)} -> ${formatMetric(after)} (${sign}${formatMetric(delta)})${flag}`)
+    if (delta < -maxDrop) regressions.push(name)
+  }
+
+  if (baseline.set !== report.set) {
+    console.warn(`\nWarning: baseline set "${baseline.set}" differs from "${report.set}"`)
+  }
+  if (baseline.embeddingModel !== report.embeddingModel) {
+    console.warn(`Warning: baseline embedding model "${baseline.embeddingModel}" differs from "${report.embeddingModel}"`)
+  }
+
+  return regressions
+}
+
+function parseArgs(args: string[]): CliOptions {
+  const value = (name: string) => {
+    const arg = args.find(a => a.startsWith(`--${name}=`))
+    return arg ? arg.slice(name.length + 3) : undefined
+  }
+
+  const provider = value('provider') ?? 'local'
+  if (provider !== 'local' && provider !== 'default') {
+    console.error(`Invalid provider: ${provider} (use local or default)`)
+    process.exit(1)
+  }
+
+  // --fixture: corpus with the same name as the set, --fixture=NAME: explicit corpus
+  const fixture = args.includes('--fixture') ? value('set') ?? DEFAULT_SET : value('fixture')
+  if (fixture && provider !== 'local') {
+    console.error('--fixture always uses local embeddings')
+    process.exit(1)
+  }
+  if (args.includes('--fixture') && value('file')) {
+    console.error('--file needs an explicit corpus: --fixture=NAME')
+    process.exit(1)
+  }
+
+  const mode = value('mode')
+  if (mode && !['vector', 'lexical', 'hybrid'].includes(mode)) {
+    console.error(`Invalid mode: ${mode} (use vector, lexical or hybrid)`)
+    process.exit(1)
+  }
+
+  const kArg = value('k')
+  const thresholdArg = value('threshold')
+  const maxDropArg = value('max-drop')
+
+  return {
+    set: value('set'),
+    file: value('file'),
+    fixture,
+    provider,
+    mode,
+    k: kArg ? kArg.split(',').map(k => parseInt(k, 10)) : undefined,
+    threshold: thresholdArg ? parseFloat(thresholdArg) : undefined,
+    diversify: args.includes('--no-diversify') ? false : undefined,
+    output: value('output'),
+    baseline: value('baseline'),
+    maxDrop: maxDropArg ? parseFloat(maxDropArg) : DEFAULT_MAX_DROP,
+    verbose: args.includes('--verbose'),
+  }
+}
+
+/**
+ * Main entry point
+ */
+async function main() {
+  const options = parseArgs(process.argv.slice(2))
+
+  const target = options.fixture ? `fixture corpus "${options.fixture}"` : API_BASE
+  console.log(`\nRunning ${options.file ?? options.set ?? DEFAULT_SET} against ${target} (${options.provider} embeddings)...`)
+  const report = options.fixture
+    ? await runFixtureEvaluation({ ...options, fixture: options.fixture })
+    : await runEvaluation(options)
+  printReport(report, options.verbose)
+
+  if (options.output) {
+    await writeFile(options.output, JSON.stringify(report, null, 2))
+    console.log(`\nReport written to ${options.output}`)
+  }
+
+  if (options.baseline) {
+    const baseline = JSON.parse(await readFile(options.baseline, 'utf-8')) as EvaluationReport
+    const regressions = compareWithBaseline(report, baseline, options.maxDrop)
+    if (regressions.length > 0) {
+      console.error(`\nRegression beyond ${options.maxDrop}: ${regressions.join(', ')}`)
+      process.exit(1)
+    }
+  }
+}
+
+// Usage help
+if (process.argv.includes('--help')) {
+  console.log(`
+Usage: npx tsx scripts/eval-retrieval.ts [options]
+
+Options:
+  --set=NAME             Golden set in data/eval (default: ${DEFAULT_SET})
+  --file=PATH            Golden set JSON file (instead of --set)
+  --fixture[=NAME]       Evaluate in process against data/eval/corpus/NAME.json
+                         (default NAME: the set name; no API or database needed)
+  --provider=PROVIDER    Embedding provider: local (default, reproducible) or default
+                         local only matches documents embedded with the local model
+  --mode=MODE            Retrieval mode: vector, lexical, hybrid
+  --k=1,3,5,10           Cutoffs for recall@k and nDCG@k
+  --threshold=N          Vector similarity threshold
+  --no-diversify         Disable per-document grouping and MMR
+  --output=PATH          Write the full report as JSON
+  --baseline=PATH        Compare with a previous report (exit 1 on regression)
+  --max-drop=N           Allowed drop per metric vs baseline (default: ${DEFAULT_MAX_DROP})
+  --verbose              Show per-query results and missing documents
+  --help                 Show this help
+
+Examples:
+  npx tsx scripts/eval-retrieval.ts --verbose
+  npx tsx scripts/eval-retrieval.ts --fixture --baseline=eval-fixture-baseline.json
+  npx tsx scripts/eval-retrieval.ts --output=eval-baseline.json
+  npx tsx scripts/eval-retrieval.ts --mode=vector --baseline=eval-baseline.json
+`)
+  process.exit(0)
+}
+
+main().catch(err => {
+  console.error('Error:', err)
+  process.exit(1)
+})
@@ -0,0 +1,310 @@
+/**
+ * Diff dataset authoring tool
+ * Seeds a draft data/diffs/<source>-<target>.draft.json from the classified cppreference corpus
+ * (classification-result*.json + CPP*_FEATURES URL patterns), and validates curated diff files.
+ *
+ * Drafts are starting points: items get a TODO description and default impact,
+ * and must be reviewed before being renamed to <source>-<target>.json.
+ */
+
+import { readFile, readdir, writeFile } from 'fs/promises'
+import { join } from 'path'
+import { ALL_VERSIONS, VERSION_FEATURES, type ClassificationResult, type CppVersion } from './classify-docs.js'
+import { validateDiffData } from '../apps/api/src/services/diff/schema.js'
+import { getDiffGraph } from '../apps/api/src/services/diff/relations.js'
+import type { StoredDiffData } from '../apps/api/src/services/diff/types.js'
+
+// Configuration
+const DIFF_DIR = join(process.cwd(), 'data', 'diffs')
+const DIFF_FILE_PATTERN = /^(cpp\d{2})-(cpp\d{2})\.json$/
+const DRAFT_DESCRIPTION = 'TODO'
+
+type DiffItem = StoredDiffData['newFeatures'][number]
+type CategoryKey = 'newFeatures' | 'behaviorChanges' | 'deprecated' | 'removed' | 'libraryChanges'
+
+const CATEGORY_KEYS: CategoryKey[] = ['newFeatures', 'behaviorChanges', 'deprecated', 'removed', 'libraryChanges']
+
+// Title revision markers: "(since C++20)", "(deprecated in C++20)", "(removed in C++20)", "(until C++20)"
+const TITLE_MARKER_PATTERN = /\((since|until|deprecated in|removed in) C\+\+(\d{2})\)/gi
+
+interface SeedOptions {
+  pair?: string
+  source: string
+  output?: string
+  check: boolean
+}
+
+interface Seed {
+  bucket: CategoryKey
+  item: DiffItem
+}
+
+/**
+ * Parse command line arguments
+ */
+function parseArgs(args: string[]): SeedOptions {
+  const getValue = (name: string) => args.find(a => a.startsWith(`--${name}=`))?.split('=')[1]
+
+  return {
+    pair: getValue('pair'),
+    source: getValue('source') ?? 'scrapped',
+    output: getValue('output'),
+    check: args.includes('--check'),
+  }
+}
+
+function parsePair(pair: string): [CppVersion, CppVersion] {
+  const match = pair.match(/^(cpp\d{2})-(cpp\d{2})$/)
+  const source = match?.[1] as CppVersion | undefined
+  const target = match?.[2] as CppVersion | undefined
+
+  if (!source || !target || !ALL_VERSIONS.includes(source) || !ALL_VERSIONS.includes(target)) {
+    throw new Error(`Invalid pair "${pair}" (expected e.g. cpp17-cpp20, versions: ${ALL_VERSIONS.join(', ')})`)
+  }
+  if (ALL_VERSIONS.indexOf(source) >= ALL_VERSIONS.indexOf(target)) {
+    throw new Error(`Target version must be newer than source version: ${pair}`)
+  }
+  return [source, target]
+}
+
+function getTitleMarkers(title: string): Array<{ type: string; version: string }> {
+  return [...title.matchAll(TITLE_MARKER_PATTERN)].map(match => ({
+    type: match[1].toLowerCase(),
+    version: `cpp${match[2]}`,
+  }))
+}
+
+function stripTitleMarkers(title: string): string {
+  return title.replace(TITLE_MARKER_PATTERN, '').trim()
+}
+
+// URL 마지막 경로 (예: .../ranges/filter_view.html → filter_view)
+function getUrlSlug(url: string): string {
+  const path = url.split('#')[0].replace(/\.html$/, '')
+  return decodeURIComponent(path.split('/').pop() ?? '').toLowerCase()
+}
+
+function toItemId(url: string): string {
+  const path = url.split('#')[0].replace(/\.html$/, '').replace(/^.*\/w\/cpp\//, '')
+  return decodeURIComponent(path)
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+}
+
+function matchesFeature(slug: string, features: string[]): string | undefined {
+  return features.find(feature => slug === feature.toLowerCase() || slug === feature.replace(/_/g, '-'))
+}
+
+/**
+ * 분류 결과 한 건을 타겟 버전의 diff 항목으로 변환 (해당 없으면 null)
+ * 1. 제목의 (since/deprecated in/removed in C++NN) 표기
+ * 2. URL이 타겟 버전 기능 패턴과 일치하고 이전 버전 기능이 아닌 경우
+ */
+function seedFromEntry(entry: ClassificationResult, source: CppVersion, target: CppVersion): Seed | null {
+  if (entry.category === 'general') return null
+
+  const markers = getTitleMarkers(entry.title)
+  const category: DiffItem['category'] = entry.category === 'language' ? 'language' : 'library'
+  const addedBucket: CategoryKey = category === 'language' ? 'newFeatures' : 'libraryChanges'
+
+  let bucket: CategoryKey | null = null
+
+  if (markers.some(m => m.version === target && (m.type === 'removed in' || m.type === 'until'))) {
+    bucket = 'removed'
+  } else if (markers.some(m => m.version === target && m.type === 'deprecated in')) {
+    bucket = 'deprecated'
+  } else if (markers.some(m => m.version === target && m.type === 'since')) {
+    bucket = addedBucket
+  } else if (!markers.some(m => m.type === 'since')) {
+    const slug = getUrlSlug(entry.url)
+    const olderVersions = ALL_VERSIONS.slice(0, ALL_VERSIONS.indexOf(target))
+    const olderFeature = olderVersions.some(v => matchesFeature(slug, VERSION_FEATURES[v]))
+
+    if (matchesFeature(slug, VERSION_FEATURES[target]) && !olderFeature) {
+      bucket = addedBucket
+    }
+  }
+
+  if (!bucket) return null
+
+  // 소스 버전에 이미 있던 기능은 제외
+  if (bucket === addedBucket && markers.some(m => m.type === 'since' && ALL_VERSIONS.indexOf(m.version as CppVersion) <= ALL_VERSIONS.indexOf(source))) {
+    return null
+  }
+
+  return {
+    bucket,
+    item: {
+      id: toItemId(entry.url),
+      title: stripTitleMarkers(entry.title),
+      description: DRAFT_DESCRIPTION,
+      category,
+      impact: 'compile-time',
+      references: [entry.url.split('#')[0]],
+    },
+  }
+}
+
+async function loadClassification(source: string): Promise<ClassificationResult[]> {
+  const filename = source === 'scrapped'
+    ? 'classification-result.json'
+    : `classification-result-${source}.json`
+  const content = await readFile(join(process.cwd(), 'scripts', filename), 'utf-8')
+  return JSON.parse(content) as ClassificationResult[]
+}
+
+async function loadCuratedDiff(key: string): Promise<StoredDiffData | null> {
+  try {
+    const content = await readFile(join(DIFF_DIR, `${key}.json`), 'utf-8')
+    return validateDiffData(JSON.parse(content), `${key}.json`, key)
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return null
+    throw err
+  }
+}
+
+/**
+ * Seed a draft for one version pair, keeping curated items from the existing file
+ */
+async function seedPair(pair: string, options: SeedOptions): Promise<void> {
+  const [source, target] = parsePair(pair)
+  const entries = await loadClassification(options.source)
+  const curated = await loadCuratedDiff(pair)
+
+  const draft: StoredDiffData = curated ?? {
+    sourceVersion: source,
+    targetVersion: target,
+    newFeatures: [],
+    behaviorChanges: [],
+    deprecated: [],
+    removed: [],
+    libraryChanges: [],
+  }
+
+  const curatedCount = CATEGORY_KEYS.reduce((sum, key) => sum + draft[key].length, 0)
+
+  // 이미 큐레이션된 항목 (id 또는 참고 문서가 같으면 중복)
+  const knownIds = new Set(CATEGORY_KEYS.flatMap(key => draft[key].map(item => item.id)))
+  const knownRefs = new Set(CATEGORY_KEYS.flatMap(key => draft[key].flatMap(item => item.references ?? [])))
+
+  const counts: Record<CategoryKey, number> = {
+    newFeatures: 0,
+    behaviorChanges: 0,
+    deprecated: 0,
+    removed: 0,
+    libraryChanges: 0,
+  }
+
+  for (const entry of entries) {
+    const seed = seedFromEntry(entry, source, target)
+    if (!seed) continue
+    if (knownIds.has(seed.item.id) || seed.item.references!.some(ref => knownRefs.has(ref))) continue
+
+    knownIds.add(seed.item.id)
+    seed.item.references!.forEach(ref => knownRefs.add(ref))
+    draft[seed.bucket].push(seed.item)
+    counts[seed.bucket]++
+  }
+
+  // 초안도 스키마를 만족해야 함 (TODO 설명만 남아 있는 상태)
+  validateDiffData(draft, `${pair}.draft.json`, pair)
+
+  const outputPath = options.output ?? join(DIFF_DIR, `${pair}.draft.json`)
+  await writeFile(outputPath, JSON.stringify({ $schema: './diff.schema.json', ...draft }, null, 2) + '\n')
+
+  console.log(`\nSeeded ${pair} from ${entries.length} classified documents (${options.source})`)
+  console.log(`  Curated items kept: ${curatedCount}`)
+  for (const key of CATEGORY_KEYS) {
+    console.log(`  + ${key}: ${counts[key]}`)
+  }
+  console.log(`\nDraft written to ${outputPath}`)
+  console.log(`Fill in descriptions/impact, then rename to ${pair}.json and run --check.`)
+}
+
+/**
+ * Validate every curated diff file (schema, file name vs versions, duplicate ids, leftover TODOs, relation targets)
+ */
+async function checkAll(): Promise<boolean> {
+  const files = (await readdir(DIFF_DIR)).filter(file => DIFF_FILE_PATTERN.test(file)).sort()
+  let ok = true
+
+  for (const file of files) {
+    const key = file.replace(/\.json$/, '')
+    try {
+      const content = await readFile(join(DIFF_DIR, file), 'utf-8')
+      const data = validateDiffData(JSON.parse(content), file, key)
+
+      const todos = CATEGORY_KEYS.flatMap(category =>
+        data[category].filter(item => item.description === DRAFT_DESCRIPTION).map(item => `${category}.${item.id}`)
+      )
+      if (todos.length > 0) {
+        throw new Error(`Unreviewed draft items in ${file}: ${todos.join(', ')}`)
+      }
+
+      const total = CATEGORY_KEYS.reduce((sum, category) => sum + data[category].length, 0)
+      console.log(`  ✓ ${file} (${total} items)`)
+    } catch (err) {
+      ok = false
+      console.error(`  ✗ ${err instanceof Error ? err.message : err}`)
+    }
+  }
+
+  // 파일 간 관계 대상 (cpp20:concepts 등)은 전체 그래프로 확인
+  if (ok) {
+    try {
+      const graph = await getDiffGraph()
+      console.log(`  ✓ relations (${graph.edges.length} edges)`)
+    } catch (err) {
+      ok = false
+      console.error(`  ✗ ${err instanceof Error ? err.message : err}`)
+    }
+  }
+
+  return ok
+}
+
+/**
+ * Main entry point
+ */
+async function main() {
+  const options = parseArgs(process.argv.slice(2))
+
+  if (options.check) {
+    console.log(`\nValidating diff files in ${DIFF_DIR}...`)
+    const ok = await checkAll()
+    if (!ok) process.exit(1)
+    return
+  }
+
+  if (!options.pair) {
+    throw new Error('Missing --pair (e.g. --pair=cpp17-cpp20) or --check')
+  }
+
+  await seedPair(options.pair, options)
+}
+
+// Usage help
+if (process.argv.includes('--help')) {
+  console.log(`
+Usage: npx tsx scripts/seed-diffs.ts [options]
+
+Options:
+  --pair=SOURCE-TARGET   Version pair to seed (e.g. cpp17-cpp20)
+  --source=NAME          Classification source: scrapped (default) or scrapped1
+                         (reads scripts/classification-result[-NAME].json)
+  --output=PATH          Draft output path (default: data/diffs/<pair>.draft.json)
+  --check                Validate all data/diffs/<source>-<target>.json files
+  --help                 Show this help
+
+Examples:
+  npx tsx scripts/seed-diffs.ts --pair=cpp20-cpp23 --source=scrapped1
+  npx tsx scripts/seed-diffs.ts --check
+`)
+  process.exit(0)
+}
+
+main().catch(err => {
+  console.error('Error:', err)
+  process.exit(1)
+})
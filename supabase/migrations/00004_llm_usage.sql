@@ -0,0 +1,58 @@
+-- Token usage and cost accounting for LLM / embedding calls
+CREATE TABLE llm_usage (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  route TEXT NOT NULL,
+  -- 프로젝트가 삭제되어도 비용 기록은 보존 (FK 없음)
+  project_id UUID,
+  call_type TEXT NOT NULL CHECK (call_type IN ('completion', 'embedding')),
+  provider TEXT NOT NULL,
+  model TEXT NOT NULL,
+  input_tokens INTEGER NOT NULL DEFAULT 0,
+  output_tokens INTEGER NOT NULL DEFAULT 0,
+  estimated_cost NUMERIC(12, 6) NOT NULL DEFAULT 0,
+  cache_hit BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX idx_llm_usage_created ON llm_usage(created_at);
+CREATE INDEX idx_llm_usage_project ON llm_usage(project_id);
+CREATE INDEX idx_llm_usage_model ON llm_usage(model);
+
+-- Aggregate usage by day / project / model
+CREATE OR REPLACE FUNCTION llm_usage_summary(
+  group_by TEXT,
+  from_ts TIMESTAMPTZ DEFAULT NULL,
+  to_ts TIMESTAMPTZ DEFAULT NULL,
+  filter_project UUID DEFAULT NULL,
+  filter_route TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  group_key TEXT,
+  calls BIGINT,
+  input_tokens BIGINT,
+  output_tokens BIGINT,
+  estimated_cost NUMERIC,
+  cache_hits BIGINT
+)
+LANGUAGE sql STABLE
+AS $$
+  SELECT
+    CASE group_by
+      WHEN 'day' THEN to_char(date_trunc('day', u.created_at), 'YYYY-MM-DD')
+      WHEN 'project' THEN COALESCE(u.project_id::text, 'unassigned')
+      WHEN 'model' THEN u.model
+      ELSE 'all'
+    END AS group_key,
+    COUNT(*) AS calls,
+    COALESCE(SUM(u.input_tokens), 0) AS input_tokens,
+    COALESCE(SUM(u.output_tokens), 0) AS output_tokens,
+    COALESCE(SUM(u.estimated_cost), 0) AS estimated_cost,
+    COUNT(*) FILTER (WHERE u.cache_hit) AS cache_hits
+  FROM llm_usage u
+  WHERE (from_ts IS NULL OR u.created_at >= from_ts)
+    AND (to_ts IS NULL OR u.created_at < to_ts)
+    AND (filter_project IS NULL OR u.project_id = filter_project)
+    AND (filter_route IS NULL OR u.route = filter_route)
+  GROUP BY 1
+  ORDER BY 1;
+$$;
@@ -0,0 +1,82 @@
+-- Track which embedding model produced each spec_documents vector
+ALTER TABLE spec_documents
+  ADD COLUMN embedding_model TEXT,
+  ADD COLUMN embedding_dimensions INTEGER;
+
+-- 기존 벡터는 모두 OpenAI text-embedding-3-small로 생성됨
+UPDATE spec_documents
+SET embedding_model = 'text-embedding-3-small',
+    embedding_dimensions = 1536
+WHERE embedding IS NOT NULL AND embedding_model IS NULL;
+
+CREATE INDEX idx_spec_documents_embedding_model ON spec_documents(embedding_model);
+
+-- 모델마다 차원이 다를 수 있으므로 차원 고정을 해제
+-- ivfflat 인덱스는 고정 차원이 필요하므로 1536차원 행에 대해서만 부분 인덱스로 재생성
+-- (ivfflat은 2000차원까지만 지원, 그 이상은 순차 스캔)
+DROP INDEX IF EXISTS idx_spec_documents_embedding;
+ALTER TABLE spec_documents ALTER COLUMN embedding TYPE VECTOR;
+
+CREATE INDEX idx_spec_documents_embedding_1536 ON spec_documents
+  USING ivfflat ((embedding::vector(1536)) vector_cosine_ops)
+  WHERE embedding_dimensions = 1536;
+
+-- Similarity search restricted to rows embedded with the active model
+DROP FUNCTION IF EXISTS match_documents(VECTOR, FLOAT, INT, TEXT);
+
+CREATE OR REPLACE FUNCTION match_documents(
+  query_embedding VECTOR,
+  match_threshold FLOAT,
+  match_count INT,
+  filter_version TEXT DEFAULT NULL,
+  filter_model TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  version_id TEXT,
+  title TEXT,
+  content TEXT,
+  metadata JSONB,
+  similarity FLOAT
+)
+LANGUAGE sql STABLE
+AS $$
+  -- 차원이 다른 벡터끼리 거리 계산을 하지 않도록 후보를 먼저 확정
+  WITH candidates AS MATERIALIZED (
+    SELECT d.id, d.version_id, d.title, d.content, d.metadata, d.embedding
+    FROM spec_documents d
+    WHERE d.embedding IS NOT NULL
+      AND d.embedding_dimensions = vector_dims(query_embedding)
+      AND (filter_model IS NULL OR d.embedding_model = filter_model)
+      AND (filter_version IS NULL OR d.version_id = filter_version)
+  )
+  SELECT
+    c.id,
+    c.version_id,
+    c.title,
+    c.content,
+    c.metadata,
+    1 - (c.embedding <=> query_embedding) AS similarity
+  FROM candidates c
+  WHERE 1 - (c.embedding <=> query_embedding) > match_threshold
+  ORDER BY c.embedding <=> query_embedding
+  LIMIT match_count;
+$$;
+
+-- Row counts per embedding model (re-embed progress / stats)
+CREATE OR REPLACE FUNCTION embedding_model_stats()
+RETURNS TABLE (
+  embedding_model TEXT,
+  embedding_dimensions INTEGER,
+  document_count BIGINT
+)
+LANGUAGE sql STABLE
+AS $$
+  SELECT
+    COALESCE(d.embedding_model, 'unknown') AS embedding_model,
+    d.embedding_dimensions,
+    COUNT(*) AS document_count
+  FROM spec_documents d
+  GROUP BY 1, 2
+  ORDER BY 3 DESC;
+$$;
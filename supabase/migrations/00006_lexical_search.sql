@@ -0,0 +1,49 @@
+-- Lexical (full-text + trigram) search path for exact identifiers
+-- e.g. std::launder, [[nodiscard]], P0135R1
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- 'simple' 설정: 영어 형태소 분석/불용어 제거 없이 식별자를 그대로 토큰화
+ALTER TABLE spec_documents
+  ADD COLUMN content_tsv TSVECTOR
+  GENERATED ALWAYS AS (
+    setweight(to_tsvector('simple', coalesce(title, '')), 'A') ||
+    setweight(to_tsvector('simple', content), 'B')
+  ) STORED;
+
+CREATE INDEX idx_spec_documents_content_tsv ON spec_documents USING gin (content_tsv);
+CREATE INDEX idx_spec_documents_title_trgm ON spec_documents USING gin (title gin_trgm_ops);
+
+CREATE OR REPLACE FUNCTION match_documents_lexical(
+  query_text TEXT,
+  match_count INT,
+  filter_version TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  version_id TEXT,
+  title TEXT,
+  content TEXT,
+  metadata JSONB,
+  score FLOAT
+)
+LANGUAGE sql STABLE
+AS $$
+  -- 자연어 질의도 매칭되도록 plainto_tsquery의 AND(&)를 OR(|)로 완화
+  WITH q AS (
+    SELECT NULLIF(replace(plainto_tsquery('simple', query_text)::text, '&', '|'), '')::tsquery AS tsq
+  )
+  SELECT
+    d.id,
+    d.version_id,
+    d.title,
+    d.content,
+    d.metadata,
+    -- ts_rank_cd 정규화(32): rank / (rank + 1) → 0..1, 제목 trigram 유사도와 합산
+    (COALESCE(ts_rank_cd(d.content_tsv, q.tsq, 32), 0) * 0.7
+      + word_similarity(query_text, d.title) * 0.3)::float AS score
+  FROM spec_documents d, q
+  WHERE (filter_version IS NULL OR d.version_id = filter_version)
+    AND ((q.tsq IS NOT NULL AND d.content_tsv @@ q.tsq) OR query_text <% d.title)
+  ORDER BY score DESC
+  LIMIT match_count;
+$$;
@@ -0,0 +1,72 @@
+-- Idempotent ingestion: 원본 문서 식별 키 + 내용 해시
+ALTER TABLE spec_documents
+  ADD COLUMN source_key TEXT,
+  ADD COLUMN content_hash TEXT;
+
+-- 기존 행의 원본 키: URL > 원본 제목 (청크) > 제목
+UPDATE spec_documents
+SET source_key = COALESCE(metadata->>'url', metadata->>'originalTitle', title)
+WHERE source_key IS NULL;
+
+-- 반복 수집으로 생긴 중복 행 정리 (같은 원본/청크 위치/내용 중 가장 먼저 생성된 행만 유지)
+DELETE FROM spec_documents d
+USING (
+  SELECT
+    id,
+    ROW_NUMBER() OVER (
+      PARTITION BY version_id, source_key, COALESCE(metadata->>'chunkIndex', '0'), md5(content)
+      ORDER BY created_at, id
+    ) AS row_number
+  FROM spec_documents
+) duplicates
+WHERE d.id = duplicates.id
+  AND duplicates.row_number > 1;
+
+CREATE INDEX idx_spec_documents_source ON spec_documents(version_id, source_key);
+
+-- 원본 문서의 청크를 한 트랜잭션에서 교체 (기존 청크 삭제 + 새 청크 삽입)
+-- p_chunks: [{ title, content, embedding, embedding_model, embedding_dimensions, metadata }]
+CREATE OR REPLACE FUNCTION replace_document_chunks(
+  p_version_id TEXT,
+  p_source_key TEXT,
+  p_content_hash TEXT,
+  p_chunks JSONB
+)
+RETURNS TABLE (id UUID)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  -- 같은 원본을 동시에 수집하는 요청을 직렬화
+  PERFORM pg_advisory_xact_lock(hashtext(p_version_id || ':' || p_source_key));
+
+  DELETE FROM spec_documents d
+  WHERE d.version_id = p_version_id
+    AND d.source_key = p_source_key;
+
+  RETURN QUERY
+  INSERT INTO spec_documents (
+    version_id,
+    source_key,
+    content_hash,
+    title,
+    content,
+    embedding,
+    embedding_model,
+    embedding_dimensions,
+    metadata
+  )
+  SELECT
+    p_version_id,
+    p_source_key,
+    p_content_hash,
+    chunk->>'title',
+    chunk->>'content',
+    (chunk->>'embedding')::vector,
+    chunk->>'embedding_model',
+    (chunk->>'embedding_dimensions')::integer,
+    COALESCE(chunk->'metadata', '{}'::jsonb)
+  FROM jsonb_array_elements(p_chunks) WITH ORDINALITY AS chunks(chunk, position)
+  ORDER BY position
+  RETURNING spec_documents.id;
+END;
+$$;
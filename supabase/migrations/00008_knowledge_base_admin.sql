@@ -0,0 +1,86 @@
+-- Knowledge-base browser: 원본 문서 (version_id, source_key) 단위 조회/수정
+
+-- 원본 문서 목록 (대표 id = 첫 청크 id, IngestResult.documentId와 동일)
+CREATE OR REPLACE FUNCTION list_source_documents(
+  filter_version TEXT DEFAULT NULL,
+  filter_category TEXT DEFAULT NULL,
+  filter_url TEXT DEFAULT NULL,
+  search_title TEXT DEFAULT NULL,
+  page_limit INT DEFAULT 50,
+  page_offset INT DEFAULT 0
+)
+RETURNS TABLE (
+  id UUID,
+  version_id TEXT,
+  source_key TEXT,
+  title TEXT,
+  url TEXT,
+  category TEXT,
+  chunk_count BIGINT,
+  content_length BIGINT,
+  embedding_models TEXT[],
+  created_at TIMESTAMPTZ,
+  total_count BIGINT
+)
+LANGUAGE sql STABLE
+AS $$
+  WITH documents AS (
+    SELECT
+      (array_agg(d.id ORDER BY COALESCE((d.metadata->>'chunkIndex')::int, 0), d.id))[1] AS id,
+      d.version_id,
+      d.source_key,
+      COALESCE(MAX(d.metadata->>'originalTitle'), MIN(d.title)) AS title,
+      MAX(d.metadata->>'url') AS url,
+      MAX(d.metadata->>'category') AS category,
+      COUNT(*) AS chunk_count,
+      SUM(length(d.content)) AS content_length,
+      array_agg(DISTINCT COALESCE(d.embedding_model, 'unknown')) AS embedding_models,
+      MIN(d.created_at) AS created_at
+    FROM spec_documents d
+    WHERE (filter_version IS NULL OR d.version_id = filter_version)
+      AND (filter_category IS NULL OR d.metadata->>'category' = filter_category)
+      AND (filter_url IS NULL OR d.metadata->>'url' ILIKE '%' || filter_url || '%')
+    GROUP BY d.version_id, d.source_key
+  )
+  SELECT
+    docs.id,
+    docs.version_id,
+    docs.source_key,
+    docs.title,
+    docs.url,
+    docs.category,
+    docs.chunk_count,
+    docs.content_length,
+    docs.embedding_models,
+    docs.created_at,
+    COUNT(*) OVER () AS total_count
+  FROM documents docs
+  WHERE search_title IS NULL OR docs.title ILIKE '%' || search_title || '%'
+  ORDER BY docs.title, docs.version_id
+  LIMIT page_limit
+  OFFSET page_offset;
+$$;
+
+-- 원본 문서의 모든 청크 metadata에 patch를 병합 (null 값은 키 삭제)
+CREATE OR REPLACE FUNCTION patch_source_document_metadata(
+  p_version_id TEXT,
+  p_source_key TEXT,
+  p_patch JSONB
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  updated_count INTEGER;
+BEGIN
+  UPDATE spec_documents d
+  SET metadata = (d.metadata || p_patch) - ARRAY(
+    SELECT key FROM jsonb_each(p_patch) WHERE value = 'null'::jsonb
+  )
+  WHERE d.version_id = p_version_id
+    AND d.source_key = p_source_key;
+
+  GET DIAGNOSTICS updated_count = ROW_COUNT;
+  RETURN updated_count;
+END;
+$$;
@@ -0,0 +1,168 @@
+-- Version-aware retrieval: 청크별 (since/until/deprecated in C++NN) 표기를 metadata.versionMarkers로 저장하고 검색 필터로 사용
+
+-- 버전 id → 발행 연도 (cpp98 → 1998, cpp17 → 2017), 버전 비교용
+CREATE OR REPLACE FUNCTION cpp_version_year(version TEXT)
+RETURNS INTEGER
+LANGUAGE sql IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN version ~ '^cpp\d{2}$' THEN
+      (CASE WHEN substring(version FROM 4)::int >= 90 THEN 1900 ELSE 2000 END) + substring(version FROM 4)::int
+  END;
+$$;
+
+-- 텍스트의 버전 표기 추출 (서비스의 extractVersionMarkers와 같은 규칙, 'removed in'은 until)
+CREATE OR REPLACE FUNCTION extract_version_markers(text_value TEXT)
+RETURNS JSONB
+LANGUAGE sql IMMUTABLE
+AS $$
+  SELECT COALESCE(jsonb_agg(DISTINCT jsonb_build_object(
+    'version', 'cpp' || m[2],
+    'type', CASE lower(m[1])
+      WHEN 'since' THEN 'since'
+      WHEN 'deprecated in' THEN 'deprecated'
+      ELSE 'until'
+    END
+  )), '[]'::jsonb)
+  FROM regexp_matches(text_value, '\((since|until|deprecated in|removed in) C\+\+(\d{2})\)', 'gi') AS m;
+$$;
+
+-- 기존 청크 backfill (원본 제목 + 본문)
+UPDATE spec_documents
+SET metadata = metadata || jsonb_build_object(
+  'versionMarkers',
+  extract_version_markers(COALESCE(metadata->>'originalTitle', title) || ' ' || content)
+)
+WHERE NOT metadata ? 'versionMarkers';
+
+-- 청크가 버전 수명 필터를 만족하는지 (조건은 AND, 필터 키가 없으면 통과)
+-- validIn: 전부 이후 버전에 추가되었거나 (since > V), since 없이 전부 제거된 (until ≤ V) 청크 제외
+-- removedBy: until ≤ removedBy (validIn이 있으면 validIn 이후 제거된 것만)
+-- deprecatedBy: deprecated ≤ deprecatedBy
+CREATE OR REPLACE FUNCTION matches_version_lifecycle(metadata JSONB, lifecycle JSONB)
+RETURNS BOOLEAN
+LANGUAGE sql IMMUTABLE
+AS $$
+  WITH markers AS (
+    SELECT marker->>'type' AS type, cpp_version_year(marker->>'version') AS year
+    FROM jsonb_array_elements(COALESCE(metadata->'versionMarkers', '[]'::jsonb)) AS marker
+  ),
+  f AS (
+    SELECT
+      cpp_version_year(lifecycle->>'validIn') AS valid_in,
+      cpp_version_year(lifecycle->>'removedBy') AS removed_by,
+      cpp_version_year(lifecycle->>'deprecatedBy') AS deprecated_by
+  )
+  SELECT
+    (
+      f.valid_in IS NULL
+      OR (
+        NOT (
+          EXISTS (SELECT 1 FROM markers WHERE type = 'since')
+          AND NOT EXISTS (SELECT 1 FROM markers WHERE type = 'since' AND year <= f.valid_in)
+        )
+        AND NOT (
+          NOT EXISTS (SELECT 1 FROM markers WHERE type = 'since')
+          AND EXISTS (SELECT 1 FROM markers WHERE type = 'until')
+          AND NOT EXISTS (SELECT 1 FROM markers WHERE type = 'until' AND year > f.valid_in)
+        )
+      )
+    )
+    AND (
+      f.removed_by IS NULL
+      OR EXISTS (
+        SELECT 1 FROM markers
+        WHERE type = 'until'
+          AND year <= f.removed_by
+          AND (f.valid_in IS NULL OR year > f.valid_in)
+      )
+    )
+    AND (
+      f.deprecated_by IS NULL
+      OR EXISTS (SELECT 1 FROM markers WHERE type = 'deprecated' AND year <= f.deprecated_by)
+    )
+  FROM f;
+$$;
+
+-- 검색 함수에 수명 필터 추가 (filter_lifecycle: {"validIn": "cpp17", "removedBy": "cpp20"})
+DROP FUNCTION IF EXISTS match_documents(VECTOR, FLOAT, INT, TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION match_documents(
+  query_embedding VECTOR,
+  match_threshold FLOAT,
+  match_count INT,
+  filter_version TEXT DEFAULT NULL,
+  filter_model TEXT DEFAULT NULL,
+  filter_lifecycle JSONB DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  version_id TEXT,
+  title TEXT,
+  content TEXT,
+  metadata JSONB,
+  similarity FLOAT
+)
+LANGUAGE sql STABLE
+AS $$
+  -- 차원이 다른 벡터끼리 거리 계산을 하지 않도록 후보를 먼저 확정
+  WITH candidates AS MATERIALIZED (
+    SELECT d.id, d.version_id, d.title, d.content, d.metadata, d.embedding
+    FROM spec_documents d
+    WHERE d.embedding IS NOT NULL
+      AND d.embedding_dimensions = vector_dims(query_embedding)
+      AND (filter_model IS NULL OR d.embedding_model = filter_model)
+      AND (filter_version IS NULL OR d.version_id = filter_version)
+      AND (filter_lifecycle IS NULL OR matches_version_lifecycle(d.metadata, filter_lifecycle))
+  )
+  SELECT
+    c.id,
+    c.version_id,
+    c.title,
+    c.content,
+    c.metadata,
+    1 - (c.embedding <=> query_embedding) AS similarity
+  FROM candidates c
+  WHERE 1 - (c.embedding <=> query_embedding) > match_threshold
+  ORDER BY c.embedding <=> query_embedding
+  LIMIT match_count;
+$$;
+
+DROP FUNCTION IF EXISTS match_documents_lexical(TEXT, INT, TEXT);
+
+CREATE OR REPLACE FUNCTION match_documents_lexical(
+  query_text TEXT,
+  match_count INT,
+  filter_version TEXT DEFAULT NULL,
+  filter_lifecycle JSONB DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  version_id TEXT,
+  title TEXT,
+  content TEXT,
+  metadata JSONB,
+  score FLOAT
+)
+LANGUAGE sql STABLE
+AS $$
+  -- 자연어 질의도 매칭되도록 plainto_tsquery의 AND(&)를 OR(|)로 완화
+  WITH q AS (
+    SELECT NULLIF(replace(plainto_tsquery('simple', query_text)::text, '&', '|'), '')::tsquery AS tsq
+  )
+  SELECT
+    d.id,
+    d.version_id,
+    d.title,
+    d.content,
+    d.metadata,
+    -- ts_rank_cd 정규화(32): rank / (rank + 1) → 0..1, 제목 trigram 유사도와 합산
+    (COALESCE(ts_rank_cd(d.content_tsv, q.tsq, 32), 0) * 0.7
+      + word_similarity(query_text, d.title) * 0.3)::float AS score
+  FROM spec_documents d, q
+  WHERE (filter_version IS NULL OR d.version_id = filter_version)
+    AND (filter_lifecycle IS NULL OR matches_version_lifecycle(d.metadata, filter_lifecycle))
+    AND ((q.tsq IS NOT NULL AND d.content_tsv @@ q.tsq) OR query_text <% d.title)
+  ORDER BY score DESC
+  LIMIT match_count;
+$$;
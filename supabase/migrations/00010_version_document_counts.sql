@@ -0,0 +1,20 @@
+-- Version registry: 버전별 검색 가능한 문서 청크 수 (GET /api/versions의 ragDocuments)
+-- filter_model이 있으면 해당 임베딩 모델로 임베딩된 행만 집계 (match_documents와 같은 기준)
+CREATE OR REPLACE FUNCTION version_document_counts(filter_model TEXT DEFAULT NULL)
+RETURNS TABLE (
+  version_id TEXT,
+  document_count BIGINT
+)
+LANGUAGE sql STABLE
+AS $$
+  SELECT
+    v.id AS version_id,
+    COUNT(d.id) AS document_count
+  FROM cpp_versions v
+  LEFT JOIN spec_documents d
+    ON d.version_id = v.id
+    AND d.embedding IS NOT NULL
+    AND (filter_model IS NULL OR d.embedding_model = filter_model)
+  GROUP BY v.id, v.year
+  ORDER BY v.year;
+$$;
@@ -0,0 +1,60 @@
+-- match_documents가 1536차원 부분 ivfflat 인덱스를 사용하도록 재정의
+-- 인덱스는 (embedding::vector(1536)) 표현식 + "embedding_dimensions = 1536" 조건으로 만들어져 있으므로
+-- 같은 표현식으로 정렬하고 같은 조건을 상수로 적어야 플래너가 인덱스를 고름
+-- (이전 정의는 MATERIALIZED CTE로 후보를 먼저 모아 항상 전체 스캔)
+-- 다른 차원의 질의는 인덱스 없이 같은 차원 행만 비교
+-- 질의 벡터는 vector(1536)으로 캐스트하지 않음 (함수가 인라인되면 상수 폴딩되어 다른 차원 질의에서 에러)
+DROP FUNCTION IF EXISTS match_documents(VECTOR, FLOAT, INT, TEXT, TEXT, JSONB);
+
+CREATE OR REPLACE FUNCTION match_documents(
+  query_embedding VECTOR,
+  match_threshold FLOAT,
+  match_count INT,
+  filter_version TEXT DEFAULT NULL,
+  filter_model TEXT DEFAULT NULL,
+  filter_lifecycle JSONB DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  version_id TEXT,
+  title TEXT,
+  content TEXT,
+  metadata JSONB,
+  similarity FLOAT
+)
+LANGUAGE sql STABLE
+AS $$
+  -- 거리순 상위 match_count개를 구한 뒤 임계값 적용 (임계값 미달 행은 항상 뒤쪽이므로 결과는 같음)
+  SELECT r.id, r.version_id, r.title, r.content, r.metadata, 1 - r.distance AS similarity
+  FROM (
+    (
+      SELECT
+        d.id, d.version_id, d.title, d.content, d.metadata,
+        d.embedding::vector(1536) <=> query_embedding AS distance
+      FROM spec_documents d
+      WHERE vector_dims(query_embedding) = 1536
+        AND d.embedding_dimensions = 1536
+        AND (filter_model IS NULL OR d.embedding_model = filter_model)
+        AND (filter_version IS NULL OR d.version_id = filter_version)
+        AND (filter_lifecycle IS NULL OR matches_version_lifecycle(d.metadata, filter_lifecycle))
+      ORDER BY d.embedding::vector(1536) <=> query_embedding
+      LIMIT match_count
+    )
+    UNION ALL
+    (
+      SELECT
+        d.id, d.version_id, d.title, d.content, d.metadata,
+        d.embedding <=> query_embedding AS distance
+      FROM spec_documents d
+      WHERE vector_dims(query_embedding) <> 1536
+        AND d.embedding_dimensions = vector_dims(query_embedding)
+        AND (filter_model IS NULL OR d.embedding_model = filter_model)
+        AND (filter_version IS NULL OR d.version_id = filter_version)
+        AND (filter_lifecycle IS NULL OR matches_version_lifecycle(d.metadata, filter_lifecycle))
+      ORDER BY d.embedding <=> query_embedding
+      LIMIT match_count
+    )
+  ) r
+  WHERE 1 - r.distance > match_threshold
+  ORDER BY r.distance;
+$$;
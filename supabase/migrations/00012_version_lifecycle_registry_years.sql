@@ -0,0 +1,50 @@
+-- 버전 수명 필터의 버전 비교를 cpp_versions.year 기준으로 변경
+-- (이전 cpp_version_year()는 id 문자열에서 연도를 계산해 버전 순서를 따로 정의)
+-- 레지스트리에 없는 버전은 NULL (필터 키가 없는 것과 같이 취급)
+CREATE OR REPLACE FUNCTION matches_version_lifecycle(metadata JSONB, lifecycle JSONB)
+RETURNS BOOLEAN
+LANGUAGE sql STABLE
+AS $$
+  WITH markers AS (
+    SELECT marker->>'type' AS type, v.year
+    FROM jsonb_array_elements(COALESCE(metadata->'versionMarkers', '[]'::jsonb)) AS marker
+    LEFT JOIN cpp_versions v ON v.id = marker->>'version'
+  ),
+  f AS (
+    SELECT
+      (SELECT year FROM cpp_versions WHERE id = lifecycle->>'validIn') AS valid_in,
+      (SELECT year FROM cpp_versions WHERE id = lifecycle->>'removedBy') AS removed_by,
+      (SELECT year FROM cpp_versions WHERE id = lifecycle->>'deprecatedBy') AS deprecated_by
+  )
+  SELECT
+    (
+      f.valid_in IS NULL
+      OR (
+        NOT (
+          EXISTS (SELECT 1 FROM markers WHERE type = 'since')
+          AND NOT EXISTS (SELECT 1 FROM markers WHERE type = 'since' AND year <= f.valid_in)
+        )
+        AND NOT (
+          NOT EXISTS (SELECT 1 FROM markers WHERE type = 'since')
+          AND EXISTS (SELECT 1 FROM markers WHERE type = 'until')
+          AND NOT EXISTS (SELECT 1 FROM markers WHERE type = 'until' AND year > f.valid_in)
+        )
+      )
+    )
+    AND (
+      f.removed_by IS NULL
+      OR EXISTS (
+        SELECT 1 FROM markers
+        WHERE type = 'until'
+          AND year <= f.removed_by
+          AND (f.valid_in IS NULL OR year > f.valid_in)
+      )
+    )
+    AND (
+      f.deprecated_by IS NULL
+      OR EXISTS (SELECT 1 FROM markers WHERE type = 'deprecated' AND year <= f.deprecated_by)
+    )
+  FROM f;
+$$;
+
+DROP FUNCTION IF EXISTS cpp_version_year(TEXT);